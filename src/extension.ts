@@ -1,7 +1,25 @@
 import * as vscode from "vscode";
 import { S3Explorer } from "./tree/explorer";
+import {
+  VersionsExplorer,
+  VersionsTarget,
+  isVersionNode,
+} from "./tree/versions";
 import { S3FileSystemProvider } from "./fs/provider";
-import { listBuckets, searchObjects } from "./s3/listing";
+import { S3TimelineProvider } from "./fs/timelineProvider";
+import {
+  BUCKET_CONFIG_SCHEME,
+  BucketConfigFileSystemProvider,
+  createBucketConfigUri,
+  parseBucketConfigUri,
+} from "./fs/configProvider";
+import {
+  listBuckets,
+  searchObjects,
+  listObjectsRecursive,
+  listChildKeys,
+  formatFileSize,
+} from "./s3/listing";
 import {
   createFolder,
   uploadFile,
@@ -10,17 +28,52 @@ import {
   deleteObjects,
   copyObject,
   moveObject,
+  copyPrefix,
+  movePrefix,
   generatePresignedUrl,
   getObjectMetadata,
+  abortMultipartUpload,
+  discardDownload,
+  restoreObjectVersion,
+  deleteObjectVersion,
 } from "./s3/ops";
-import { testConnection, clearClientCache } from "./s3/client";
-import { s3Cache } from "./util/cache";
 import {
+  testConnection,
+  clearClientCache,
+  getConnections,
+  getConnectionTarget,
+  editConnections,
+  getConfig,
+  updateCredentials,
+  usesSettingsCredentials,
+  getUploadExcludes,
+} from "./s3/client";
+import {
+  initializeSecrets,
+  loadSecrets,
+  migrateSecretsFromSettings,
+  storeSecretAccessKey,
+  storeSessionToken,
+  deleteSecrets,
+} from "./s3/secrets";
+import {
+  initializeTransferState,
+  getPendingUploads,
+  getPendingDownloads,
+} from "./s3/transferState";
+import { getCache, invalidateAllCaches } from "./util/cache";
+import {
+  BucketNode,
   LoadMoreNode,
+  ObjectNode,
+  PrefixNode,
+  isConnectionNode,
   isObjectNode,
   isLoadMoreNode,
   isPrefixNode,
   isBucketNode,
+  isLifecycleNode,
+  isLifecycleRuleNode,
 } from "./tree/nodes";
 import {
   withUploadProgress,
@@ -28,36 +81,136 @@ import {
   withDeleteProgress,
   withCopyProgress,
   withMoveProgress,
+  withListingProgress,
   withProgress,
+  withProgressBatch,
 } from "./ui/progress";
 import {
+  promptForConnection,
+  promptForNewConnection,
   promptForBucket,
   promptForFolderName,
+  promptForFileName,
+  promptForTargetPrefix,
   promptForSearchTerm,
   promptForPresignedUrlExpiry,
+  promptForConfirmation,
   promptForDestructiveConfirmation,
   promptForMoveOrCopy,
+  promptForConflictPolicy,
+  promptForZipOptions,
+  promptForSyncOptions,
+  promptForMapping,
+  promptForCompareTarget,
+  promptForKey,
+  promptForBucketName,
+  promptForBucketRegion,
+  promptForBucketDeleteMode,
+  promptForTags,
+  promptForTagChange,
   promptForConfigurationSetup,
+  promptForCredentials,
   showFilePicker,
   showFolderPicker,
   showSaveDialog,
   showErrorMessage,
+  showWarningMessage,
   showInformationMessage,
 } from "./ui/prompts";
 import {
   joinPath,
+  createS3xUri,
+  parseS3xUri,
   getFileName,
+  getParentPrefix,
+  removeTrailingSlash,
+  getRelativePath,
+  getCommonPrefix,
+  generateUniqueKey,
+  ensureTrailingSlash,
   isImageFile,
   isVideoFile,
   isAudioFile,
 } from "./util/paths";
+import { loadIgnoreMatcher } from "./util/ignore";
+import {
+  walkLocalFolder,
+  computeFileMd5,
+  isUnchanged,
+  keyToLocalPath,
+} from "./util/localFiles";
+import { mapWithConcurrency } from "./util/concurrency";
+import { trackLocalWrite } from "./util/localWrites";
+import { downloadAsZip, withoutFolderMarkers } from "./s3/zip";
+import { buildSyncPlan, applySyncPlan, SyncTarget } from "./s3/sync";
+import { buildDriftReport, copyDriftEntries } from "./s3/drift";
+import {
+  createBucket,
+  deleteBucket,
+  deleteBucketCors,
+  emptyBucket,
+  getBucketProperties,
+} from "./s3/buckets";
+import { getObjectTags, putObjectTags, tagObjects } from "./s3/tagging";
+import { formatTags, tagsEqual } from "./util/tags";
+import {
+  DriftReport,
+  PrefixLocation,
+  formatDriftCsv,
+  formatPrefixLocation,
+} from "./util/drift";
+import {
+  createDriftReportPanel,
+  renderDriftReport,
+} from "./ui/driftReport";
+import {
+  SyncOptions,
+  countSyncChanges,
+  formatSyncPlan,
+  formatSyncComparison,
+} from "./util/sync";
+import {
+  initializeMappings,
+  onDidChangeMappings,
+  reloadMappings,
+  getMappings,
+  findMapping,
+  MAPPINGS_FILE,
+} from "./s3/mappings";
+import { initializeAutoUpload, toggleAutoUpload } from "./s3/autoUpload";
+import { initializePolicyDiagnostics } from "./ui/policyDiagnostics";
+import {
+  createBucketPropertiesPanel,
+  renderBucketProperties,
+} from "./ui/bucketProperties";
+import {
+  ObjectOperationError,
+  S3Object,
+  TransferResult,
+  UploadConflictPolicy,
+} from "./types";
+
+const PREFIX_DOWNLOAD_CONCURRENCY = 4;
 
 let s3Explorer: S3Explorer;
 let s3FileSystemProvider: S3FileSystemProvider;
+let configProvider: BucketConfigFileSystemProvider;
+let versionsExplorer: VersionsExplorer;
+let versionsView: vscode.TreeView<vscode.TreeItem>;
 
 export async function activate(context: vscode.ExtensionContext) {
   console.log("S3/R2 Explorer is activating...");
 
+  // Load secret keys before anything builds a client
+  context.subscriptions.push(
+    await initializeSecrets(
+      context.secrets,
+      getConnections().map((c) => c.name)
+    )
+  );
+  await migrateSecrets();
+  initializeTransferState(context.globalState);
+
   // Initialize providers
   s3Explorer = new S3Explorer();
   s3FileSystemProvider = new S3FileSystemProvider();
@@ -69,6 +222,37 @@ export async function activate(context: vscode.ExtensionContext) {
   );
   context.subscriptions.push(fsProviderDisposable);
 
+  // The Timeline API is still a proposal. VS Code only grants it where
+  // proposed APIs are allowed for this extension and throws elsewhere.
+  try {
+    context.subscriptions.push(
+      vscode.workspace.registerTimelineProvider(
+        "s3x",
+        new S3TimelineProvider(s3FileSystemProvider.onDidChangeFile)
+      )
+    );
+  } catch (error) {
+    console.log("Timeline provider not registered:", error);
+  }
+
+  // Bucket settings edited as JSON documents
+  configProvider = new BucketConfigFileSystemProvider();
+  context.subscriptions.push(
+    vscode.workspace.registerFileSystemProvider(
+      BUCKET_CONFIG_SCHEME,
+      configProvider
+    ),
+    configProvider.onDidChangeFile((events) => {
+      for (const { uri } of events) {
+        const config = parseBucketConfigUri(uri);
+        if (config?.name === "lifecycle.json") {
+          s3Explorer.refreshLifecycle(config.bucket, config.connection);
+        }
+      }
+    }),
+    initializePolicyDiagnostics()
+  );
+
   // Register TreeDataProvider
   const treeViewDisposable = vscode.window.createTreeView("s3xExplorer", {
     treeDataProvider: s3Explorer,
@@ -77,13 +261,48 @@ export async function activate(context: vscode.ExtensionContext) {
   });
   context.subscriptions.push(treeViewDisposable);
 
+  // Shown on demand by "Show Versions"
+  versionsExplorer = new VersionsExplorer();
+  versionsView = vscode.window.createTreeView("s3xVersions", {
+    treeDataProvider: versionsExplorer,
+  });
+  context.subscriptions.push(versionsView);
+
+  // Pin folders linked in .vscode/s3x.json to the tree. Only warn about
+  // invalid mappings when they change, not on every settings reload.
+  let lastMappingErrors = "";
+  context.subscriptions.push(
+    onDidChangeMappings((errors) => {
+      const message = errors.join("; ");
+      if (message && message !== lastMappingErrors) {
+        showWarningMessage(`Invalid remote folder mappings: ${message}`);
+      }
+      lastMappingErrors = message;
+      s3Explorer.refresh();
+    }),
+    initializeAutoUpload(context.workspaceState),
+    initializeMappings()
+  );
+
   // Register commands
   registerCommands(context);
 
+  // Rebuild the tree when connections are added, removed or edited
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration(async (event) => {
+      if (event.affectsConfiguration("s3x")) {
+        await loadSecrets(getConnections().map((c) => c.name));
+        await migrateSecrets();
+        await reloadMappings(); // Also refreshes the tree
+      }
+    })
+  );
+
   // Check initial configuration
   const isConfigured = await promptForConfigurationSetup();
-  if (isConfigured) {
-    // Test connection on startup
+  if (isConfigured && getConnections().length === 0) {
+    // Test connection on startup (named connections report their own
+    // errors when expanded in the tree)
     try {
       await testConnection();
       showInformationMessage("Connected to S3/R2 successfully!");
@@ -96,12 +315,161 @@ export async function activate(context: vscode.ExtensionContext) {
     }
   }
 
+  // Don't block activation on the answer
+  void offerToResumeUploads();
+  void offerToResumeDownloads();
+
   console.log("S3/R2 Explorer activated successfully");
 }
 
+async function migrateSecrets() {
+  try {
+    const { migrated, conflicts } = await migrateSecretsFromSettings();
+    if (migrated > 0) {
+      showInformationMessage(
+        `Moved ${migrated} secret access key${
+          migrated === 1 ? "" : "s"
+        } from settings.json to secure storage`
+      );
+    }
+    for (const { connection, scopes } of conflicts) {
+      showWarningMessage(
+        `The secret access key of ${
+          connection ? `connection "${connection}"` : "the default connection"
+        } differs between ${scopes.join(", ")}, so it was left in settings. Keep one of them, or use Update Credentials to store the right key.`
+      );
+    }
+  } catch (error) {
+    showErrorMessage(
+      `Failed to move secret access keys to secure storage: ${
+        error instanceof Error ? error.message : error
+      }`
+    );
+  }
+}
+
+async function offerToResumeUploads() {
+  const pending = getPendingUploads();
+  if (pending.length === 0) {
+    return;
+  }
+
+  const choice = await vscode.window.showInformationMessage(
+    `${pending.length} interrupted upload${
+      pending.length === 1 ? "" : "s"
+    } can be resumed`,
+    "Resume",
+    "Discard"
+  );
+
+  if (choice === "Discard") {
+    await Promise.all(pending.map((upload) => abortMultipartUpload(upload)));
+    return;
+  }
+  if (choice !== "Resume") {
+    return;
+  }
+
+  const fs = await import("fs");
+
+  for (const upload of pending) {
+    const fileName = getFileName(upload.filePath);
+
+    if (!fs.existsSync(upload.filePath)) {
+      await abortMultipartUpload(upload);
+      showErrorMessage(
+        `Cannot resume upload of ${fileName}: the local file no longer exists`
+      );
+      continue;
+    }
+
+    try {
+      await withUploadProgress(async (progress) => {
+        progress.report({ message: `Resuming ${fileName}...` });
+        await uploadFile(
+          upload.bucket,
+          upload.key,
+          upload.filePath,
+          (progressPercent) => {
+            progress.setProgress(
+              progressPercent,
+              `Uploading ${fileName}... ${progressPercent}%`
+            );
+          },
+          upload.connection
+        );
+      }, fileName);
+
+      getCache(upload.connection).invalidateKey(upload.bucket, upload.key);
+      showInformationMessage(`Uploaded ${fileName} successfully`);
+    } catch (error) {
+      showErrorMessage(
+        `Failed to resume upload of ${fileName}: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
+  }
+
+  s3Explorer.refresh();
+}
+
+async function offerToResumeDownloads() {
+  const pending = getPendingDownloads();
+  if (pending.length === 0) {
+    return;
+  }
+
+  const choice = await vscode.window.showInformationMessage(
+    `${pending.length} interrupted download${
+      pending.length === 1 ? "" : "s"
+    } can be resumed`,
+    "Resume",
+    "Discard"
+  );
+
+  if (choice === "Discard") {
+    await Promise.all(pending.map((download) => discardDownload(download)));
+    return;
+  }
+  if (choice !== "Resume") {
+    return;
+  }
+
+  for (const download of pending) {
+    const fileName = getFileName(download.filePath);
+
+    try {
+      await withDownloadProgress(async (progress) => {
+        progress.report({ message: `Resuming ${fileName}...` });
+        await downloadFile(
+          download.bucket,
+          download.key,
+          download.filePath,
+          (progressPercent) => {
+            progress.setProgress(
+              progressPercent,
+              `Downloading ${fileName}... ${progressPercent}%`
+            );
+          },
+          download.connection
+        );
+      }, fileName);
+
+      showInformationMessage(`Downloaded "${fileName}" successfully`);
+    } catch (error) {
+      showErrorMessage(
+        `Failed to resume download of ${fileName}: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
+  }
+}
+
 export function deactivate() {
   clearClientCache();
-  s3Cache.invalidateAll();
+  invalidateAllCaches();
 }
 
 function registerCommands(context: vscode.ExtensionContext) {
@@ -113,7 +481,7 @@ function registerCommands(context: vscode.ExtensionContext) {
       } catch (error) {
         console.error("Error during refresh:", error);
         // If refresh fails, try a full refresh
-        s3Cache.invalidateAll();
+        invalidateAllCaches();
         s3Explorer.refresh();
       }
     })
@@ -129,6 +497,18 @@ function registerCommands(context: vscode.ExtensionContext) {
     })
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand("s3x.addConnection", async () => {
+      await handleAddConnection();
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("s3x.removeConnection", async (node) => {
+      await handleRemoveConnection(node);
+    })
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand(
       "s3x.loadMore",
@@ -142,6 +522,30 @@ function registerCommands(context: vscode.ExtensionContext) {
 
   // CRUD commands
   context.subscriptions.push(
+    vscode.commands.registerCommand("s3x.createBucket", async (node) => {
+      await handleCreateBucket(node);
+    }),
+    vscode.commands.registerCommand("s3x.deleteBucket", async (node) => {
+      await handleDeleteBucket(node);
+    }),
+    vscode.commands.registerCommand("s3x.emptyBucket", async (node) => {
+      await handleEmptyBucket(node);
+    }),
+    vscode.commands.registerCommand("s3x.editCors", async (node) => {
+      await handleEditCors(node);
+    }),
+    vscode.commands.registerCommand("s3x.deleteCors", async (node) => {
+      await handleDeleteCors(node);
+    }),
+    vscode.commands.registerCommand("s3x.editLifecycle", async (node) => {
+      await handleEditLifecycle(node);
+    }),
+    vscode.commands.registerCommand("s3x.editPolicy", async (node) => {
+      await handleEditPolicy(node);
+    }),
+    vscode.commands.registerCommand("s3x.bucketProperties", async (node) => {
+      await handleBucketProperties(node);
+    }),
     vscode.commands.registerCommand("s3x.createFolder", async (node) => {
       await handleCreateFolder(node);
     })
@@ -165,6 +569,33 @@ function registerCommands(context: vscode.ExtensionContext) {
     })
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand("s3x.sync", async (arg) => {
+      await handleSync(arg);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("s3x.pushToRemote", async (uri) => {
+      await handleMappedFolder("push", uri);
+    }),
+    vscode.commands.registerCommand("s3x.pullFromRemote", async (uri) => {
+      await handleMappedFolder("pull", uri);
+    }),
+    vscode.commands.registerCommand("s3x.compareWithRemote", async (uri) => {
+      await handleMappedFolder("compare", uri);
+    }),
+    vscode.commands.registerCommand("s3x.toggleAutoUpload", async (uri) => {
+      await toggleAutoUpload(uri);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("s3x.downloadZip", async (node, nodes) => {
+      await handleDownloadZip(node, nodes);
+    })
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand("s3x.rename", async (node) => {
       await handleRename(node);
@@ -178,15 +609,21 @@ function registerCommands(context: vscode.ExtensionContext) {
   );
 
   context.subscriptions.push(
-    vscode.commands.registerCommand("s3x.copy", async (node) => {
-      await handleCopy(node);
-    })
+    vscode.commands.registerCommand(
+      "s3x.copy",
+      async (node, nodes, target) => {
+        await handleTransfer("copy", node, nodes, target);
+      }
+    )
   );
 
   context.subscriptions.push(
-    vscode.commands.registerCommand("s3x.move", async (node) => {
-      await handleMove(node);
-    })
+    vscode.commands.registerCommand(
+      "s3x.move",
+      async (node, nodes, target) => {
+        await handleTransfer("move", node, nodes, target);
+      }
+    )
   );
 
   // Utility commands
@@ -205,6 +642,9 @@ function registerCommands(context: vscode.ExtensionContext) {
   context.subscriptions.push(
     vscode.commands.registerCommand("s3x.showMetadata", async (node) => {
       await handleShowMetadata(node);
+    }),
+    vscode.commands.registerCommand("s3x.editTags", async (node, nodes) => {
+      await handleEditTags(node, nodes);
     })
   );
 
@@ -216,6 +656,7 @@ function registerCommands(context: vscode.ExtensionContext) {
           bucket: node.bucket,
           key: node.key,
           uri: node.resourceUri,
+          connection: node.connection,
         });
       } else {
         await handlePreviewMedia(node);
@@ -224,16 +665,42 @@ function registerCommands(context: vscode.ExtensionContext) {
   );
 
   context.subscriptions.push(
+    vscode.commands.registerCommand("s3x.showVersions", async (node) => {
+      await handleShowVersions(node);
+    }),
+    vscode.commands.registerCommand("s3x.refreshVersions", () => {
+      versionsExplorer.refresh();
+    }),
+    vscode.commands.registerCommand("s3x.closeVersions", async () => {
+      await vscode.commands.executeCommand(
+        "setContext",
+        "s3x.showingVersions",
+        false
+      );
+    }),
+    vscode.commands.registerCommand("s3x.restoreVersion", async (node) => {
+      await handleRestoreVersion(node);
+    }),
+    vscode.commands.registerCommand("s3x.undelete", async (node) => {
+      await handleUndelete(node);
+    }),
+    vscode.commands.registerCommand(
+      "s3x.comparePrefixes",
+      async (node, nodes) => {
+        await handleComparePrefixes(node, nodes);
+      }
+    ),
+    vscode.commands.registerCommand("s3x.compareWith", async (node, nodes) => {
+      await handleCompareWith(node, nodes);
+    }),
     vscode.commands.registerCommand("s3x.openFile", async (node) => {
       await handleOpenFile(node);
     })
   );
 
   context.subscriptions.push(
-    vscode.commands.registerCommand("s3x.reauth", async () => {
-      clearClientCache();
-      await promptForConfigurationSetup();
-      s3Explorer.refresh();
+    vscode.commands.registerCommand("s3x.reauth", async (node) => {
+      await handleReauth(node);
     })
   );
 
@@ -254,7 +721,7 @@ function registerCommands(context: vscode.ExtensionContext) {
     vscode.commands.registerCommand("s3x.refreshAll", async () => {
       // Force complete refresh - clear all caches and reload from scratch
       console.log("Force refreshing all S3 data...");
-      s3Cache.invalidateAll();
+      invalidateAllCaches();
       clearClientCache();
       s3Explorer.refresh();
       showInformationMessage("S3/R2 Explorer refreshed completely");
@@ -263,184 +730,715 @@ function registerCommands(context: vscode.ExtensionContext) {
 }
 
 // Command handlers
-async function handleCreateFolder(node: any) {
+async function handleAddConnection() {
   try {
-    let bucket: string;
-    let prefix = "";
-
-    if (isBucketNode(node)) {
-      bucket = node.bucket;
-    } else if (isPrefixNode(node)) {
-      bucket = node.bucket;
-      prefix = node.prefix;
-    } else {
-      const selectedBucket = await promptForBucket();
-      if (!selectedBucket) {
-        return;
-      }
-      bucket = selectedBucket;
-    }
-
-    const folderName = await promptForFolderName();
-    if (!folderName) {
+    const result = await promptForNewConnection();
+    if (!result) {
       return;
     }
 
-    const folderKey = joinPath(prefix, folderName);
+    const { settings, credentials } = result;
 
-    await withProgress(
-      {
-        title: `Creating folder "${folderName}"`,
-        location: vscode.ProgressLocation.Notification,
-      },
-      async (progress) => {
-        progress.report({ message: "Creating folder..." });
-        await createFolder(bucket, folderKey);
-      }
-    );
+    // Store the secret first so the tree never sees the connection without it
+    if (credentials) {
+      await storeSecretAccessKey(settings.name, credentials.secretAccessKey);
+      await storeSessionToken(settings.name, credentials.sessionToken);
+    }
 
-    // Invalidate cache and refresh
-    s3Cache.invalidate(bucket, prefix);
-    s3Explorer.refresh(node);
+    await editConnections((connections) => [
+      ...connections,
+      credentials
+        ? { ...settings, accessKeyId: credentials.accessKeyId }
+        : settings,
+    ]);
 
-    showInformationMessage(`Folder "${folderName}" created successfully`);
+    s3Explorer.refresh();
+    showInformationMessage(`Connection "${settings.name}" added`);
   } catch (error) {
     showErrorMessage(
-      `Failed to create folder: ${
+      `Failed to add connection: ${
         error instanceof Error ? error.message : error
       }`
     );
   }
 }
 
-async function handleUploadFile(node: any) {
+async function handleReauth(node?: any) {
   try {
-    let bucket: string;
-    let prefix = "";
+    let connection: string | undefined;
 
-    if (isBucketNode(node)) {
-      bucket = node.bucket;
-    } else if (isPrefixNode(node)) {
-      bucket = node.bucket;
-      prefix = node.prefix;
+    if (typeof node === "string") {
+      connection = node;
+    } else if (node && isConnectionNode(node)) {
+      connection = node.connection;
     } else {
-      const selectedBucket = await promptForBucket();
-      if (!selectedBucket) {
+      const selected = await promptForConnection(
+        "Select connection to update credentials for"
+      );
+      if (!selected) {
         return;
       }
-      bucket = selectedBucket;
+      connection = selected.connection;
     }
 
-    const files = await showFilePicker({
-      title: "Select files to upload",
-    });
+    if (!usesSettingsCredentials(getConfig(connection))) {
+      // Env, profile and credential_process sources are managed outside VS Code
+      clearClientCache(connection);
+      getCache(connection).invalidateAll();
+      s3Explorer.refresh();
+      showInformationMessage(
+        "Credentials for this connection are loaded from outside VS Code and will be re-read on the next request"
+      );
+      return;
+    }
 
-    if (!files || files.length === 0) {
+    const credentials = await promptForCredentials(connection);
+    if (!credentials) {
       return;
     }
 
-    for (const file of files) {
-      const fileName = getFileName(file.fsPath);
-      const objectKey = joinPath(prefix, fileName);
+    await updateCredentials(connection, credentials);
+    getCache(connection).invalidateAll();
+    s3Explorer.refresh();
+    showInformationMessage("Credentials updated");
+  } catch (error) {
+    showErrorMessage(
+      `Failed to update credentials: ${
+        error instanceof Error ? error.message : error
+      }`
+    );
+  }
+}
 
-      await withUploadProgress(async (progress) => {
-        progress.report({ message: `Uploading ${fileName}...` });
-        await uploadFile(bucket, objectKey, file.fsPath, (progressPercent) => {
-          progress.setProgress(
-            progressPercent,
-            `Uploading ${fileName}... ${progressPercent}%`
-          );
-        });
-      }, fileName);
+async function handleRemoveConnection(node: any) {
+  try {
+    if (!isConnectionNode(node)) {
+      showErrorMessage("Can only remove connections");
+      return;
     }
 
-    // Invalidate cache and refresh
-    s3Cache.invalidate(bucket, prefix);
-    s3Explorer.refresh(node);
+    const confirmed = await promptForDestructiveConfirmation(
+      "Remove",
+      node.connection
+    );
+    if (!confirmed) {
+      return;
+    }
 
-    showInformationMessage(
-      `Uploaded ${files.length} file${files.length > 1 ? "s" : ""} successfully`
+    await editConnections(
+      (connections) => connections.filter((c) => c?.name !== node.connection),
+      getConnectionTarget(node.connection)
     );
+
+    await deleteSecrets(node.connection);
+    clearClientCache(node.connection);
+    getCache(node.connection).invalidateAll();
+    s3Explorer.refresh();
   } catch (error) {
     showErrorMessage(
-      `Failed to upload files: ${
+      `Failed to remove connection: ${
         error instanceof Error ? error.message : error
       }`
     );
   }
 }
 
-async function handleUploadFolder(node: any) {
+async function handleCreateBucket(node?: any) {
   try {
-    let bucket: string;
-    let prefix = "";
-
-    if (isBucketNode(node)) {
-      bucket = node.bucket;
-    } else if (isPrefixNode(node)) {
-      bucket = node.bucket;
-      prefix = node.prefix;
+    let connection: string | undefined;
+    if (isConnectionNode(node)) {
+      connection = node.connection;
     } else {
-      const selectedBucket = await promptForBucket();
-      if (!selectedBucket) {
+      const selected = await promptForConnection(
+        "Select connection for the new bucket"
+      );
+      if (!selected) {
         return;
       }
-      bucket = selectedBucket;
+      connection = selected.connection;
     }
 
-    const folders = await showFolderPicker({
-      title: "Select folder to upload",
-    });
+    const bucket = await promptForBucketName();
+    if (!bucket) {
+      return;
+    }
 
-    if (!folders || folders.length === 0) {
+    const region = await promptForBucketRegion(getConfig(connection).region);
+    if (region === undefined) {
       return;
     }
 
-    const folder = folders[0];
-    showInformationMessage(
-      "Folder upload functionality will be implemented with recursive file walking"
-    );
+    await createBucket(bucket, region || undefined, connection);
 
-    // TODO: Implement recursive folder upload
-    // This would involve:
-    // 1. Walking the directory tree
-    // 2. Reading all files
-    // 3. Uploading with proper key structure
-    // 4. Progress tracking for the entire operation
+    getCache(connection).invalidateAll();
+    s3Explorer.refresh();
+    showInformationMessage(`Created bucket "${bucket}"`);
   } catch (error) {
     showErrorMessage(
-      `Failed to upload folder: ${
+      `Failed to create bucket: ${
         error instanceof Error ? error.message : error
       }`
     );
   }
 }
 
-async function handleDownload(node: any) {
+async function handleDeleteBucket(node: any) {
   try {
-    if (!isObjectNode(node)) {
-      showErrorMessage("Can only download files");
+    if (!isBucketNode(node)) {
+      showErrorMessage("Can only delete buckets");
       return;
     }
 
-    const fileName = getFileName(node.key);
-    const saveLocation = await showSaveDialog(fileName);
-    if (!saveLocation) {
+    const mode = await promptForBucketDeleteMode(node.bucket);
+    if (!mode) {
       return;
     }
 
-    await withDownloadProgress(async (progress) => {
-      progress.report({ message: `Downloading ${fileName}...` });
-      await downloadFile(
-        node.bucket,
-        node.key,
-        saveLocation.fsPath,
-        (progressPercent) => {
+    const confirmed = await promptForDestructiveConfirmation(
+      mode === "empty" ? "Empty and delete" : "Delete",
+      node.bucket
+    );
+    if (!confirmed) {
+      return;
+    }
+
+    if (mode === "empty" && !(await runEmptyBucket(node))) {
+      return;
+    }
+
+    await deleteBucket(node.bucket, node.connection);
+
+    getCache(node.connection).invalidateAll();
+    s3Explorer.refresh();
+    showInformationMessage(`Deleted bucket "${node.bucket}"`);
+  } catch (error) {
+    showErrorMessage(
+      `Failed to delete bucket: ${
+        error instanceof Error ? error.message : error
+      }`
+    );
+  }
+}
+
+async function handleEmptyBucket(node: any) {
+  try {
+    if (!isBucketNode(node)) {
+      showErrorMessage("Can only empty buckets");
+      return;
+    }
+
+    const confirmed = await promptForDestructiveConfirmation(
+      "Empty",
+      node.bucket
+    );
+    if (confirmed && (await runEmptyBucket(node))) {
+      showInformationMessage(`Emptied bucket "${node.bucket}"`);
+    }
+  } catch (error) {
+    showErrorMessage(
+      `Failed to empty bucket: ${
+        error instanceof Error ? error.message : error
+      }`
+    );
+  }
+}
+
+/**
+ * Delete everything in a bucket. Resolves to false if anything was left
+ * behind, after reporting why.
+ */
+async function runEmptyBucket(node: BucketNode): Promise<boolean> {
+  let cancelled = false;
+  const result = await withProgress(
+    {
+      title: `Emptying ${node.bucket}`,
+      location: vscode.ProgressLocation.Notification,
+      cancellable: true,
+    },
+    (progress, token) =>
+      emptyBucket(
+        node.bucket,
+        node.connection,
+        (message, percentage) => progress.setProgress(percentage, message),
+        () => (cancelled = token.isCancellationRequested)
+      )
+  );
+
+  getCache(node.connection).invalidate(node.bucket);
+  s3Explorer.refresh();
+
+  if (cancelled) {
+    showInformationMessage(`Stopped emptying "${node.bucket}"`);
+    return false;
+  }
+
+  const summary = `Deleted ${result.deleted} object${
+    result.deleted === 1 ? "" : "s"
+  } and versions from "${node.bucket}".`;
+  if (result.errors.length > 0) {
+    showObjectErrors(summary, result.errors);
+    return false;
+  }
+
+  return true;
+}
+
+async function handleEditCors(node: any) {
+  try {
+    if (!isBucketNode(node)) {
+      showErrorMessage("Can only edit CORS configuration of buckets");
+      return;
+    }
+
+    await openBucketConfig(node.bucket, "cors.json", node.connection);
+  } catch (error) {
+    showErrorMessage(
+      `Failed to open CORS configuration: ${
+        error instanceof Error ? error.message : error
+      }`
+    );
+  }
+}
+
+// Open a bucket setting, noting once when it starts from a template
+async function openBucketConfig(
+  bucket: string,
+  name: string,
+  connection?: string
+) {
+  const uri = createBucketConfigUri(bucket, name, connection);
+  await vscode.window.showTextDocument(
+    await vscode.workspace.openTextDocument(uri)
+  );
+
+  const notice = configProvider.getTemplateNotice(uri);
+  if (notice) {
+    showInformationMessage(notice);
+  }
+}
+
+async function handleDeleteCors(node: any) {
+  try {
+    if (!isBucketNode(node)) {
+      showErrorMessage("Can only delete CORS configuration of buckets");
+      return;
+    }
+
+    const confirmed = await promptForConfirmation(
+      `Delete the CORS configuration of "${node.bucket}"? Browsers will no longer be able to make cross-origin requests to it.`,
+      "Delete",
+      "Cancel"
+    );
+    if (!confirmed) {
+      return;
+    }
+
+    await deleteBucketCors(node.bucket, node.connection);
+    showInformationMessage(`Deleted CORS configuration of "${node.bucket}"`);
+  } catch (error) {
+    showErrorMessage(
+      `Failed to delete CORS configuration: ${
+        error instanceof Error ? error.message : error
+      }`
+    );
+  }
+}
+
+async function handleEditLifecycle(node: any) {
+  try {
+    if (
+      !isBucketNode(node) &&
+      !isLifecycleNode(node) &&
+      !isLifecycleRuleNode(node)
+    ) {
+      showErrorMessage("Can only edit lifecycle rules of buckets");
+      return;
+    }
+
+    await openBucketConfig(node.bucket, "lifecycle.json", node.connection);
+  } catch (error) {
+    showErrorMessage(
+      `Failed to open lifecycle rules: ${
+        error instanceof Error ? error.message : error
+      }`
+    );
+  }
+}
+
+async function handleEditPolicy(node: any) {
+  try {
+    if (!isBucketNode(node)) {
+      showErrorMessage("Can only edit policies of buckets");
+      return;
+    }
+
+    await openBucketConfig(node.bucket, "policy.json", node.connection);
+  } catch (error) {
+    showErrorMessage(
+      `Failed to open bucket policy: ${
+        error instanceof Error ? error.message : error
+      }`
+    );
+  }
+}
+
+async function handleBucketProperties(node: any) {
+  try {
+    if (!isBucketNode(node)) {
+      showErrorMessage("Can only show properties of buckets");
+      return;
+    }
+
+    const editors = {
+      "cors.json": handleEditCors,
+      "lifecycle.json": handleEditLifecycle,
+      "policy.json": handleEditPolicy,
+    };
+
+    const load = async () => {
+      renderBucketProperties(panel, node.bucket);
+      try {
+        const properties = await getBucketProperties(
+          node.bucket,
+          node.connection
+        );
+        renderBucketProperties(panel, node.bucket, properties);
+      } catch (error) {
+        showErrorMessage(
+          `Failed to load bucket properties: ${
+            error instanceof Error ? error.message : error
+          }`
+        );
+      }
+    };
+
+    const panel = createBucketPropertiesPanel(`Properties: ${node.bucket}`, {
+      edit: (name) => editors[name](node),
+      showVersions: () =>
+        showVersionsView({
+          bucket: node.bucket,
+          key: "",
+          connection: node.connection,
+        }),
+      refresh: load,
+    });
+
+    await load();
+  } catch (error) {
+    showErrorMessage(
+      `Failed to show bucket properties: ${
+        error instanceof Error ? error.message : error
+      }`
+    );
+  }
+}
+
+async function handleCreateFolder(node: any) {
+  try {
+    let bucket: string;
+    let prefix = "";
+    let connection: string | undefined;
+
+    if (isBucketNode(node)) {
+      bucket = node.bucket;
+      connection = node.connection;
+    } else if (isPrefixNode(node)) {
+      bucket = node.bucket;
+      prefix = node.prefix;
+      connection = node.connection;
+    } else {
+      const selectedConnection = await promptForConnection();
+      if (!selectedConnection) {
+        return;
+      }
+      connection = selectedConnection.connection;
+
+      const selectedBucket = await promptForBucket(undefined, connection);
+      if (!selectedBucket) {
+        return;
+      }
+      bucket = selectedBucket;
+    }
+
+    const folderName = await promptForFolderName();
+    if (!folderName) {
+      return;
+    }
+
+    const folderKey = joinPath(prefix, folderName);
+
+    await withProgress(
+      {
+        title: `Creating folder "${folderName}"`,
+        location: vscode.ProgressLocation.Notification,
+      },
+      async (progress) => {
+        progress.report({ message: "Creating folder..." });
+        await createFolder(bucket, folderKey, connection);
+      }
+    );
+
+    // Invalidate cache and refresh
+    getCache(connection).invalidate(bucket, prefix);
+    s3Explorer.refresh(node);
+
+    showInformationMessage(`Folder "${folderName}" created successfully`);
+  } catch (error) {
+    showErrorMessage(
+      `Failed to create folder: ${
+        error instanceof Error ? error.message : error
+      }`
+    );
+  }
+}
+
+async function handleUploadFile(node: any) {
+  try {
+    let bucket: string;
+    let prefix = "";
+    let connection: string | undefined;
+
+    if (isBucketNode(node)) {
+      bucket = node.bucket;
+      connection = node.connection;
+    } else if (isPrefixNode(node)) {
+      bucket = node.bucket;
+      prefix = node.prefix;
+      connection = node.connection;
+    } else {
+      const selectedConnection = await promptForConnection();
+      if (!selectedConnection) {
+        return;
+      }
+      connection = selectedConnection.connection;
+
+      const selectedBucket = await promptForBucket(undefined, connection);
+      if (!selectedBucket) {
+        return;
+      }
+      bucket = selectedBucket;
+    }
+
+    const files = await showFilePicker({
+      title: "Select files to upload",
+    });
+
+    if (!files || files.length === 0) {
+      return;
+    }
+
+    for (const file of files) {
+      const fileName = getFileName(file.fsPath);
+      const objectKey = joinPath(prefix, fileName);
+
+      await withUploadProgress(async (progress) => {
+        progress.report({ message: `Uploading ${fileName}...` });
+        await uploadFile(
+          bucket,
+          objectKey,
+          file.fsPath,
+          (progressPercent) => {
+            progress.setProgress(
+              progressPercent,
+              `Uploading ${fileName}... ${progressPercent}%`
+            );
+          },
+          connection
+        );
+      }, fileName);
+    }
+
+    // Invalidate cache and refresh
+    getCache(connection).invalidate(bucket, prefix);
+    s3Explorer.refresh(node);
+
+    showInformationMessage(
+      `Uploaded ${files.length} file${files.length > 1 ? "s" : ""} successfully`
+    );
+  } catch (error) {
+    showErrorMessage(
+      `Failed to upload files: ${
+        error instanceof Error ? error.message : error
+      }`
+    );
+  }
+}
+
+async function handleUploadFolder(node: any) {
+  try {
+    let bucket: string;
+    let prefix = "";
+    let connection: string | undefined;
+
+    if (isBucketNode(node)) {
+      bucket = node.bucket;
+      connection = node.connection;
+    } else if (isPrefixNode(node)) {
+      bucket = node.bucket;
+      prefix = node.prefix;
+      connection = node.connection;
+    } else {
+      const selectedConnection = await promptForConnection();
+      if (!selectedConnection) {
+        return;
+      }
+      connection = selectedConnection.connection;
+
+      const selectedBucket = await promptForBucket(undefined, connection);
+      if (!selectedBucket) {
+        return;
+      }
+      bucket = selectedBucket;
+    }
+
+    const folders = await showFolderPicker({
+      title: "Select folder to upload",
+    });
+
+    if (!folders || folders.length === 0) {
+      return;
+    }
+
+    const path = await import("path");
+    const folder = folders[0];
+    const folderName = path.basename(folder.fsPath);
+    const targetPrefix = ensureTrailingSlash(joinPath(prefix, folderName));
+
+    const isIgnored = await loadIgnoreMatcher(
+      folder.fsPath,
+      getUploadExcludes()
+    );
+    const files = await walkLocalFolder(folder.fsPath, isIgnored);
+    if (files.length === 0) {
+      showInformationMessage(`No files to upload in "${folderName}"`);
+      return;
+    }
+
+    const existing = new Map(
+      (await listObjectsRecursive(bucket, targetPrefix, connection)).map(
+        (object) => [object.key, object]
+      )
+    );
+    const conflicts = files.filter((file) =>
+      existing.has(joinPath(targetPrefix, file.relativePath))
+    ).length;
+
+    let policy: UploadConflictPolicy = "overwrite";
+    if (conflicts > 0) {
+      const selected = await promptForConflictPolicy(conflicts);
+      if (!selected) {
+        return;
+      }
+      policy = selected;
+    }
+
+    let uploaded = 0;
+    let skipped = 0;
+    const errors: ObjectOperationError[] = [];
+
+    try {
+      await withProgressBatch(
+        {
+          title: `Uploading ${folderName}`,
+          location: vscode.ProgressLocation.Notification,
+          cancellable: true,
+        },
+        files,
+        async (file, index, progress) => {
+          const key = joinPath(targetPrefix, file.relativePath);
+          const remote = existing.get(key);
+
+          progress.setProgress(
+            Math.round(((index + 1) / files.length) * 100),
+            `${index + 1} of ${files.length}: ${file.relativePath}`
+          );
+
+          try {
+            if (
+              remote &&
+              (policy === "skipExisting" ||
+                (policy === "skipUnchanged" &&
+                  (await isUnchanged(file, remote, "upload", () =>
+                    computeFileMd5(file.path)
+                  ))))
+            ) {
+              skipped++;
+              return;
+            }
+
+            await uploadFile(bucket, key, file.path, undefined, connection);
+            uploaded++;
+          } catch (error) {
+            errors.push({
+              key,
+              message: error instanceof Error ? error.message : String(error),
+            });
+          }
+        }
+      );
+    } catch (error) {
+      // Cancelling stops before the next file; report what was done
+      const cancelled =
+        error instanceof Error && error.message === "Operation cancelled";
+      if (!cancelled) {
+        throw error;
+      }
+      showInformationMessage(
+        `Folder upload cancelled after ${uploaded} of ${files.length} files`
+      );
+    }
+
+    getCache(connection).invalidateKey(bucket, targetPrefix);
+    s3Explorer.refresh(node);
+
+    const summary = `Uploaded ${uploaded} file${uploaded === 1 ? "" : "s"}${
+      skipped > 0 ? `, skipped ${skipped}` : ""
+    }.`;
+    if (errors.length > 0) {
+      showObjectErrors(summary, errors);
+    } else {
+      showInformationMessage(summary);
+    }
+  } catch (error) {
+    showErrorMessage(
+      `Failed to upload folder: ${
+        error instanceof Error ? error.message : error
+      }`
+    );
+  }
+}
+
+async function handleDownload(node: any) {
+  try {
+    if (isPrefixNode(node) || isBucketNode(node)) {
+      await handleDownloadPrefix(node);
+      return;
+    }
+
+    if (!isObjectNode(node)) {
+      showErrorMessage("Can only download files and folders");
+      return;
+    }
+
+    const fileName = getFileName(node.key);
+    const saveLocation = await showSaveDialog(fileName);
+    if (!saveLocation) {
+      return;
+    }
+
+    await withDownloadProgress(async (progress) => {
+      progress.report({ message: `Downloading ${fileName}...` });
+      await downloadFile(
+        node.bucket,
+        node.key,
+        saveLocation.fsPath,
+        (progressPercent) => {
           progress.setProgress(
             progressPercent,
             `Downloading ${fileName}... ${progressPercent}%`
           );
-        }
+        },
+        node.connection
       );
     }, fileName);
 
@@ -454,60 +1452,972 @@ async function handleDownload(node: any) {
   }
 }
 
-async function handleDelete(node: any) {
+async function handleDownloadPrefix(node: any) {
+  const fs = await import("fs");
+  const path = await import("path");
+  const bucket: string = node.bucket;
+  const prefix: string = isPrefixNode(node) ? node.prefix : "";
+  const connection: string | undefined = node.connection;
+  const folderName = prefix ? getFileName(removeTrailingSlash(prefix)) : bucket;
+
+  const folders = await showFolderPicker({
+    title: `Select where to download "${folderName}"`,
+  });
+  if (!folders || folders.length === 0) {
+    return;
+  }
+  const root = path.join(folders[0].fsPath, folderName);
+
+  const objects = await withListingProgress(
+    () => listObjectsRecursive(bucket, prefix || undefined, connection),
+    folderName
+  );
+
+  if (objects.length === 0) {
+    showInformationMessage(`"${folderName}" is empty`);
+    return;
+  }
+  await fs.promises.mkdir(root, { recursive: true });
+
+  let downloaded = 0;
+  let skipped = 0;
+  const errors: ObjectOperationError[] = [];
+
+  await withDownloadProgress(async (progress, token) => {
+    let finished = 0;
+
+    await mapWithConcurrency(
+      objects,
+      PREFIX_DOWNLOAD_CONCURRENCY,
+      async (object) => {
+        if (token.isCancellationRequested) {
+          return;
+        }
+
+        // The prefix's own folder marker maps to the root folder
+        const relativeKey = getRelativePath(object.key, prefix);
+        const localPath = relativeKey
+          ? keyToLocalPath(root, relativeKey)
+          : root;
+
+        try {
+          if (!localPath) {
+            throw new Error("Key cannot be mapped to a local path");
+          }
+
+          if (object.key.endsWith("/")) {
+            await fs.promises.mkdir(localPath, { recursive: true });
+            return;
+          }
+
+          const stat = await fs.promises.stat(localPath).catch(() => undefined);
+          if (
+            stat?.isFile() &&
+            (await isUnchanged(
+              { size: stat.size, modified: stat.mtimeMs },
+              object,
+              "download",
+              () => computeFileMd5(localPath)
+            ))
+          ) {
+            skipped++;
+            return;
+          }
+
+          await fs.promises.mkdir(path.dirname(localPath), {
+            recursive: true,
+          });
+          await downloadFile(
+            bucket,
+            object.key,
+            localPath,
+            undefined,
+            connection
+          );
+
+          // Match the object's time so unchanged files are skipped next time
+          const { lastModified } = object;
+          if (lastModified) {
+            await trackLocalWrite([localPath], () =>
+              fs.promises.utimes(localPath, lastModified, lastModified)
+            );
+          }
+          downloaded++;
+        } catch (error) {
+          errors.push({
+            key: object.key,
+            message: error instanceof Error ? error.message : String(error),
+          });
+        } finally {
+          finished++;
+          progress.setProgress(
+            Math.round((finished / objects.length) * 100),
+            `${finished} of ${objects.length}: ${getFileName(object.key)}`
+          );
+        }
+      }
+    );
+
+    if (token.isCancellationRequested) {
+      showInformationMessage(
+        `Download of "${folderName}" cancelled after ${downloaded} files`
+      );
+    }
+  }, folderName);
+
+  const summary = `Downloaded ${downloaded} file${
+    downloaded === 1 ? "" : "s"
+  } to ${root}${skipped > 0 ? `, skipped ${skipped} unchanged` : ""}.`;
+  if (errors.length > 0) {
+    showObjectErrors(summary, errors);
+  } else {
+    showInformationMessage(summary);
+  }
+}
+
+async function handleDownloadZip(node: any, nodes?: any[]) {
+  try {
+    const sources = (nodes && nodes.length > 0 ? nodes : [node]).filter(
+      (n: any) => isObjectNode(n) || isPrefixNode(n)
+    );
+    if (sources.length === 0) {
+      showErrorMessage("Select files or folders to download as a zip");
+      return;
+    }
+
+    const { bucket, connection } = sources[0];
+    if (
+      sources.some(
+        (n: any) => n.bucket !== bucket || n.connection !== connection
+      )
+    ) {
+      showErrorMessage("Can only zip items from a single bucket");
+      return;
+    }
+
+    // Expand folders and drop duplicates and folder markers
+    const objects = await withListingProgress(async () => {
+      const found = new Map<string, S3Object>();
+      for (const source of sources) {
+        const listed = isPrefixNode(source)
+          ? await listObjectsRecursive(bucket, source.prefix, connection)
+          : [
+              {
+                key: source.key,
+                size: source.size,
+                lastModified: source.lastModified,
+              },
+            ];
+        listed.forEach((object) => found.set(object.key, object));
+      }
+
+      return withoutFolderMarkers(bucket, [...found.values()], connection);
+    }, bucket);
+
+    if (objects.length === 0) {
+      showInformationMessage("There are no files to zip");
+      return;
+    }
+
+    const totalSize = objects.reduce((sum, obj) => sum + (obj.size || 0), 0);
+    const commonPrefix = getCommonPrefix(objects.map((obj) => obj.key));
+    const options = await promptForZipOptions(
+      objects.length,
+      totalSize,
+      commonPrefix
+    );
+    if (!options) {
+      return;
+    }
+
+    const zipName =
+      sources.length === 1 && isPrefixNode(sources[0])
+        ? getFileName(removeTrailingSlash(sources[0].prefix))
+        : bucket;
+    const saveLocation = await showSaveDialog(`${zipName}.zip`, {
+      "Zip archives": ["zip"],
+    });
+    if (!saveLocation) {
+      return;
+    }
+
+    const entries = objects.map((object) => ({
+      key: object.key,
+      name: options.stripPrefix
+        ? getRelativePath(object.key, commonPrefix)
+        : object.key,
+      size: object.size,
+      lastModified: object.lastModified,
+    }));
+
+    await withDownloadProgress(async (progress, token) => {
+      let received = 0;
+      await downloadAsZip(
+        bucket,
+        entries,
+        saveLocation.fsPath,
+        connection,
+        (bytes) => {
+          received += bytes;
+          const percent = totalSize
+            ? Math.floor((received / totalSize) * 100)
+            : 0;
+          progress.setProgress(
+            percent,
+            `${formatFileSize(received)} of ${formatFileSize(totalSize)}`
+          );
+        },
+        () => token.isCancellationRequested
+      );
+    }, `${zipName}.zip`);
+
+    showInformationMessage(
+      `Saved ${objects.length} file${
+        objects.length === 1 ? "" : "s"
+      } to "${getFileName(saveLocation.path)}"`
+    );
+  } catch (error) {
+    if (error instanceof Error && error.message === "Operation cancelled") {
+      showInformationMessage("Zip download cancelled");
+      return;
+    }
+    showErrorMessage(
+      `Failed to download as zip: ${
+        error instanceof Error ? error.message : error
+      }`
+    );
+  }
+}
+
+async function handleSync(arg?: any) {
+  try {
+    let localRoot: string | undefined;
+    let bucket: string | undefined;
+    let prefix = "";
+    let connection: string | undefined;
+
+    if (arg instanceof vscode.Uri) {
+      localRoot = arg.fsPath;
+    } else if (isBucketNode(arg) || isPrefixNode(arg)) {
+      bucket = arg.bucket;
+      prefix = isPrefixNode(arg) ? arg.prefix : "";
+      connection = arg.connection;
+    }
+
+    if (!localRoot) {
+      const folders = await showFolderPicker({
+        title: "Select the local folder to sync",
+        defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+      });
+      if (!folders || folders.length === 0) {
+        return;
+      }
+      localRoot = folders[0].fsPath;
+    }
+
+    if (!bucket) {
+      const selectedConnection = await promptForConnection();
+      if (!selectedConnection) {
+        return;
+      }
+      connection = selectedConnection.connection;
+
+      const selectedBucket = await promptForBucket(undefined, connection);
+      if (!selectedBucket) {
+        return;
+      }
+      bucket = selectedBucket;
+
+      const selectedPrefix = await promptForTargetPrefix(bucket);
+      if (selectedPrefix === undefined) {
+        return;
+      }
+      prefix = selectedPrefix;
+    }
+
+    const options = await promptForSyncOptions();
+    if (!options) {
+      return;
+    }
+
+    await runSync({ localRoot, bucket, prefix, connection }, options);
+  } catch (error) {
+    showErrorMessage(
+      `Failed to sync: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+/**
+ * Plan a sync, show the dry run and apply it once confirmed
+ */
+async function runSync(target: SyncTarget, options: SyncOptions) {
+  const remoteRoot = `${target.bucket}/${target.prefix}`;
+  const isIgnored = await loadIgnoreMatcher(
+    target.localRoot,
+    getUploadExcludes()
+  );
+
+  const plan = await withListingProgress(
+    () => buildSyncPlan(target, options, isIgnored),
+    target.bucket
+  );
+  const changes = countSyncChanges(plan);
+  if (changes === 0) {
+    showInformationMessage(`${remoteRoot} is already in sync`);
+    return;
+  }
+
+  const document = await vscode.workspace.openTextDocument({
+    content: formatSyncPlan(plan, target.localRoot, remoteRoot),
+    language: "plaintext",
+  });
+  await vscode.window.showTextDocument(document, { preview: true });
+
+  const deletions = plan.deleteRemote.length + plan.deleteLocal.length;
+  const confirmed = await promptForConfirmation(
+    `Apply ${changes} change${changes === 1 ? "" : "s"}${
+      deletions > 0 ? `, including ${deletions} deletion(s)` : ""
+    }?`,
+    "Apply",
+    "Cancel"
+  );
+  if (!confirmed) {
+    return;
+  }
+
+  const result = await withProgress(
+    {
+      title: `Syncing ${remoteRoot}`,
+      location: vscode.ProgressLocation.Notification,
+      cancellable: true,
+    },
+    (progress, token) =>
+      applySyncPlan(
+        target,
+        plan,
+        (done, total) =>
+          progress.setProgress(
+            Math.round((done / total) * 100),
+            `${done} of ${total}`
+          ),
+        () => token.isCancellationRequested
+      )
+  );
+
+  getCache(target.connection).invalidateKey(target.bucket, target.prefix);
+  s3Explorer.refresh();
+
+  const summary = `Synced ${result.completed} of ${changes} change${
+    changes === 1 ? "" : "s"
+  }.`;
+  if (result.errors.length > 0) {
+    showObjectErrors(summary, result.errors);
+  } else {
+    showInformationMessage(summary);
+  }
+}
+
+async function handleMappedFolder(
+  action: "push" | "pull" | "compare",
+  uri?: vscode.Uri
+) {
+  try {
+    const mapping = uri
+      ? findMapping(uri.fsPath)
+      : await promptForMapping(getMappings());
+    if (!mapping) {
+      if (uri || getMappings().length === 0) {
+        showErrorMessage(
+          `No remote folder is linked${
+            uri ? ` to ${uri.fsPath}` : ""
+          }. Add one to ${MAPPINGS_FILE}.`
+        );
+      }
+      return;
+    }
+
+    const target: SyncTarget = {
+      localRoot: mapping.localPath,
+      bucket: mapping.bucket,
+      prefix: mapping.prefix,
+      connection: mapping.connection,
+    };
+
+    if (action === "compare") {
+      await compareWithRemote(target);
+    } else {
+      await runSync(target, { direction: action, mirror: false });
+    }
+  } catch (error) {
+    showErrorMessage(
+      `Failed to ${action} ${uri ? getFileName(uri.path) : "folder"}: ${
+        error instanceof Error ? error.message : error
+      }`
+    );
+  }
+}
+
+async function compareWithRemote(target: SyncTarget) {
+  const remoteRoot = `${target.bucket}/${target.prefix}`;
+  const isIgnored = await loadIgnoreMatcher(
+    target.localRoot,
+    getUploadExcludes()
+  );
+
+  // A mirroring push lists every difference in both directions
+  const plan = await withListingProgress(
+    () =>
+      buildSyncPlan(target, { direction: "push", mirror: true }, isIgnored),
+    target.bucket
+  );
+
+  const document = await vscode.workspace.openTextDocument({
+    content: formatSyncComparison(plan, target.localRoot, remoteRoot),
+    language: "plaintext",
+  });
+  await vscode.window.showTextDocument(document, { preview: true });
+}
+
+async function handleComparePrefixes(node: any, nodes?: any[]) {
+  try {
+    if (!isBucketNode(node) && !isPrefixNode(node)) {
+      showErrorMessage("Can only compare buckets and folders");
+      return;
+    }
+
+    // With two folders selected, compare them directly
+    const selected = (nodes || []).filter(
+      (n: any) => isBucketNode(n) || isPrefixNode(n)
+    );
+    if (selected.length === 2) {
+      await showDriftReport(
+        toPrefixLocation(selected[0]),
+        toPrefixLocation(selected[1])
+      );
+      return;
+    }
+
+    const left = toPrefixLocation(node);
+
+    const picked = await promptForConnection("Select connection to compare");
+    if (!picked) {
+      return;
+    }
+
+    const bucket = await promptForBucket(
+      "Select bucket to compare",
+      picked.connection
+    );
+    if (!bucket) {
+      return;
+    }
+
+    const prefix = await promptForTargetPrefix(bucket, left.prefix);
+    if (prefix === undefined) {
+      return;
+    }
+
+    await showDriftReport(left, {
+      bucket,
+      prefix,
+      connection: picked.connection,
+    });
+  } catch (error) {
+    showErrorMessage(
+      `Failed to compare: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+function toPrefixLocation(node: any): PrefixLocation {
+  return {
+    bucket: node.bucket,
+    prefix: isPrefixNode(node) ? node.prefix : "",
+    connection: node.connection,
+  };
+}
+
+/**
+ * List both sides and open the report. Copies from the report refresh it
+ * afterwards.
+ */
+async function showDriftReport(left: PrefixLocation, right: PrefixLocation) {
+  let report = await withListingProgress(
+    () => buildDriftReport(left, right),
+    left.bucket
+  );
+
+  const refresh = async () => {
+    report = await withListingProgress(
+      () => buildDriftReport(left, right),
+      left.bucket
+    );
+    renderDriftReport(panel, report);
+  };
+
+  const toUri = (location: PrefixLocation, relativePath: string) =>
+    vscode.Uri.parse(
+      createS3xUri(
+        location.bucket,
+        joinPath(location.prefix, relativePath),
+        location.connection
+      )
+    );
+
+  const panel = createDriftReportPanel(
+    `Drift: ${getFileName(removeTrailingSlash(left.prefix)) || left.bucket}`,
+    {
+      refresh,
+      copy: async (paths, to) => {
+        await copyFromDriftReport(report, paths, to);
+        await refresh();
+      },
+      diff: async (relativePath) => {
+        await openDiff(toUri(left, relativePath), toUri(right, relativePath));
+      },
+      exportCsv: async () => {
+        const uri = await showSaveDialog("drift-report.csv", {
+          CSV: ["csv"],
+        });
+        if (uri) {
+          await vscode.workspace.fs.writeFile(
+            uri,
+            new TextEncoder().encode(formatDriftCsv(report))
+          );
+          showInformationMessage(`Report saved to ${uri.fsPath}`);
+        }
+      },
+    }
+  );
+
+  renderDriftReport(panel, report);
+}
+
+async function copyFromDriftReport(
+  report: DriftReport,
+  paths: string[],
+  to: "left" | "right"
+) {
+  const entries = report.entries.filter((entry) =>
+    paths.includes(entry.relativePath)
+  );
+  if (entries.length === 0) {
+    return;
+  }
+
+  const target = to === "right" ? report.right : report.left;
+  const overwrites = entries.filter((entry) => entry.status === "different");
+  if (overwrites.length > 0) {
+    const confirmed = await promptForConfirmation(
+      `Overwrite ${
+        overwrites.length === 1
+          ? `"${overwrites[0].relativePath}"`
+          : `${overwrites.length} objects`
+      } in ${formatPrefixLocation(target)}?`,
+      "Overwrite",
+      "Cancel"
+    );
+    if (!confirmed) {
+      return;
+    }
+  }
+
+  const result = await withProgress(
+    {
+      title: `Copying to ${formatPrefixLocation(target)}`,
+      location: vscode.ProgressLocation.Notification,
+      cancellable: true,
+    },
+    (progress, token) =>
+      copyDriftEntries(
+        report,
+        entries,
+        to,
+        (done, total) =>
+          progress.setProgress(
+            Math.round((done / total) * 100),
+            `${done} of ${total}`
+          ),
+        () => token.isCancellationRequested
+      )
+  );
+
+  getCache(target.connection).invalidateKey(target.bucket, target.prefix);
+  s3Explorer.refresh();
+
+  const summary = `Copied ${result.completed} of ${entries.length} object${
+    entries.length === 1 ? "" : "s"
+  }.`;
+  if (result.errors.length > 0) {
+    showObjectErrors(summary, result.errors);
+  } else {
+    showInformationMessage(summary);
+  }
+}
+
+async function handleDelete(node: any) {
+  try {
+    if (isObjectNode(node)) {
+      const confirmed = await promptForDestructiveConfirmation(
+        "Delete",
+        getFileName(node.key)
+      );
+      if (!confirmed) {
+        return;
+      }
+
+      await withDeleteProgress(async (progress) => {
+        progress.report({ message: "Deleting object..." });
+        await deleteObject(node.bucket, node.key, node.connection);
+      }, 1);
+
+      getCache(node.connection).invalidate(node.bucket);
+      s3Explorer.refresh();
+
+      showInformationMessage("Object deleted successfully");
+    } else if (isPrefixNode(node)) {
+      await handleDeletePrefix(node);
+    }
+  } catch (error) {
+    showErrorMessage(
+      `Failed to delete: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+async function handleDeletePrefix(node: any) {
+  // Dry run: list everything first so the confirmation shows what will go
+  const objects = await withListingProgress(
+    () => listObjectsRecursive(node.bucket, node.prefix, node.connection),
+    node.bucket
+  );
+
+  if (objects.length === 0) {
+    showInformationMessage(`Folder "${node.prefix}" is already empty`);
+    s3Explorer.refresh();
+    return;
+  }
+
+  const totalSize = objects.reduce((sum, obj) => sum + (obj.size || 0), 0);
+  const confirmed = await promptForConfirmation(
+    `Delete "${node.prefix}" and everything in it? This deletes ${
+      objects.length
+    } object${objects.length === 1 ? "" : "s"} (${formatFileSize(
+      totalSize
+    )}). This action cannot be undone.`,
+    "Delete",
+    "Cancel"
+  );
+  if (!confirmed) {
+    return;
+  }
+
+  const result = await withDeleteProgress(async (progress) => {
+    return deleteObjects(
+      node.bucket,
+      objects.map((obj) => obj.key),
+      node.connection,
+      (processed, total) => {
+        progress.setProgress(
+          Math.round((processed / total) * 100),
+          `Deleted ${processed} of ${total} objects`
+        );
+      }
+    );
+  }, objects.length);
+
+  getCache(node.connection).invalidate(node.bucket);
+  s3Explorer.refresh();
+
+  if (result.errors.length > 0) {
+    showObjectErrors(
+      `Deleted ${result.deleted.length} of ${objects.length} objects.`,
+      result.errors
+    );
+    return;
+  }
+
+  showInformationMessage(
+    `Deleted ${result.deleted.length} object${
+      result.deleted.length === 1 ? "" : "s"
+    } from "${node.prefix}"`
+  );
+}
+
+function showObjectErrors(summary: string, errors: ObjectOperationError[]) {
+  errors.forEach((error) => console.error(`${error.key}: ${error.message}`));
+
+  const shown = errors
+    .slice(0, 5)
+    .map((error) => `${error.key}: ${error.message}`)
+    .join("; ");
+  const more = errors.length > 5 ? ` and ${errors.length - 5} more` : "";
+
+  showErrorMessage(`${summary} ${errors.length} failed: ${shown}${more}`);
+}
+
+interface TransferPlan {
+  sourceBucket: string;
+  sourceKey: string;
+  targetBucket: string;
+  targetKey: string;
+  sourceSize?: number;
+}
+
+async function handleTransfer(
+  mode: "copy" | "move",
+  node: any,
+  nodes?: any[],
+  target?: any
+) {
   try {
-    if (isObjectNode(node)) {
-      const confirmed = await promptForDestructiveConfirmation(
-        "Delete",
-        getFileName(node.key)
+    const sources = (nodes && nodes.length > 0 ? nodes : [node]).filter(
+      (n: any) => isObjectNode(n) || isPrefixNode(n)
+    );
+    if (sources.length === 0) {
+      showErrorMessage(`Can only ${mode} objects and folders`);
+      return;
+    }
+
+    // Server-side copies only work within one endpoint
+    const connection: string | undefined = sources[0].connection;
+    if (
+      sources.some((source: any) => source.connection !== connection) ||
+      (target && target.connection !== connection)
+    ) {
+      showErrorMessage(`Cannot ${mode} between connections`);
+      return;
+    }
+
+    const firstKey = getNodeKey(sources[0]);
+    let targetBucket: string | undefined;
+    let targetPrefix: string | undefined;
+
+    if (target && (isBucketNode(target) || isPrefixNode(target))) {
+      targetBucket = target.bucket;
+      targetPrefix = isPrefixNode(target) ? target.prefix : "";
+    } else {
+      targetBucket = await promptForBucket(
+        `Select bucket to ${mode} to`,
+        connection
       );
-      if (!confirmed) {
+      if (!targetBucket) {
         return;
       }
 
-      await withDeleteProgress(async (progress) => {
-        progress.report({ message: "Deleting object..." });
-        await deleteObject(node.bucket, node.key);
-      }, 1);
+      targetPrefix = await promptForTargetPrefix(
+        targetBucket,
+        targetBucket === sources[0].bucket ? getParentPrefix(firstKey) : ""
+      );
+    }
 
-      s3Cache.invalidate(node.bucket);
-      s3Explorer.refresh();
+    if (targetBucket === undefined || targetPrefix === undefined) {
+      return;
+    }
 
-      showInformationMessage("Object deleted successfully");
-    } else if (isPrefixNode(node)) {
-      const confirmed = await promptForDestructiveConfirmation(
-        "Delete",
-        node.prefix
-      );
-      if (!confirmed) {
+    // Resolve key collisions against what is already at the target
+    const existingKeys = await listChildKeys(
+      targetBucket,
+      targetPrefix,
+      connection
+    );
+    const plans: TransferPlan[] = [];
+
+    for (const source of sources) {
+      const sourceKey = getNodeKey(source);
+
+      if (
+        isPrefixNode(source) &&
+        targetBucket === source.bucket &&
+        targetPrefix.startsWith(sourceKey)
+      ) {
+        showErrorMessage(`Cannot ${mode} "${sourceKey}" into itself`);
         return;
       }
 
-      showInformationMessage(
-        "Folder deletion functionality will be implemented with recursive deletion"
-      );
-      // TODO: Implement recursive folder deletion
+      const name = getFileName(removeTrailingSlash(sourceKey));
+      const targetKey =
+        targetPrefix + name + (isPrefixNode(source) ? "/" : "");
+
+      if (
+        mode === "move" &&
+        targetBucket === source.bucket &&
+        targetKey === sourceKey
+      ) {
+        continue; // Already there
+      }
+
+      const uniqueKey = generateUniqueKey(targetKey, existingKeys);
+      existingKeys.push(uniqueKey);
+      plans.push({
+        sourceBucket: source.bucket,
+        sourceKey,
+        targetBucket,
+        targetKey: uniqueKey,
+        sourceSize: isObjectNode(source) ? source.size : undefined,
+      });
+    }
+
+    if (plans.length === 0) {
+      showInformationMessage(`Nothing to ${mode}`);
+      return;
     }
+
+    await runTransfer(mode, plans, connection);
   } catch (error) {
     showErrorMessage(
-      `Failed to delete: ${error instanceof Error ? error.message : error}`
+      `Failed to ${mode}: ${error instanceof Error ? error.message : error}`
     );
   }
 }
 
-async function handleCopy(node: any) {
-  showInformationMessage("Copy functionality will be implemented");
-  // TODO: Implement copy with target selection
-}
+async function runTransfer(
+  mode: "copy" | "move",
+  plans: TransferPlan[],
+  connection?: string
+) {
+  const withTransferProgress =
+    mode === "copy" ? withCopyProgress : withMoveProgress;
+  const verb = mode === "copy" ? "Copying" : "Moving";
+
+  const result = await withTransferProgress(async (progress) => {
+    const combined: TransferResult = { transferred: [], errors: [] };
+
+    for (let i = 0; i < plans.length; i++) {
+      const plan = plans[i];
+      const name = getFileName(removeTrailingSlash(plan.sourceKey));
+      progress.setProgress(
+        Math.round((i / plans.length) * 100),
+        `${verb} ${name}`
+      );
+
+      if (plan.sourceKey.endsWith("/")) {
+        const prefixResult = await (mode === "copy" ? copyPrefix : movePrefix)(
+          plan.sourceBucket,
+          plan.sourceKey,
+          plan.targetBucket,
+          plan.targetKey,
+          connection,
+          (processed, total) =>
+            progress.report({
+              message: `${verb} ${name} (${processed} of ${total})`,
+            })
+        );
+        combined.transferred.push(...prefixResult.transferred);
+        combined.errors.push(...prefixResult.errors);
+        continue;
+      }
+
+      try {
+        await (mode === "copy" ? copyObject : moveObject)(
+          plan.sourceBucket,
+          plan.sourceKey,
+          plan.targetBucket,
+          plan.targetKey,
+          connection,
+          plan.sourceSize,
+          (percentage) =>
+            progress.report({ message: `${verb} ${name} (${percentage}%)` })
+        );
+        combined.transferred.push(plan.sourceKey);
+      } catch (error: any) {
+        combined.errors.push({
+          key: plan.sourceKey,
+          code: error.code,
+          message: error.message,
+        });
+      }
+    }
+
+    return combined;
+  }, plans.length);
+
+  // Only the listings around the source and target keys change
+  const cache = getCache(connection);
+  for (const plan of plans) {
+    cache.invalidateKey(plan.targetBucket, plan.targetKey);
+    if (mode === "move") {
+      cache.invalidateKey(plan.sourceBucket, plan.sourceKey);
+    }
+  }
+  s3Explorer.refresh();
+
+  const done = mode === "copy" ? "Copied" : "Moved";
+  if (result.errors.length > 0) {
+    showObjectErrors(
+      `${done} ${result.transferred.length} object${
+        result.transferred.length === 1 ? "" : "s"
+      }.`,
+      result.errors
+    );
+    return;
+  }
 
-async function handleMove(node: any) {
-  showInformationMessage("Move functionality will be implemented");
-  // TODO: Implement move with target selection
+  showInformationMessage(
+    plans.length === 1
+      ? `${done} to ${plans[0].targetBucket}/${plans[0].targetKey}`
+      : `${done} ${plans.length} items`
+  );
 }
 
 async function handleRename(node: any) {
-  showInformationMessage("Rename functionality will be implemented");
-  // TODO: Implement rename (copy to new key + delete old key)
+  try {
+    if (!isObjectNode(node) && !isPrefixNode(node)) {
+      showErrorMessage("Can only rename objects and folders");
+      return;
+    }
+
+    const sourceKey = getNodeKey(node);
+    const currentName = getFileName(removeTrailingSlash(sourceKey));
+    const newName = isPrefixNode(node)
+      ? await promptForFolderName(
+          "Rename Folder",
+          "Enter new folder name",
+          currentName
+        )
+      : await promptForFileName("Rename", "Enter new name", currentName);
+
+    if (!newName || newName === currentName) {
+      return;
+    }
+
+    const parentPrefix = getParentPrefix(sourceKey);
+    const targetKey =
+      parentPrefix + newName + (isPrefixNode(node) ? "/" : "");
+
+    const existingKeys = await listChildKeys(
+      node.bucket,
+      parentPrefix,
+      node.connection
+    );
+    if (existingKeys.includes(targetKey)) {
+      showErrorMessage(`"${newName}" already exists`);
+      return;
+    }
+
+    await runTransfer(
+      "move",
+      [
+        {
+          sourceBucket: node.bucket,
+          sourceKey,
+          targetBucket: node.bucket,
+          targetKey,
+          sourceSize: isObjectNode(node) ? node.size : undefined,
+        },
+      ],
+      node.connection
+    );
+  } catch (error) {
+    showErrorMessage(
+      `Failed to rename: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+function getNodeKey(node: any): string {
+  return isPrefixNode(node) ? node.prefix : node.key;
 }
 
 async function handleGeneratePresignedUrl(node: any) {
@@ -522,9 +2432,12 @@ async function handleGeneratePresignedUrl(node: any) {
       return;
     }
 
-    const url = await generatePresignedUrl(node.bucket, node.key, {
-      expiresIn,
-    });
+    const url = await generatePresignedUrl(
+      node.bucket,
+      node.key,
+      { expiresIn },
+      node.connection
+    );
 
     await vscode.env.clipboard.writeText(url);
     showInformationMessage(
@@ -543,16 +2456,28 @@ async function handleGeneratePresignedUrl(node: any) {
 
 async function handleSearch() {
   try {
-    const searchParams = await promptForSearchTerm();
-    if (!searchParams) {
+    const selectedConnection = await promptForConnection(
+      "Select connection to search"
+    );
+    if (!selectedConnection) {
       return;
     }
+    const { connection } = selectedConnection;
 
-    const bucket = await promptForBucket("Select bucket to search");
+    const bucket = await promptForBucket("Select bucket to search", connection);
     if (!bucket) {
       return;
     }
 
+    const searchParams = await promptForSearchTerm(
+      bucket,
+      undefined,
+      connection
+    );
+    if (!searchParams) {
+      return;
+    }
+
     await withProgress(
       {
         title: "Searching objects",
@@ -565,7 +2490,8 @@ async function handleSearch() {
           bucket,
           searchParams.prefix,
           searchParams.contains,
-          1000
+          1000,
+          connection
         );
 
         if (results.length === 0) {
@@ -592,7 +2518,7 @@ async function handleSearch() {
 
         if (selected) {
           const uri = vscode.Uri.parse(
-            `s3x://${bucket}/${selected.description}`
+            createS3xUri(bucket, selected.description, connection)
           );
           await vscode.commands.executeCommand("vscode.open", uri);
         }
@@ -605,6 +2531,86 @@ async function handleSearch() {
   }
 }
 
+async function handleShowVersions(node: any) {
+  try {
+    if (!isObjectNode(node) && !isPrefixNode(node)) {
+      showErrorMessage("Can only show versions of objects and folders");
+      return;
+    }
+
+    await showVersionsView({
+      bucket: node.bucket,
+      key: getNodeKey(node),
+      connection: node.connection,
+    });
+  } catch (error) {
+    showErrorMessage(
+      `Failed to show versions: ${
+        error instanceof Error ? error.message : error
+      }`
+    );
+  }
+}
+
+async function showVersionsView(target: VersionsTarget) {
+  versionsExplorer.show(target);
+  versionsView.description = `${target.bucket}/${target.key}`;
+
+  await vscode.commands.executeCommand(
+    "setContext",
+    "s3x.showingVersions",
+    true
+  );
+  await vscode.commands.executeCommand("s3xVersions.focus");
+}
+
+async function handleRestoreVersion(node: any) {
+  try {
+    if (!isVersionNode(node) || node.version.isDeleteMarker) {
+      showErrorMessage("Can only restore object versions");
+      return;
+    }
+
+    const { key, versionId } = node.version;
+    await restoreObjectVersion(node.bucket, key, versionId, node.connection);
+
+    getCache(node.connection).invalidateKey(node.bucket, key);
+    s3Explorer.refresh();
+    versionsExplorer.refresh();
+    showInformationMessage(
+      `Restored ${getFileName(key)} to version ${versionId}`
+    );
+  } catch (error) {
+    showErrorMessage(
+      `Failed to restore version: ${
+        error instanceof Error ? error.message : error
+      }`
+    );
+  }
+}
+
+async function handleUndelete(node: any) {
+  try {
+    if (!isVersionNode(node) || !node.version.isDeleteMarker) {
+      showErrorMessage("Can only undelete by removing a delete marker");
+      return;
+    }
+
+    // The version below the marker becomes the latest again
+    const { key, versionId } = node.version;
+    await deleteObjectVersion(node.bucket, key, versionId, node.connection);
+
+    getCache(node.connection).invalidateKey(node.bucket, key);
+    s3Explorer.refresh();
+    versionsExplorer.refresh();
+    showInformationMessage(`Restored ${getFileName(key)}`);
+  } catch (error) {
+    showErrorMessage(
+      `Failed to undelete: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
 async function handleShowMetadata(node: any) {
   try {
     if (!isObjectNode(node)) {
@@ -612,11 +2618,16 @@ async function handleShowMetadata(node: any) {
       return;
     }
 
-    const metadata = await getObjectMetadata(node.bucket, node.key);
+    const metadata = await getObjectMetadata(
+      node.bucket,
+      node.key,
+      node.connection
+    );
 
     const items = [
       `**Object:** ${node.key}`,
       `**Bucket:** ${node.bucket}`,
+      ...(node.connection ? [`**Connection:** ${node.connection}`] : []),
       `**Size:** ${
         metadata.contentLength ? `${metadata.contentLength} bytes` : "Unknown"
       }`,
@@ -641,6 +2652,22 @@ async function handleShowMetadata(node: any) {
       }
     }
 
+    // Tags are a separate request, and not every endpoint supports them
+    try {
+      const tags = await getObjectTags(
+        node.bucket,
+        node.key,
+        node.connection
+      );
+      items.push(`**Tags:** ${formatTags(tags) || "None"}`);
+    } catch (error) {
+      items.push(
+        `**Tags:** ${metadata.tagCount ?? "Unknown"} (${
+          error instanceof Error ? error.message : error
+        })`
+      );
+    }
+
     const content = items.join("\n\n");
 
     // Create a temporary document to show the metadata
@@ -659,8 +2686,152 @@ async function handleShowMetadata(node: any) {
   }
 }
 
+async function handleEditTags(node: any, nodes?: any[]) {
+  try {
+    const targets = (nodes && nodes.length > 0 ? nodes : [node]).filter(
+      (n: any) => isObjectNode(n) || isPrefixNode(n)
+    );
+    if (targets.length === 0) {
+      showErrorMessage("Select files or folders to tag");
+      return;
+    }
+
+    if (targets.length === 1 && isObjectNode(targets[0])) {
+      await editObjectTags(targets[0]);
+      return;
+    }
+
+    const { bucket, connection } = targets[0];
+    if (
+      targets.some(
+        (n: any) => n.bucket !== bucket || n.connection !== connection
+      )
+    ) {
+      showErrorMessage("Can only tag items from a single bucket");
+      return;
+    }
+
+    await runBulkTagging(bucket, targets, connection);
+  } catch (error) {
+    showErrorMessage(
+      `Failed to update tags: ${
+        error instanceof Error ? error.message : error
+      }`
+    );
+  }
+}
+
+async function editObjectTags(node: ObjectNode) {
+  const name = getFileName(node.key);
+  const current = await getObjectTags(node.bucket, node.key, node.connection);
+  const tags = await promptForTags(`Tags of ${name}`, current);
+  if (!tags || tagsEqual(tags, current)) {
+    return;
+  }
+
+  await putObjectTags(node.bucket, node.key, tags, node.connection);
+  const count = Object.keys(tags).length;
+  showInformationMessage(
+    count === 0
+      ? `Removed all tags from "${name}"`
+      : `Saved ${count} tag${count === 1 ? "" : "s"} on "${name}"`
+  );
+}
+
+/**
+ * Apply one tag change to the selected objects and everything under the
+ * selected folders
+ */
+async function runBulkTagging(
+  bucket: string,
+  targets: Array<ObjectNode | PrefixNode>,
+  connection?: string
+) {
+  const keys = await withListingProgress(async () => {
+    const found = new Set<string>();
+    for (const target of targets) {
+      if (isObjectNode(target)) {
+        found.add(target.key);
+      } else {
+        const listed = await listObjectsRecursive(
+          bucket,
+          target.prefix,
+          connection
+        );
+        listed.forEach((object) => found.add(object.key));
+      }
+    }
+    // Folder markers are not files, so leave them untagged
+    return [...found].filter((key) => !key.endsWith("/"));
+  }, bucket);
+
+  if (keys.length === 0) {
+    showInformationMessage("There are no files to tag");
+    return;
+  }
+
+  const change = await promptForTagChange(keys.length);
+  if (!change) {
+    return;
+  }
+
+  const objects = `${keys.length} object${keys.length === 1 ? "" : "s"}`;
+  const confirmed = await promptForConfirmation(
+    change.mode === "replace"
+      ? `Replace all tags of ${objects} in "${bucket}"?`
+      : `Change the tags of ${objects} in "${bucket}"?`,
+    "Apply",
+    "Cancel"
+  );
+  if (!confirmed) {
+    return;
+  }
+
+  let cancelled = false;
+  const result = await withProgress(
+    {
+      title: `Tagging ${objects}`,
+      location: vscode.ProgressLocation.Notification,
+      cancellable: true,
+    },
+    (progress, token) =>
+      tagObjects(
+        bucket,
+        keys,
+        change,
+        connection,
+        (done, total) =>
+          progress.setProgress(
+            Math.round((done / total) * 100),
+            `${done} of ${total}`
+          ),
+        () => (cancelled = token.isCancellationRequested)
+      )
+  );
+
+  const updated = result.updated.length;
+  const unchanged =
+    result.unchanged > 0 ? `, ${result.unchanged} already up to date` : "";
+  const summary = `${cancelled ? "Stopped tagging. " : ""}Updated tags of ${
+    updated === 1 ? "1 object" : `${updated} objects`
+  }${unchanged}.`;
+  if (result.errors.length > 0) {
+    showObjectErrors(summary, result.errors);
+  } else {
+    showInformationMessage(summary);
+  }
+}
+
 async function handleSmokeTest() {
   try {
+    const selectedConnection = await promptForConnection(
+      "Select connection to test"
+    );
+    if (!selectedConnection) {
+      return;
+    }
+    const { connection } = selectedConnection;
+
     await withProgress(
       {
         title: "Running S3/R2 smoke test",
@@ -668,10 +2839,10 @@ async function handleSmokeTest() {
       },
       async (progress) => {
         progress.report({ message: "Testing connection..." });
-        await testConnection();
+        await testConnection(connection);
 
         progress.report({ message: "Listing buckets...", increment: 25 });
-        const buckets = await listBuckets();
+        const buckets = await listBuckets(connection);
 
         if (buckets.length === 0) {
           showInformationMessage(
@@ -691,7 +2862,8 @@ async function handleSmokeTest() {
           testBucket,
           undefined,
           undefined,
-          10
+          10,
+          connection
         );
 
         progress.report({ message: "Creating test object...", increment: 25 });
@@ -700,10 +2872,16 @@ async function handleSmokeTest() {
         const testKey = `_s3x_test_${Date.now()}.txt`;
         const testContent = `S3/R2 Explorer smoke test\nTimestamp: ${new Date().toISOString()}`;
 
-        await createFolder(testBucket, "test-folder/");
-        await uploadFile(testBucket, testKey, "test-content", (prog) => {
-          // Upload progress
-        });
+        await createFolder(testBucket, "test-folder/", connection);
+        await uploadFile(
+          testBucket,
+          testKey,
+          "test-content",
+          (prog) => {
+            // Upload progress
+          },
+          connection
+        );
 
         progress.report({
           message: "Cleaning up test object...",
@@ -711,8 +2889,8 @@ async function handleSmokeTest() {
         });
 
         // Clean up test object
-        await deleteObject(testBucket, testKey);
-        await deleteObject(testBucket, "test-folder/");
+        await deleteObject(testBucket, testKey, connection);
+        await deleteObject(testBucket, "test-folder/", connection);
 
         progress.setProgress(100, "Smoke test completed");
       }
@@ -735,7 +2913,7 @@ async function handleOpenFile(node: any) {
       return;
     }
 
-    const { bucket, key } = node;
+    const { bucket, key, connection } = node;
 
     // Check if this is a media file
     if (isImageFile(key) || isVideoFile(key) || isAudioFile(key)) {
@@ -744,6 +2922,7 @@ async function handleOpenFile(node: any) {
         bucket,
         key,
         uri: node.resourceUri,
+        connection,
       });
     } else {
       // Open non-media files using the default VS Code behavior
@@ -757,14 +2936,113 @@ async function handleOpenFile(node: any) {
   }
 }
 
+async function handleCompareWith(node: any, nodes?: any[]) {
+  try {
+    if (!isObjectNode(node)) {
+      showErrorMessage("Can only compare objects");
+      return;
+    }
+
+    // With two objects selected, compare them directly
+    const selected = (nodes || []).filter(isObjectNode);
+    if (selected.length === 2) {
+      await openDiff(selected[0].resourceUri!, selected[1].resourceUri!);
+      return;
+    }
+
+    const target = await promptForCompareTarget();
+    if (!target) {
+      return;
+    }
+
+    let otherUri: vscode.Uri;
+
+    if (target === "local") {
+      const files = await showFilePicker({
+        canSelectMany: false,
+        openLabel: "Compare",
+      });
+      if (!files || files.length === 0) {
+        return;
+      }
+      otherUri = files[0];
+    } else {
+      const picked = await promptForConnection("Select connection to compare");
+      if (!picked) {
+        return;
+      }
+
+      const bucket = await promptForBucket(
+        "Select bucket to compare",
+        picked.connection
+      );
+      if (!bucket) {
+        return;
+      }
+
+      const key =
+        target === "sameKey"
+          ? node.key
+          : await promptForKey("Key to compare with", undefined, node.key);
+      if (!key) {
+        return;
+      }
+
+      otherUri = vscode.Uri.parse(createS3xUri(bucket, key, picked.connection));
+    }
+
+    await openDiff(node.resourceUri!, otherUri);
+  } catch (error) {
+    showErrorMessage(
+      `Failed to compare: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+/**
+ * Open both sides in the diff editor. s3x: URIs are read through the file
+ * system provider, so a missing object is reported before the editor opens.
+ */
+async function openDiff(left: vscode.Uri, right: vscode.Uri) {
+  for (const uri of [left, right]) {
+    try {
+      await vscode.workspace.fs.stat(uri);
+    } catch {
+      showErrorMessage(`Not found: ${describeUri(uri)}`);
+      return;
+    }
+  }
+
+  await vscode.commands.executeCommand(
+    "vscode.diff",
+    left,
+    right,
+    `${describeUri(left)} ↔ ${describeUri(right)}`
+  );
+}
+
+function describeUri(uri: vscode.Uri): string {
+  if (uri.scheme !== "s3x") {
+    return vscode.workspace.asRelativePath(uri);
+  }
+
+  const { bucket, key, connection } = parseS3xUri(uri.toString());
+  return `${connection ? `${connection}@` : ""}${bucket}/${key}`;
+}
+
 async function handlePreviewMedia(params: any) {
   try {
-    const { bucket, key, uri } = params;
+    const { bucket, key, uri, connection } = params;
 
     // Generate a presigned URL for the media file
-    const presignedUrl = await generatePresignedUrl(bucket, key, {
-      expiresIn: 3600, // 1 hour
-    });
+    const presignedUrl = await generatePresignedUrl(
+      bucket,
+      key,
+      {
+        expiresIn: 3600, // 1 hour
+      },
+      connection
+    );
 
     // Create HTML content for the preview
     const mediaType = isImageFile(key)
@@ -0,0 +1,259 @@
+import * as vscode from "vscode";
+import {
+  getBucketCors,
+  getBucketLifecycle,
+  getBucketPolicy,
+  putBucketCors,
+  putBucketLifecycle,
+  putBucketPolicy,
+} from "../s3/buckets";
+import {
+  CORS_UPLOAD_TEMPLATE,
+  formatCorsConfiguration,
+  parseCorsConfiguration,
+} from "../util/cors";
+import {
+  LIFECYCLE_TEMPLATE,
+  formatLifecycleConfiguration,
+  parseLifecycleConfiguration,
+} from "../util/lifecycle";
+import {
+  createPolicyTemplate,
+  formatBucketPolicy,
+  lintBucketPolicy,
+} from "../util/policy";
+
+export const BUCKET_CONFIG_SCHEME = "s3x-config";
+
+/**
+ * A bucket setting edited as a text document. load returns undefined when
+ * the bucket has none; save validates and applies, throwing an Error whose
+ * message is shown when saving fails.
+ */
+interface BucketConfigDocument {
+  label: string;
+  load(bucket: string, connection?: string): Promise<string | undefined>;
+  save(bucket: string, content: string, connection?: string): Promise<void>;
+  template(bucket: string): string; // Shown when there is none yet
+}
+
+const documents: Record<string, BucketConfigDocument> = {
+  "cors.json": {
+    label: "CORS configuration",
+    load: async (bucket, connection) => {
+      const rules = await getBucketCors(bucket, connection);
+      return rules && formatCorsConfiguration(rules);
+    },
+    save: async (bucket, content, connection) => {
+      const { rules, errors } = parseCorsConfiguration(content);
+      if (errors.length > 0) {
+        throw new Error(`Invalid CORS configuration: ${errors.join("; ")}`);
+      }
+      await putBucketCors(bucket, rules, connection);
+    },
+    template: () => formatCorsConfiguration(CORS_UPLOAD_TEMPLATE),
+  },
+  "lifecycle.json": {
+    label: "lifecycle rules",
+    load: async (bucket, connection) => {
+      const rules = await getBucketLifecycle(bucket, connection);
+      return rules.length > 0 ? formatLifecycleConfiguration(rules) : undefined;
+    },
+    save: async (bucket, content, connection) => {
+      const { rules, errors } = parseLifecycleConfiguration(content);
+      if (errors.length > 0) {
+        throw new Error(`Invalid lifecycle rules: ${errors.join("; ")}`);
+      }
+      await putBucketLifecycle(bucket, rules, connection);
+    },
+    template: () => formatLifecycleConfiguration(LIFECYCLE_TEMPLATE),
+  },
+  "policy.json": {
+    label: "bucket policy",
+    load: async (bucket, connection) => {
+      const policy = await getBucketPolicy(bucket, connection);
+      return policy && formatBucketPolicy(policy);
+    },
+    save: async (bucket, content, connection) => {
+      const findings = lintBucketPolicy(content, bucket);
+      const errors = findings
+        .filter((item) => item.severity === "error")
+        .map((item) => item.message);
+      if (errors.length > 0) {
+        throw new Error(`Invalid bucket policy: ${errors.join("; ")}`);
+      }
+
+      // Public access is sometimes intended, but never by accident
+      const grants = findings.filter((item) => item.code === "publicPrincipal");
+      if (grants.length > 0) {
+        const choice = await vscode.window.showWarningMessage(
+          `This policy can make "${bucket}" public:\n${grants
+            .map((item) => item.message)
+            .join("\n")}`,
+          { modal: true },
+          "Apply Policy"
+        );
+        if (choice !== "Apply Policy") {
+          throw new Error("Policy not applied");
+        }
+      }
+
+      await putBucketPolicy(
+        bucket,
+        JSON.stringify(JSON.parse(content)),
+        connection
+      );
+    },
+    template: createPolicyTemplate,
+  },
+};
+
+/**
+ * Address a configuration document as
+ * s3x-config://[connection@]bucket/<name>
+ */
+export function createBucketConfigUri(
+  bucket: string,
+  name: string,
+  connection?: string
+): vscode.Uri {
+  const authority = connection ? `${connection}@${bucket}` : bucket;
+  return vscode.Uri.parse(`${BUCKET_CONFIG_SCHEME}://${authority}/${name}`);
+}
+
+export function parseBucketConfigUri(
+  uri: vscode.Uri
+): { bucket: string; name: string; connection?: string } | undefined {
+  const match = uri.authority.match(/^(?:([^@]+)@)?(.+)$/);
+  if (uri.scheme !== BUCKET_CONFIG_SCHEME || !match) {
+    return undefined;
+  }
+
+  return {
+    bucket: match[2],
+    name: uri.path.substring(1),
+    connection: match[1] || undefined,
+  };
+}
+
+/**
+ * Bucket settings (CORS, lifecycle rules and policy) as editable JSON
+ * documents. Saving a document validates it and applies it to the bucket.
+ */
+export class BucketConfigFileSystemProvider
+  implements vscode.FileSystemProvider
+{
+  private _emitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+  readonly onDidChangeFile: vscode.Event<vscode.FileChangeEvent[]> =
+    this._emitter.event;
+
+  // Stable modification times keep VS Code from reporting save conflicts
+  private mtimes = new Map<string, number>();
+  // Documents whose last read fell back to the template
+  private templates = new Set<string>();
+
+  watch(): vscode.Disposable {
+    return new vscode.Disposable(() => {});
+  }
+
+  async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+    this.resolve(uri);
+
+    const key = uri.toString();
+    if (!this.mtimes.has(key)) {
+      this.mtimes.set(key, Date.now());
+    }
+
+    return {
+      type: vscode.FileType.File,
+      ctime: this.mtimes.get(key)!,
+      mtime: this.mtimes.get(key)!,
+      size: 0,
+    };
+  }
+
+  async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+    const { document, bucket, connection } = this.resolve(uri);
+
+    try {
+      const content = await document.load(bucket, connection);
+      if (content === undefined) {
+        this.templates.add(uri.toString());
+      } else {
+        this.templates.delete(uri.toString());
+      }
+      return new TextEncoder().encode(content ?? document.template(bucket));
+    } catch (error) {
+      console.error("Error reading bucket configuration:", error);
+      throw vscode.FileSystemError.Unavailable(
+        error instanceof Error ? error.message : uri
+      );
+    }
+  }
+
+  /**
+   * A note for the user when the document was filled in from a template
+   * because the bucket has no such setting yet. VS Code reads documents
+   * again on focus, revert and save, so callers show it once on opening.
+   */
+  getTemplateNotice(uri: vscode.Uri): string | undefined {
+    if (!this.templates.has(uri.toString())) {
+      return undefined;
+    }
+
+    const { document, bucket } = this.resolve(uri);
+    return (
+      `"${bucket}" has no ${document.label} yet. ` +
+      "Edit the template and save to apply it."
+    );
+  }
+
+  async writeFile(uri: vscode.Uri, content: Uint8Array): Promise<void> {
+    const { document, bucket, connection } = this.resolve(uri);
+
+    try {
+      await document.save(
+        bucket,
+        new TextDecoder("utf-8").decode(content),
+        connection
+      );
+    } catch (error) {
+      throw vscode.FileSystemError.NoPermissions(
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+
+    this.mtimes.set(uri.toString(), Date.now());
+    this._emitter.fire([{ type: vscode.FileChangeType.Changed, uri }]);
+  }
+
+  readDirectory(): [string, vscode.FileType][] {
+    return [];
+  }
+
+  createDirectory(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  delete(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  rename(oldUri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(oldUri);
+  }
+
+  private resolve(uri: vscode.Uri): {
+    document: BucketConfigDocument;
+    bucket: string;
+    connection?: string;
+  } {
+    const parsed = parseBucketConfigUri(uri);
+    const document = parsed && documents[parsed.name];
+    if (!parsed || !document) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+
+    return { document, bucket: parsed.bucket, connection: parsed.connection };
+  }
+}
@@ -3,9 +3,12 @@ import {
   getObject,
   putObject,
   deleteObject,
+  deleteObjects,
+  moveObject,
+  movePrefix,
   getObjectMetadata,
 } from "../s3/ops";
-import { listObjects } from "../s3/listing";
+import { listObjects, listObjectsRecursive } from "../s3/listing";
 import {
   parseS3xUri,
   joinPath,
@@ -33,7 +36,9 @@ export class S3FileSystemProvider implements vscode.FileSystemProvider {
 
   async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
     try {
-      const { bucket, key } = parseS3xUri(uri.toString());
+      const { bucket, key, connection, versionId } = parseS3xUri(
+        uri.toString()
+      );
 
       if (!key || key === "") {
         // This is a bucket - treat as directory
@@ -56,13 +61,20 @@ export class S3FileSystemProvider implements vscode.FileSystemProvider {
       }
 
       // This is an object - get its metadata
-      const metadata = await getObjectMetadata(bucket, key);
+      const metadata = await getObjectMetadata(
+        bucket,
+        key,
+        connection,
+        versionId
+      );
 
       return {
         type: vscode.FileType.File,
         ctime: metadata.lastModified?.getTime() || Date.now(),
         mtime: metadata.lastModified?.getTime() || Date.now(),
         size: metadata.contentLength || 0,
+        // Older versions can be read but never written
+        permissions: versionId ? vscode.FilePermission.Readonly : undefined,
       };
     } catch (error) {
       if (error instanceof S3Error && error.code === "NoSuchKey") {
@@ -76,10 +88,16 @@ export class S3FileSystemProvider implements vscode.FileSystemProvider {
 
   async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
     try {
-      const { bucket, key } = parseS3xUri(uri.toString());
+      const { bucket, key, connection } = parseS3xUri(uri.toString());
       const prefix = key && key !== "" ? key : undefined;
 
-      const result = await listObjects(bucket, prefix);
+      const result = await listObjects(
+        bucket,
+        prefix,
+        undefined,
+        undefined,
+        connection
+      );
       const entries: [string, vscode.FileType][] = [];
 
       // Add prefixes (folders)
@@ -127,7 +145,7 @@ export class S3FileSystemProvider implements vscode.FileSystemProvider {
 
   async createDirectory(uri: vscode.Uri): Promise<void> {
     try {
-      const { bucket, key } = parseS3xUri(uri.toString());
+      const { bucket, key, connection } = parseS3xUri(uri.toString());
 
       if (!key) {
         throw vscode.FileSystemError.NoPermissions(
@@ -141,7 +159,9 @@ export class S3FileSystemProvider implements vscode.FileSystemProvider {
         bucket,
         folderKey,
         new Uint8Array(0),
-        "application/x-directory"
+        "application/x-directory",
+        undefined,
+        connection
       );
 
       this._fireSoon({ type: vscode.FileChangeType.Created, uri });
@@ -153,15 +173,22 @@ export class S3FileSystemProvider implements vscode.FileSystemProvider {
 
   async readFile(uri: vscode.Uri): Promise<Uint8Array> {
     try {
-      const { bucket, key } = parseS3xUri(uri.toString());
+      const { bucket, key, connection, versionId } = parseS3xUri(
+        uri.toString()
+      );
 
       if (!key) {
         throw vscode.FileSystemError.FileIsADirectory(uri);
       }
 
       // Check file size before reading
-      const config = getConfig();
-      const metadata = await getObjectMetadata(bucket, key);
+      const config = getConfig(connection);
+      const metadata = await getObjectMetadata(
+        bucket,
+        key,
+        connection,
+        versionId
+      );
 
       if (
         metadata.contentLength &&
@@ -199,6 +226,7 @@ export class S3FileSystemProvider implements vscode.FileSystemProvider {
             bucket,
             key,
             uri,
+            connection,
           });
           throw vscode.FileSystemError.FileNotFound(uri); // Prevent default opening
         } else if (choice !== "Open as Binary") {
@@ -219,7 +247,7 @@ export class S3FileSystemProvider implements vscode.FileSystemProvider {
         }
       }
 
-      return await getObject(bucket, key);
+      return await getObject(bucket, key, connection, versionId);
     } catch (error) {
       if (error instanceof S3Error && error.code === "NoSuchKey") {
         throw vscode.FileSystemError.FileNotFound(uri);
@@ -240,16 +268,24 @@ export class S3FileSystemProvider implements vscode.FileSystemProvider {
     options: { create: boolean; overwrite: boolean }
   ): Promise<void> {
     try {
-      const { bucket, key } = parseS3xUri(uri.toString());
+      const { bucket, key, connection, versionId } = parseS3xUri(
+        uri.toString()
+      );
 
       if (!key) {
         throw vscode.FileSystemError.FileIsADirectory(uri);
       }
 
+      if (versionId) {
+        throw vscode.FileSystemError.NoPermissions(
+          "Object versions are read-only"
+        );
+      }
+
       // Check if file exists if we're not allowed to overwrite
       if (!options.overwrite) {
         try {
-          await getObjectMetadata(bucket, key);
+          await getObjectMetadata(bucket, key, connection);
           throw vscode.FileSystemError.FileExists(uri);
         } catch (error) {
           if (!(error instanceof S3Error && error.code === "NoSuchKey")) {
@@ -262,7 +298,7 @@ export class S3FileSystemProvider implements vscode.FileSystemProvider {
       // Check if we're allowed to create new files
       if (!options.create) {
         try {
-          await getObjectMetadata(bucket, key);
+          await getObjectMetadata(bucket, key, connection);
           // File exists, which is what we want
         } catch (error) {
           if (error instanceof S3Error && error.code === "NoSuchKey") {
@@ -272,7 +308,7 @@ export class S3FileSystemProvider implements vscode.FileSystemProvider {
         }
       }
 
-      await putObject(bucket, key, content);
+      await putObject(bucket, key, content, undefined, undefined, connection);
 
       this._fireSoon({ type: vscode.FileChangeType.Changed, uri });
     } catch (error) {
@@ -290,7 +326,9 @@ export class S3FileSystemProvider implements vscode.FileSystemProvider {
     options: { recursive: boolean }
   ): Promise<void> {
     try {
-      const { bucket, key } = parseS3xUri(uri.toString());
+      const { bucket, key, connection, versionId } = parseS3xUri(
+        uri.toString()
+      );
 
       if (!key) {
         throw vscode.FileSystemError.NoPermissions(
@@ -298,6 +336,12 @@ export class S3FileSystemProvider implements vscode.FileSystemProvider {
         );
       }
 
+      if (versionId) {
+        throw vscode.FileSystemError.NoPermissions(
+          "Object versions are read-only"
+        );
+      }
+
       const stat = await this.stat(uri);
 
       if (stat.type === vscode.FileType.Directory) {
@@ -310,39 +354,42 @@ export class S3FileSystemProvider implements vscode.FileSystemProvider {
         }
 
         if (options.recursive) {
-          // Delete all contents recursively
-          const result = await listObjects(bucket, key);
-
-          const keysToDelete: string[] = [];
-
-          // Add all objects
-          for (const object of result.objects) {
-            keysToDelete.push(object.key);
-          }
+          // Delete all contents recursively, including nested prefixes
+          const objects = await listObjectsRecursive(
+            bucket,
+            key.endsWith("/") ? key : `${key}/`,
+            connection
+          );
 
-          // Add all prefixes (as empty objects)
-          for (const prefix of result.prefixes) {
-            keysToDelete.push(prefix.prefix);
-          }
+          const result = await deleteObjects(
+            bucket,
+            objects.map((object) => object.key),
+            connection
+          );
 
-          // Batch delete
-          if (keysToDelete.length > 0) {
-            for (let i = 0; i < keysToDelete.length; i += 1000) {
-              const batch = keysToDelete.slice(i, i + 1000);
-              await Promise.all(batch.map((k) => deleteObject(bucket, k)));
-            }
+          if (result.errors.length > 0) {
+            result.errors.forEach((error) =>
+              console.error(`Failed to delete ${error.key}: ${error.message}`)
+            );
+            throw vscode.FileSystemError.NoPermissions(
+              `${result.errors.length} of ${objects.length} objects could not be deleted (first: ${result.errors[0].key}: ${result.errors[0].message})`
+            );
           }
         }
 
         // Delete the directory marker if it exists
         try {
-          await deleteObject(bucket, key.endsWith("/") ? key : `${key}/`);
+          await deleteObject(
+            bucket,
+            key.endsWith("/") ? key : `${key}/`,
+            connection
+          );
         } catch (error) {
           // Ignore if the directory marker doesn't exist
         }
       } else {
         // Delete single file
-        await deleteObject(bucket, key);
+        await deleteObject(bucket, key, connection);
       }
 
       this._fireSoon({ type: vscode.FileChangeType.Deleted, uri });
@@ -369,16 +416,27 @@ export class S3FileSystemProvider implements vscode.FileSystemProvider {
         throw vscode.FileSystemError.NoPermissions("Cannot rename buckets");
       }
 
-      if (oldParsed.bucket !== newParsed.bucket) {
+      if (oldParsed.versionId || newParsed.versionId) {
+        throw vscode.FileSystemError.NoPermissions(
+          "Object versions are read-only"
+        );
+      }
+
+      if (
+        oldParsed.bucket !== newParsed.bucket ||
+        oldParsed.connection !== newParsed.connection
+      ) {
         throw vscode.FileSystemError.NoPermissions(
           "Cannot rename across buckets"
         );
       }
 
+      const connection = oldParsed.connection;
+
       // Check if target exists and handle overwrite
       if (!options.overwrite) {
         try {
-          await getObjectMetadata(newParsed.bucket, newParsed.key);
+          await getObjectMetadata(newParsed.bucket, newParsed.key, connection);
           throw vscode.FileSystemError.FileExists(newUri);
         } catch (error) {
           if (!(error instanceof S3Error && error.code === "NoSuchKey")) {
@@ -391,41 +449,41 @@ export class S3FileSystemProvider implements vscode.FileSystemProvider {
       const stat = await this.stat(oldUri);
 
       if (stat.type === vscode.FileType.Directory) {
-        // Rename directory - need to rename all contents
-        const result = await listObjects(oldParsed.bucket, oldParsed.key);
-
-        // Copy all objects with new prefix
-        for (const object of result.objects) {
-          const newKey = object.key.replace(oldParsed.key, newParsed.key);
-          const objectData = await getObject(oldParsed.bucket, object.key);
-          await putObject(newParsed.bucket, newKey, objectData);
-          await deleteObject(oldParsed.bucket, object.key);
-        }
+        // Rename directory - server-side copy of all contents, including
+        // nested prefixes and the directory marker
+        const oldDirKey = oldParsed.key.endsWith("/")
+          ? oldParsed.key
+          : `${oldParsed.key}/`;
+        const newDirKey = newParsed.key.endsWith("/")
+          ? newParsed.key
+          : `${newParsed.key}/`;
+
+        const result = await movePrefix(
+          oldParsed.bucket,
+          oldDirKey,
+          newParsed.bucket,
+          newDirKey,
+          connection
+        );
 
-        // Handle directory marker
-        try {
-          const oldDirKey = oldParsed.key.endsWith("/")
-            ? oldParsed.key
-            : `${oldParsed.key}/`;
-          const newDirKey = newParsed.key.endsWith("/")
-            ? newParsed.key
-            : `${newParsed.key}/`;
-
-          await putObject(
-            newParsed.bucket,
-            newDirKey,
-            new Uint8Array(0),
-            "application/x-directory"
+        if (result.errors.length > 0) {
+          result.errors.forEach((error) =>
+            console.error(`Failed to move ${error.key}: ${error.message}`)
+          );
+          throw vscode.FileSystemError.NoPermissions(
+            `${result.errors.length} objects could not be moved (first: ${result.errors[0].key}: ${result.errors[0].message})`
           );
-          await deleteObject(oldParsed.bucket, oldDirKey);
-        } catch (error) {
-          // Ignore if directory marker operations fail
         }
       } else {
-        // Rename single file
-        const data = await getObject(oldParsed.bucket, oldParsed.key);
-        await putObject(newParsed.bucket, newParsed.key, data);
-        await deleteObject(oldParsed.bucket, oldParsed.key);
+        // Rename single file without downloading it
+        await moveObject(
+          oldParsed.bucket,
+          oldParsed.key,
+          newParsed.bucket,
+          newParsed.key,
+          connection,
+          stat.size
+        );
       }
 
       this._fireSoon(
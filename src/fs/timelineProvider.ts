@@ -0,0 +1,123 @@
+import * as vscode from "vscode";
+import { formatFileSize, listKeyVersions } from "../s3/listing";
+import { S3ObjectVersion } from "../types";
+import { createS3xUri, getFileName, parseS3xUri } from "../util/paths";
+
+// Only this many versions of an object are listed
+const MAX_VERSIONS = 1000;
+
+/**
+ * Timeline entries for s3x: documents, one per version of the object.
+ * Selecting a version diffs it against the current content.
+ */
+export class S3TimelineProvider implements vscode.TimelineProvider {
+  readonly id = "s3x.versions";
+  readonly label = "S3 Versions";
+
+  private _onDidChange = new vscode.EventEmitter<
+    vscode.TimelineChangeEvent | undefined
+  >();
+  readonly onDidChange = this._onDidChange.event;
+
+  /**
+   * @param onDidChangeFile Writes to objects, which add a version
+   */
+  constructor(onDidChangeFile: vscode.Event<vscode.FileChangeEvent[]>) {
+    onDidChangeFile((events) => {
+      for (const { uri } of events) {
+        this._onDidChange.fire({ uri });
+      }
+    });
+  }
+
+  async provideTimeline(
+    uri: vscode.Uri,
+    options: vscode.TimelineOptions,
+    token: vscode.CancellationToken
+  ): Promise<vscode.Timeline> {
+    const { bucket, key, connection } = parseS3xUri(uri.toString());
+    if (!key || key.endsWith("/")) {
+      return { items: [] };
+    }
+
+    let versions: S3ObjectVersion[];
+    try {
+      versions = await listKeyVersions(bucket, key, MAX_VERSIONS, connection);
+    } catch {
+      // Versions can't be listed, e.g. where ListObjectVersions isn't
+      // supported or allowed. Leave the timeline empty.
+      return { items: [] };
+    }
+
+    if (token.isCancellationRequested) {
+      return { items: [] };
+    }
+
+    // With a delete marker on top there is nothing current to compare to
+    const current = versions[0]?.isDeleteMarker
+      ? undefined
+      : vscode.Uri.parse(createS3xUri(bucket, key, connection));
+    return {
+      items: versions.map((version) =>
+        createTimelineItem(version, bucket, current, connection)
+      ),
+    };
+  }
+}
+
+function createTimelineItem(
+  version: S3ObjectVersion,
+  bucket: string,
+  current: vscode.Uri | undefined,
+  connection?: string
+): vscode.TimelineItem {
+  const latest = version.isLatest ? "Latest · " : "";
+  const item: vscode.TimelineItem = {
+    id: version.versionId,
+    timestamp: version.lastModified?.getTime() || 0,
+    label: version.isDeleteMarker ? "Deleted" : formatFileSize(version.size),
+    description: `${latest}${version.versionId}`,
+    tooltip: [
+      `Version: ${version.versionId}`,
+      version.isDeleteMarker
+        ? "Delete marker"
+        : `Size: ${formatFileSize(version.size)}`,
+      `Modified: ${version.lastModified?.toLocaleString() || "Unknown"}`,
+      version.storageClass ? `Storage class: ${version.storageClass}` : "",
+    ]
+      .filter(Boolean)
+      .join("\n"),
+    iconPath: new vscode.ThemeIcon(
+      version.isDeleteMarker ? "trash" : "history"
+    ),
+  };
+
+  if (version.isDeleteMarker) {
+    return item;
+  }
+
+  const versionUri = vscode.Uri.parse(
+    createS3xUri(bucket, version.key, connection, version.versionId)
+  );
+
+  if (current) {
+    const date = version.lastModified?.toLocaleString() || version.versionId;
+    item.command = {
+      command: "vscode.diff",
+      title: "Compare with Current",
+      arguments: [
+        versionUri,
+        current,
+        `${getFileName(version.key)} (${date}) ↔ Current`,
+      ],
+    };
+  } else {
+    item.command = {
+      command: "vscode.open",
+      title: "Open Version",
+      arguments: [versionUri],
+    };
+  }
+
+  return item;
+}
@@ -0,0 +1,224 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { uploadFile } from "./ops";
+import { getUploadExcludes } from "./client";
+import {
+  getMappings,
+  findMapping,
+  findMappingForFile,
+  getMappingId,
+  onDidChangeMappings,
+} from "./mappings";
+import { RemoteFolderMapping } from "../types";
+import { getCache } from "../util/cache";
+import { CoalescingQueue } from "../util/debounce";
+import { loadIgnoreMatcher, isPathIgnored } from "../util/ignore";
+import { isLocalWrite } from "../util/localWrites";
+import { joinPath, getFileName } from "../util/paths";
+
+// Editors often write a file several times per save
+const AUTO_UPLOAD_DELAY_MS = 500;
+const PAUSED_MAPPINGS_KEY = "s3x.pausedAutoUploads";
+
+let state: vscode.Memento | undefined;
+let statusBar: vscode.StatusBarItem | undefined;
+let queue: CoalescingQueue<string> | undefined;
+let watchers: vscode.Disposable[] = [];
+let lastResult: { text: string; tooltip: string } | undefined;
+
+/**
+ * Upload files in mapped folders whenever they change on disk, except for
+ * files the extension itself writes during downloads, pulls and syncs.
+ * Pause state is kept per workspace.
+ */
+export function initializeAutoUpload(
+  memento: vscode.Memento
+): vscode.Disposable {
+  state = memento;
+  statusBar = vscode.window.createStatusBarItem(
+    vscode.StatusBarAlignment.Left
+  );
+  statusBar.command = "s3x.toggleAutoUpload";
+  queue = new CoalescingQueue(
+    AUTO_UPLOAD_DELAY_MS,
+    uploadChangedFile,
+    updateStatusBar
+  );
+
+  const subscription = onDidChangeMappings(() => watchMappings());
+  watchMappings();
+
+  return new vscode.Disposable(() => {
+    subscription.dispose();
+    watchers.forEach((watcher) => watcher.dispose());
+    watchers = [];
+    queue?.dispose();
+    statusBar?.dispose();
+  });
+}
+
+export function isAutoUploadPaused(mapping: RemoteFolderMapping): boolean {
+  return getPausedIds().includes(getMappingId(mapping));
+}
+
+/**
+ * Pause or resume auto-upload for the mapping of a folder, or for one
+ * picked from the list when no folder is given
+ */
+export async function toggleAutoUpload(uri?: vscode.Uri): Promise<void> {
+  const candidates = getMappings().filter((mapping) => mapping.autoUpload);
+  let mapping = uri ? findMapping(uri.fsPath) : undefined;
+
+  if (!mapping && candidates.length === 1) {
+    mapping = candidates[0];
+  } else if (!mapping) {
+    const selected = await vscode.window.showQuickPick(
+      candidates.map((candidate) => ({
+        label: `${isAutoUploadPaused(candidate) ? "Resume" : "Pause"} ${
+          candidate.name || candidate.local
+        }`,
+        description: `${candidate.bucket}/${candidate.prefix}`,
+        mapping: candidate,
+      })),
+      { placeHolder: "Toggle auto-upload for a linked folder" }
+    );
+    mapping = selected?.mapping;
+  }
+
+  if (!mapping || !mapping.autoUpload) {
+    return;
+  }
+
+  const id = getMappingId(mapping);
+  const paused = getPausedIds();
+  await state?.update(
+    PAUSED_MAPPINGS_KEY,
+    paused.includes(id)
+      ? paused.filter((pausedId) => pausedId !== id)
+      : [...paused, id]
+  );
+  updateStatusBar();
+}
+
+function getPausedIds(): string[] {
+  return state?.get<string[]>(PAUSED_MAPPINGS_KEY, []) || [];
+}
+
+function watchMappings() {
+  watchers.forEach((watcher) => watcher.dispose());
+  watchers = [];
+
+  for (const mapping of getMappings().filter((m) => m.autoUpload)) {
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(vscode.Uri.file(mapping.localPath), "**/*")
+    );
+    const schedule = (uri: vscode.Uri) => {
+      if (!isLocalWrite(uri.fsPath)) {
+        queue?.schedule(uri.fsPath);
+      }
+    };
+    watchers.push(
+      watcher,
+      watcher.onDidChange(schedule),
+      watcher.onDidCreate(schedule)
+    );
+  }
+
+  updateStatusBar();
+}
+
+async function uploadChangedFile(filePath: string): Promise<void> {
+  const mapping = findMappingForFile(filePath);
+  if (
+    !mapping ||
+    !mapping.autoUpload ||
+    isAutoUploadPaused(mapping) ||
+    isLocalWrite(filePath)
+  ) {
+    return;
+  }
+
+  const stat = await fs.promises.stat(filePath).catch(() => undefined);
+  if (!stat?.isFile()) {
+    return;
+  }
+
+  const relativePath = path
+    .relative(mapping.localPath, filePath)
+    .split(path.sep)
+    .join("/");
+  if (await isExcluded(mapping, relativePath)) {
+    return;
+  }
+
+  const key = joinPath(mapping.prefix, relativePath);
+  const fileName = getFileName(relativePath);
+
+  try {
+    await uploadFile(
+      mapping.bucket,
+      key,
+      filePath,
+      undefined,
+      mapping.connection
+    );
+    getCache(mapping.connection).invalidateKey(mapping.bucket, key);
+    const time = new Date().toLocaleTimeString();
+    lastResult = {
+      text: `$(check) S3: ${fileName}`,
+      tooltip: `Uploaded to ${mapping.bucket}/${key} at ${time}`,
+    };
+  } catch (error) {
+    lastResult = {
+      text: `$(error) S3: ${fileName}`,
+      tooltip: `Failed to upload to ${mapping.bucket}/${key}: ${
+        error instanceof Error ? error.message : error
+      }`,
+    };
+  }
+}
+
+async function isExcluded(
+  mapping: RemoteFolderMapping,
+  relativePath: string
+): Promise<boolean> {
+  const isIgnored = await loadIgnoreMatcher(
+    mapping.localPath,
+    getUploadExcludes()
+  );
+  return isPathIgnored(isIgnored, relativePath);
+}
+
+function updateStatusBar() {
+  if (!statusBar || !queue) {
+    return;
+  }
+
+  const mappings = getMappings().filter((mapping) => mapping.autoUpload);
+  if (mappings.length === 0) {
+    statusBar.hide();
+    return;
+  }
+
+  const current = queue.current;
+  const waiting = queue.pending;
+
+  if (current) {
+    statusBar.text = `$(sync~spin) S3: ${getFileName(
+      current.split(path.sep).join("/")
+    )}${waiting > 0 ? ` (+${waiting})` : ""}`;
+    statusBar.tooltip = `Uploading ${current}`;
+  } else if (mappings.every(isAutoUploadPaused)) {
+    statusBar.text = "$(debug-pause) S3: Paused";
+    statusBar.tooltip = "Auto-upload is paused. Click to resume.";
+  } else if (lastResult) {
+    statusBar.text = lastResult.text;
+    statusBar.tooltip = `${lastResult.tooltip}\nClick to pause or resume.`;
+  } else {
+    statusBar.text = "$(cloud-upload) S3";
+    statusBar.tooltip = "Auto-upload on save is on. Click to pause or resume.";
+  }
+
+  statusBar.show();
+}
@@ -0,0 +1,611 @@
+import {
+  AbortMultipartUploadCommand,
+  CreateBucketCommand,
+  DeleteBucketCommand,
+  DeleteBucketCorsCommand,
+  DeleteBucketLifecycleCommand,
+  GetBucketCorsCommand,
+  GetBucketEncryptionCommand,
+  GetBucketLifecycleConfigurationCommand,
+  GetBucketLocationCommand,
+  GetBucketPolicyCommand,
+  GetBucketTaggingCommand,
+  GetBucketWebsiteCommand,
+  GetObjectLockConfigurationCommand,
+  GetPublicAccessBlockCommand,
+  PutBucketCorsCommand,
+  PutBucketLifecycleConfigurationCommand,
+  PutBucketPolicyCommand,
+  LifecycleRule as S3LifecycleRule,
+  GetBucketVersioningCommand,
+  ListMultipartUploadsCommand,
+  BucketLocationConstraint,
+} from "@aws-sdk/client-s3";
+import { getS3Client, withRetry } from "./client";
+import { listObjectVersions, listObjectsRecursive } from "./listing";
+import { deleteObjects, deleteObjectVersions } from "./ops";
+import {
+  BucketProperties,
+  BucketSection,
+  DeleteObjectsResult,
+  ObjectOperationError,
+  S3Error,
+} from "../types";
+import { mapWithConcurrency } from "../util/concurrency";
+import { CorsRule } from "../util/cors";
+import { LifecycleRule } from "../util/lifecycle";
+import {
+  getLocationConstraint,
+  normalizeBucketRegion,
+} from "../util/bucketProperties";
+
+const ABORT_CONCURRENCY = 4;
+
+/**
+ * Create a bucket. Without a region the bucket is created in the
+ * connection's region.
+ */
+export async function createBucket(
+  bucket: string,
+  region?: string,
+  connection?: string
+): Promise<void> {
+  const constraint = getLocationConstraint(region);
+
+  return withRetry(async () => {
+    const client = getS3Client(connection);
+    const command = new CreateBucketCommand({
+      Bucket: bucket,
+      CreateBucketConfiguration: constraint
+        ? { LocationConstraint: constraint as BucketLocationConstraint }
+        : undefined,
+    });
+
+    try {
+      await client.send(command);
+    } catch (error: any) {
+      const code = error.code || error.name;
+      if (
+        code === "BucketAlreadyExists" ||
+        code === "BucketAlreadyOwnedByYou"
+      ) {
+        throw new S3Error(
+          `Bucket '${bucket}' already exists`,
+          code,
+          error.$metadata?.httpStatusCode,
+          false
+        );
+      }
+
+      throw new S3Error(
+        `Failed to create bucket '${bucket}': ${error.message}`,
+        error.code,
+        error.$metadata?.httpStatusCode,
+        S3Error.isRetryable(error)
+      );
+    }
+  });
+}
+
+export async function deleteBucket(
+  bucket: string,
+  connection?: string
+): Promise<void> {
+  return withRetry(async () => {
+    const client = getS3Client(connection);
+
+    try {
+      await client.send(new DeleteBucketCommand({ Bucket: bucket }));
+    } catch (error: any) {
+      const code = error.code || error.name;
+      if (code === "BucketNotEmpty") {
+        throw new S3Error(
+          `Bucket '${bucket}' is not empty`,
+          code,
+          error.$metadata?.httpStatusCode,
+          false
+        );
+      }
+
+      throw new S3Error(
+        `Failed to delete bucket '${bucket}': ${error.message}`,
+        error.code,
+        error.$metadata?.httpStatusCode,
+        S3Error.isRetryable(error)
+      );
+    }
+  });
+}
+
+/**
+ * The bucket's CORS rules, or undefined when it has no CORS configuration
+ */
+export async function getBucketCors(
+  bucket: string,
+  connection?: string
+): Promise<CorsRule[] | undefined> {
+  return withRetry(async () => {
+    const client = getS3Client(connection);
+
+    try {
+      const response = await client.send(
+        new GetBucketCorsCommand({ Bucket: bucket })
+      );
+      return (response.CORSRules || []) as CorsRule[];
+    } catch (error: any) {
+      if ((error.code || error.name) === "NoSuchCORSConfiguration") {
+        return undefined;
+      }
+
+      throw new S3Error(
+        `Failed to get CORS configuration of '${bucket}': ${error.message}`,
+        error.code,
+        error.$metadata?.httpStatusCode,
+        S3Error.isRetryable(error)
+      );
+    }
+  });
+}
+
+export async function putBucketCors(
+  bucket: string,
+  rules: CorsRule[],
+  connection?: string
+): Promise<void> {
+  return withRetry(async () => {
+    const client = getS3Client(connection);
+
+    try {
+      await client.send(
+        new PutBucketCorsCommand({
+          Bucket: bucket,
+          CORSConfiguration: { CORSRules: rules },
+        })
+      );
+    } catch (error: any) {
+      throw new S3Error(
+        `Failed to update CORS configuration of '${bucket}': ${error.message}`,
+        error.code,
+        error.$metadata?.httpStatusCode,
+        S3Error.isRetryable(error)
+      );
+    }
+  });
+}
+
+export async function deleteBucketCors(
+  bucket: string,
+  connection?: string
+): Promise<void> {
+  return withRetry(async () => {
+    const client = getS3Client(connection);
+
+    try {
+      await client.send(new DeleteBucketCorsCommand({ Bucket: bucket }));
+    } catch (error: any) {
+      throw new S3Error(
+        `Failed to delete CORS configuration of '${bucket}': ${error.message}`,
+        error.code,
+        error.$metadata?.httpStatusCode,
+        S3Error.isRetryable(error)
+      );
+    }
+  });
+}
+
+/**
+ * The bucket's lifecycle rules, or an empty list when it has none
+ */
+export async function getBucketLifecycle(
+  bucket: string,
+  connection?: string
+): Promise<LifecycleRule[]> {
+  return withRetry(async () => {
+    const client = getS3Client(connection);
+
+    try {
+      const response = await client.send(
+        new GetBucketLifecycleConfigurationCommand({ Bucket: bucket })
+      );
+      return (response.Rules || []) as LifecycleRule[];
+    } catch (error: any) {
+      if ((error.code || error.name) === "NoSuchLifecycleConfiguration") {
+        return [];
+      }
+
+      throw new S3Error(
+        `Failed to get lifecycle rules of '${bucket}': ${error.message}`,
+        error.code,
+        error.$metadata?.httpStatusCode,
+        S3Error.isRetryable(error)
+      );
+    }
+  });
+}
+
+/**
+ * Replace the bucket's lifecycle rules. S3 rejects an empty rule list, so
+ * no rules removes the lifecycle configuration instead.
+ */
+export async function putBucketLifecycle(
+  bucket: string,
+  rules: LifecycleRule[],
+  connection?: string
+): Promise<void> {
+  return withRetry(async () => {
+    const client = getS3Client(connection);
+
+    try {
+      if (rules.length === 0) {
+        await client.send(new DeleteBucketLifecycleCommand({ Bucket: bucket }));
+        return;
+      }
+
+      await client.send(
+        new PutBucketLifecycleConfigurationCommand({
+          Bucket: bucket,
+          LifecycleConfiguration: { Rules: rules.map(toS3LifecycleRule) },
+        })
+      );
+    } catch (error: any) {
+      throw new S3Error(
+        `Failed to update lifecycle rules of '${bucket}': ${error.message}`,
+        error.code,
+        error.$metadata?.httpStatusCode,
+        S3Error.isRetryable(error)
+      );
+    }
+  });
+}
+
+// The SDK serializes Date objects; rules edited as JSON carry ISO strings
+function toS3LifecycleRule(rule: LifecycleRule): S3LifecycleRule {
+  const toDate = (date?: string | Date) =>
+    date === undefined ? undefined : new Date(date);
+
+  return {
+    ...rule,
+    Expiration: rule.Expiration && {
+      ...rule.Expiration,
+      Date: toDate(rule.Expiration.Date),
+    },
+    Transitions: rule.Transitions?.map((transition) => ({
+      ...transition,
+      Date: toDate(transition.Date),
+    })),
+  } as S3LifecycleRule;
+}
+
+/**
+ * The bucket policy as a JSON string, or undefined when it has none
+ */
+export async function getBucketPolicy(
+  bucket: string,
+  connection?: string
+): Promise<string | undefined> {
+  return withRetry(async () => {
+    const client = getS3Client(connection);
+
+    try {
+      const response = await client.send(
+        new GetBucketPolicyCommand({ Bucket: bucket })
+      );
+      return response.Policy;
+    } catch (error: any) {
+      if ((error.code || error.name) === "NoSuchBucketPolicy") {
+        return undefined;
+      }
+
+      throw new S3Error(
+        `Failed to get policy of '${bucket}': ${error.message}`,
+        error.code,
+        error.$metadata?.httpStatusCode,
+        S3Error.isRetryable(error)
+      );
+    }
+  });
+}
+
+export async function putBucketPolicy(
+  bucket: string,
+  policy: string,
+  connection?: string
+): Promise<void> {
+  return withRetry(async () => {
+    const client = getS3Client(connection);
+
+    try {
+      await client.send(
+        new PutBucketPolicyCommand({ Bucket: bucket, Policy: policy })
+      );
+    } catch (error: any) {
+      throw new S3Error(
+        `Failed to update policy of '${bucket}': ${error.message}`,
+        error.code,
+        error.$metadata?.httpStatusCode,
+        S3Error.isRetryable(error)
+      );
+    }
+  });
+}
+
+/**
+ * Gather a bucket's configuration for the properties page. Each section is
+ * read separately and without retries, so one unsupported or forbidden API
+ * does not hide the others.
+ */
+export async function getBucketProperties(
+  bucket: string,
+  connection?: string
+): Promise<BucketProperties> {
+  const client = getS3Client(connection);
+  const input = { Bucket: bucket };
+
+  const [
+    region,
+    versioning,
+    encryption,
+    publicAccessBlock,
+    tags,
+    objectLock,
+    website,
+    cors,
+    lifecycle,
+    policy,
+  ] = await Promise.all([
+    readSection(async () => {
+      const response = await client.send(new GetBucketLocationCommand(input));
+      return normalizeBucketRegion(response.LocationConstraint);
+    }),
+    readSection(async () => {
+      const response = await client.send(
+        new GetBucketVersioningCommand(input)
+      );
+      return response.Status;
+    }),
+    readSection(async () => {
+      const response = await client.send(new GetBucketEncryptionCommand(input));
+      return response.ServerSideEncryptionConfiguration?.Rules?.map(
+        (rule) => ({
+          algorithm:
+            rule.ApplyServerSideEncryptionByDefault?.SSEAlgorithm || "AES256",
+          kmsKeyId: rule.ApplyServerSideEncryptionByDefault?.KMSMasterKeyID,
+          bucketKeyEnabled: rule.BucketKeyEnabled,
+        })
+      );
+    }, "ServerSideEncryptionConfigurationNotFoundError"),
+    readSection(async () => {
+      const response = await client.send(
+        new GetPublicAccessBlockCommand(input)
+      );
+      const config = response.PublicAccessBlockConfiguration;
+      return (
+        config && {
+          blockPublicAcls: config.BlockPublicAcls,
+          ignorePublicAcls: config.IgnorePublicAcls,
+          blockPublicPolicy: config.BlockPublicPolicy,
+          restrictPublicBuckets: config.RestrictPublicBuckets,
+        }
+      );
+    }, "NoSuchPublicAccessBlockConfiguration"),
+    readSection(async () => {
+      const response = await client.send(new GetBucketTaggingCommand(input));
+      const tagSet = response.TagSet || [];
+      return tagSet.length > 0
+        ? tagSet.map((tag) => ({ key: tag.Key!, value: tag.Value || "" }))
+        : undefined;
+    }, "NoSuchTagSet"),
+    readSection(async () => {
+      const response = await client.send(
+        new GetObjectLockConfigurationCommand(input)
+      );
+      const config = response.ObjectLockConfiguration;
+      if (config?.ObjectLockEnabled !== "Enabled") {
+        return undefined;
+      }
+      const retention = config.Rule?.DefaultRetention;
+      return {
+        mode: retention?.Mode,
+        days: retention?.Days,
+        years: retention?.Years,
+      };
+    }, "ObjectLockConfigurationNotFoundError"),
+    readSection(async () => {
+      const response = await client.send(new GetBucketWebsiteCommand(input));
+      return {
+        indexDocument: response.IndexDocument?.Suffix,
+        errorDocument: response.ErrorDocument?.Key,
+        redirectTo: response.RedirectAllRequestsTo?.HostName,
+        routingRules: response.RoutingRules?.length || 0,
+      };
+    }, "NoSuchWebsiteConfiguration"),
+    readSection(async () => {
+      const response = await client.send(new GetBucketCorsCommand(input));
+      return response.CORSRules?.length;
+    }, "NoSuchCORSConfiguration"),
+    readSection(async () => {
+      const response = await client.send(
+        new GetBucketLifecycleConfigurationCommand(input)
+      );
+      return response.Rules?.length || undefined;
+    }, "NoSuchLifecycleConfiguration"),
+    readSection(async () => {
+      const response = await client.send(new GetBucketPolicyCommand(input));
+      return response.Policy;
+    }, "NoSuchBucketPolicy"),
+  ]);
+
+  return {
+    bucket,
+    connection,
+    region,
+    versioning,
+    encryption,
+    publicAccessBlock,
+    tags,
+    objectLock,
+    website,
+    cors,
+    lifecycle,
+    policy,
+  };
+}
+
+// Undefined values and the given "not configured" error code both mean the
+// setting is not set; NotImplemented means the service lacks the API
+async function readSection<T>(
+  read: () => Promise<T | undefined>,
+  notSetCode?: string
+): Promise<BucketSection<T>> {
+  try {
+    const value = await read();
+    return value === undefined ? { state: "notSet" } : { state: "set", value };
+  } catch (error: any) {
+    const code = error.code || error.name;
+    if (code === notSetCode) {
+      return { state: "notSet" };
+    }
+    if (code === "NotImplemented" || error.$metadata?.httpStatusCode === 501) {
+      return { state: "unsupported" };
+    }
+    return { state: "error", message: error.message || String(error) };
+  }
+}
+
+/**
+ * Delete everything in a bucket: every version and delete marker if
+ * versioning was ever enabled, otherwise the objects, then incomplete
+ * multipart uploads. Failed keys are collected rather than stopping early,
+ * and cancellation is checked between delete batches.
+ */
+export async function emptyBucket(
+  bucket: string,
+  connection?: string,
+  onProgress?: (message: string, percentage: number) => void,
+  isCancelled: () => boolean = () => false
+): Promise<{ deleted: number; errors: ObjectOperationError[] }> {
+  const report = (noun: string) => (processed: number, total: number) =>
+    onProgress?.(
+      `Deleted ${processed} of ${total} ${noun}`,
+      Math.round((processed / total) * 100)
+    );
+  let result: DeleteObjectsResult | undefined;
+
+  // Deleting the current keys of a versioned bucket would only add a delete
+  // marker to each, so remove every version and marker directly instead
+  if (await isVersioned(bucket, connection)) {
+    onProgress?.("Listing versions...", 0);
+    const versions = await listObjectVersions(
+      bucket,
+      undefined,
+      undefined,
+      connection
+    );
+    if (versions.length > 0 && !isCancelled()) {
+      result = await deleteObjectVersions(
+        bucket,
+        versions,
+        connection,
+        report("versions"),
+        isCancelled
+      );
+    }
+  } else {
+    onProgress?.("Listing objects...", 0);
+    const objects = await listObjectsRecursive(bucket, undefined, connection);
+    if (objects.length > 0 && !isCancelled()) {
+      result = await deleteObjects(
+        bucket,
+        objects.map((object) => object.key),
+        connection,
+        report("objects"),
+        isCancelled
+      );
+    }
+  }
+
+  const deleted = result?.deleted.length ?? 0;
+  const errors: ObjectOperationError[] = [...(result?.errors ?? [])];
+
+  if (!isCancelled()) {
+    onProgress?.("Aborting incomplete uploads...", 100);
+    const uploads = await listIncompleteUploads(bucket, connection);
+    await mapWithConcurrency(uploads, ABORT_CONCURRENCY, async (upload) => {
+      if (isCancelled()) {
+        return;
+      }
+      try {
+        await getS3Client(connection).send(
+          new AbortMultipartUploadCommand({
+            Bucket: bucket,
+            Key: upload.key,
+            UploadId: upload.uploadId,
+          })
+        );
+      } catch (error: any) {
+        errors.push({
+          key: upload.key,
+          code: error.code || error.name,
+          message: `Failed to abort upload: ${error.message}`,
+        });
+      }
+    });
+  }
+
+  return { deleted, errors };
+}
+
+// Buckets that never had versioning report no status. Services without
+// versioning support are treated the same.
+async function isVersioned(
+  bucket: string,
+  connection?: string
+): Promise<boolean> {
+  try {
+    const response = await getS3Client(connection).send(
+      new GetBucketVersioningCommand({ Bucket: bucket })
+    );
+    return response.Status === "Enabled" || response.Status === "Suspended";
+  } catch {
+    return false;
+  }
+}
+
+async function listIncompleteUploads(
+  bucket: string,
+  connection?: string
+): Promise<Array<{ key: string; uploadId: string }>> {
+  const uploads: Array<{ key: string; uploadId: string }> = [];
+  let keyMarker: string | undefined;
+  let uploadIdMarker: string | undefined;
+
+  do {
+    const response = await withRetry(async () => {
+      try {
+        return await getS3Client(connection).send(
+          new ListMultipartUploadsCommand({
+            Bucket: bucket,
+            KeyMarker: keyMarker,
+            UploadIdMarker: uploadIdMarker,
+          })
+        );
+      } catch (error: any) {
+        throw new S3Error(
+          `Failed to list multipart uploads in '${bucket}': ${error.message}`,
+          error.code,
+          error.$metadata?.httpStatusCode,
+          S3Error.isRetryable(error)
+        );
+      }
+    });
+
+    for (const upload of response.Uploads || []) {
+      uploads.push({ key: upload.Key!, uploadId: upload.UploadId! });
+    }
+
+    keyMarker = response.IsTruncated ? response.NextKeyMarker : undefined;
+    uploadIdMarker = response.NextUploadIdMarker;
+  } while (keyMarker);
+
+  return uploads;
+}
@@ -1,23 +1,171 @@
 import { S3Client, S3ClientConfig } from "@aws-sdk/client-s3";
+import { fromEnv, fromIni, fromProcess } from "@aws-sdk/credential-providers";
 import * as vscode from "vscode";
-import { S3Config, S3Error } from "../types";
+import {
+  CredentialSource,
+  S3Config,
+  S3ConnectionSettings,
+  S3Error,
+} from "../types";
+import {
+  getSecretAccessKey,
+  getSessionToken,
+  storeSecretAccessKey,
+  storeSessionToken,
+} from "./secrets";
+import {
+  TemporaryCredentials,
+  createAssumeRoleProvider,
+} from "../util/credentials";
 
-let cachedClient: S3Client | null = null;
-let cachedConfig: S3Config | null = null;
+// Clients are cached per connection; the unnamed default connection (the
+// flat s3x.* settings) is stored under the empty string
+const cachedClients = new Map<string, { client: S3Client; config: S3Config }>();
 
-export function getConfig(): S3Config {
+export function getConnections(): S3ConnectionSettings[] {
   const config = vscode.workspace.getConfiguration("s3x");
+  const connections = config.get<S3ConnectionSettings[]>("connections", []);
+
+  return (connections || []).filter(
+    (connection) => connection && isValidConnectionName(connection.name)
+  );
+}
+
+/**
+ * The settings scope a connection is saved in. A workspace list replaces
+ * the user list rather than merging with it, so a connection found there
+ * is edited there.
+ */
+export function getConnectionTarget(
+  connection: string
+): vscode.ConfigurationTarget {
+  const inspected = vscode.workspace
+    .getConfiguration("s3x")
+    .inspect<S3ConnectionSettings[]>("connections");
+
+  return inspected?.workspaceValue?.some((c) => c?.name === connection)
+    ? vscode.ConfigurationTarget.Workspace
+    : vscode.ConfigurationTarget.Global;
+}
+
+/**
+ * Edit the s3x.connections list saved in one settings scope (user settings
+ * by default). Only that scope is written, and entries the edit leaves
+ * alone, including ones that are not valid connections, are kept as is.
+ */
+export async function editConnections(
+  edit: (connections: S3ConnectionSettings[]) => S3ConnectionSettings[],
+  target = vscode.ConfigurationTarget.Global
+): Promise<void> {
+  const config = vscode.workspace.getConfiguration("s3x");
+  const inspected = config.inspect<S3ConnectionSettings[]>("connections");
+  const current =
+    target === vscode.ConfigurationTarget.Workspace
+      ? inspected?.workspaceValue
+      : inspected?.globalValue;
+
+  await config.update("connections", edit([...(current || [])]), target);
+}
+
+// Gitignore-style patterns left out of folder uploads and syncs
+export function getUploadExcludes(): string[] {
+  const config = vscode.workspace.getConfiguration("s3x");
+  return [...config.get<string[]>("uploadExclude", [".git/", ".DS_Store"])];
+}
+
+export function isValidConnectionName(name: string): boolean {
+  // Connection names end up in s3x:// URIs, so keep them URI-safe
+  return !!name && /^[A-Za-z0-9_.-]+$/.test(name);
+}
+
+export function getConfig(connection?: string): S3Config {
+  const config = vscode.workspace.getConfiguration("s3x");
+  const maxPreviewSizeBytes = config.get<number>(
+    "maxPreviewSizeBytes",
+    10485760
+  );
+
+  if (!connection) {
+    return {
+      endpointUrl: config.get<string>("endpointUrl", ""),
+      region: config.get<string>("region", "us-east-1"),
+      accessKeyId: config.get<string>("accessKeyId", ""),
+      secretAccessKey: getSecretAccessKey() || "",
+      forcePathStyle: config.get<boolean>("forcePathStyle", true),
+      maxPreviewSizeBytes,
+      credentialSource: config.get<CredentialSource>(
+        "credentialSource",
+        "settings"
+      ),
+      awsProfile: config.get<string>("awsProfile", "") || undefined,
+      sessionToken: getSessionToken(),
+      roleArn: config.get<string>("roleArn", "") || undefined,
+      externalId: config.get<string>("externalId", "") || undefined,
+      mfaSerial: config.get<string>("mfaSerial", "") || undefined,
+      stsEndpoint: config.get<string>("stsEndpoint", "") || undefined,
+    };
+  }
+
+  const settings = getConnections().find((c) => c.name === connection);
+  if (!settings) {
+    throw new S3Error(`Connection '${connection}' is not configured`);
+  }
 
   return {
-    endpointUrl: config.get<string>("endpointUrl", ""),
-    region: config.get<string>("region", "us-east-1"),
-    accessKeyId: config.get<string>("accessKeyId", ""),
-    secretAccessKey: config.get<string>("secretAccessKey", ""),
-    forcePathStyle: config.get<boolean>("forcePathStyle", true),
-    maxPreviewSizeBytes: config.get<number>("maxPreviewSizeBytes", 10485760),
+    endpointUrl: settings.endpointUrl || "",
+    region: settings.region || "us-east-1",
+    accessKeyId: settings.accessKeyId || "",
+    secretAccessKey: getSecretAccessKey(connection) || "",
+    forcePathStyle: settings.forcePathStyle ?? true,
+    maxPreviewSizeBytes,
+    credentialSource: settings.credentialSource || "settings",
+    awsProfile: settings.awsProfile || undefined,
+    sessionToken: getSessionToken(connection),
+    roleArn: settings.roleArn || undefined,
+    externalId: settings.externalId || undefined,
+    mfaSerial: settings.mfaSerial || undefined,
+    stsEndpoint: settings.stsEndpoint || undefined,
   };
 }
 
+/**
+ * Save credentials for a connection. The access key ID stays in settings,
+ * the secret goes to SecretStorage.
+ */
+export async function updateCredentials(
+  connection: string | undefined,
+  credentials: {
+    accessKeyId: string;
+    secretAccessKey: string;
+    sessionToken?: string;
+  }
+): Promise<void> {
+  const config = vscode.workspace.getConfiguration("s3x");
+
+  await storeSecretAccessKey(connection, credentials.secretAccessKey);
+  await storeSessionToken(connection, credentials.sessionToken);
+
+  if (!connection) {
+    await config.update(
+      "accessKeyId",
+      credentials.accessKeyId,
+      vscode.ConfigurationTarget.Global
+    );
+  } else {
+    await editConnections(
+      (connections) =>
+        connections.map((c) =>
+          c && c.name === connection
+            ? { ...c, accessKeyId: credentials.accessKeyId }
+            : c
+        ),
+      getConnectionTarget(connection)
+    );
+  }
+
+  clearClientCache(connection);
+}
+
 export function validateConfig(config: S3Config): string[] {
   const errors: string[] = [];
 
@@ -25,21 +173,137 @@ export function validateConfig(config: S3Config): string[] {
     errors.push("Endpoint URL is required");
   }
 
-  if (!config.accessKeyId) {
-    errors.push("Access Key ID is required");
-  }
+  // Other credential sources are resolved by the SDK when first needed
+  if (usesSettingsCredentials(config)) {
+    if (!config.accessKeyId) {
+      errors.push("Access Key ID is required");
+    }
 
-  if (!config.secretAccessKey) {
-    errors.push("Secret Access Key is required");
+    if (!config.secretAccessKey) {
+      errors.push("Secret Access Key is required");
+    }
   }
 
   if (config.endpointUrl && !isValidUrl(config.endpointUrl)) {
     errors.push("Endpoint URL must be a valid HTTPS URL");
   }
 
+  if (config.roleArn && !config.roleArn.startsWith("arn:")) {
+    errors.push("Role ARN must start with 'arn:'");
+  }
+
+  if (config.mfaSerial && !config.roleArn) {
+    errors.push("MFA serial requires a Role ARN");
+  }
+
+  if (config.stsEndpoint && !isValidUrl(config.stsEndpoint)) {
+    errors.push("STS endpoint must be a valid URL");
+  }
+
   return errors;
 }
 
+export function usesSettingsCredentials(config: S3Config): boolean {
+  return (config.credentialSource || "settings") === "settings";
+}
+
+function createCredentials(config: S3Config): S3ClientConfig["credentials"] {
+  const baseCredentials = createBaseCredentials(config);
+  if (!config.roleArn) {
+    return baseCredentials;
+  }
+
+  // Assume the role on top of the base credentials; the provider refreshes
+  // the temporary credentials before they expire
+  const assumeRole = createAssumeRoleProvider({
+    roleArn: config.roleArn,
+    externalId: config.externalId,
+    mfaSerial: config.mfaSerial,
+    region: config.region,
+    stsEndpoint: config.stsEndpoint,
+    masterCredentials: baseCredentials,
+    mfaCodeProvider: promptForMfaCode,
+  });
+
+  return async () => {
+    try {
+      return await assumeRole();
+    } catch (error: any) {
+      throw new S3Error(
+        `Session expired and could not be refreshed: ${error.message}`,
+        "SessionExpired",
+        undefined,
+        false
+      );
+    }
+  };
+}
+
+async function promptForMfaCode(mfaSerial: string): Promise<string> {
+  const code = await vscode.window.showInputBox({
+    title: "MFA Code",
+    prompt: `Enter the MFA code for ${mfaSerial}`,
+    ignoreFocusOut: true,
+    validateInput: (value) =>
+      /^\d{6}$/.test(value) ? undefined : "Enter the 6-digit code",
+  });
+
+  if (!code) {
+    throw new Error("MFA code is required to assume the role");
+  }
+
+  return code;
+}
+
+function createBaseCredentials(
+  config: S3Config
+): TemporaryCredentials | (() => Promise<TemporaryCredentials>) {
+  const source = config.credentialSource || "settings";
+  const profile = config.awsProfile || undefined;
+
+  switch (source) {
+    case "env":
+      return withCredentialSourceError(fromEnv(), "environment variables");
+    case "sharedConfig":
+      return withCredentialSourceError(
+        fromIni({ profile }),
+        `AWS profile '${profile || process.env.AWS_PROFILE || "default"}'`
+      );
+    case "process":
+      return withCredentialSourceError(
+        fromProcess({ profile }),
+        `credential_process of AWS profile '${
+          profile || process.env.AWS_PROFILE || "default"
+        }'`
+      );
+    default:
+      return {
+        accessKeyId: config.accessKeyId,
+        secretAccessKey: config.secretAccessKey,
+        sessionToken: config.sessionToken,
+      };
+  }
+}
+
+// The SDK's provider errors don't say which source was tried
+function withCredentialSourceError<T>(
+  provider: () => Promise<T>,
+  description: string
+): () => Promise<T> {
+  return async () => {
+    try {
+      return await provider();
+    } catch (error: any) {
+      throw new S3Error(
+        `Could not load credentials from ${description}: ${error.message}`,
+        "CredentialsProviderError",
+        undefined,
+        false
+      );
+    }
+  };
+}
+
 function isValidUrl(url: string): boolean {
   try {
     const parsed = new URL(url);
@@ -49,23 +313,27 @@ function isValidUrl(url: string): boolean {
   }
 }
 
-export function getS3Client(forceNew = false): S3Client {
-  const currentConfig = getConfig();
+export function getS3Client(connection?: string, forceNew = false): S3Client {
+  const currentConfig = getConfig(connection);
 
   // Validate configuration
   const configErrors = validateConfig(currentConfig);
   if (configErrors.length > 0) {
-    throw new S3Error(`Configuration invalid: ${configErrors.join(", ")}`);
+    throw new S3Error(
+      connection
+        ? `Configuration invalid for connection '${connection}': ${configErrors.join(", ")}`
+        : `Configuration invalid: ${configErrors.join(", ")}`
+    );
   }
 
   // Return cached client if config hasn't changed
-  if (
-    !forceNew &&
-    cachedClient &&
-    cachedConfig &&
-    configsEqual(currentConfig, cachedConfig)
-  ) {
-    return cachedClient;
+  const cached = cachedClients.get(connection || "");
+  if (!forceNew && cached && configsEqual(currentConfig, cached.config)) {
+    return cached.client;
+  }
+
+  if (cached) {
+    cached.client.destroy();
   }
 
   // Create new client
@@ -73,10 +341,8 @@ export function getS3Client(forceNew = false): S3Client {
     region: currentConfig.region,
     endpoint: currentConfig.endpointUrl,
     forcePathStyle: currentConfig.forcePathStyle,
-    credentials: {
-      accessKeyId: currentConfig.accessKeyId,
-      secretAccessKey: currentConfig.secretAccessKey,
-    },
+    // Resolved lazily by the SDK on the first request
+    credentials: createCredentials(currentConfig),
     // Configure for better R2 compatibility
     maxAttempts: 3,
     requestHandler: {
@@ -85,10 +351,10 @@ export function getS3Client(forceNew = false): S3Client {
     },
   };
 
-  cachedClient = new S3Client(clientConfig);
-  cachedConfig = { ...currentConfig };
+  const client = new S3Client(clientConfig);
+  cachedClients.set(connection || "", { client, config: { ...currentConfig } });
 
-  return cachedClient;
+  return client;
 }
 
 function configsEqual(a: S3Config, b: S3Config): boolean {
@@ -97,20 +363,28 @@ function configsEqual(a: S3Config, b: S3Config): boolean {
     a.region === b.region &&
     a.accessKeyId === b.accessKeyId &&
     a.secretAccessKey === b.secretAccessKey &&
-    a.forcePathStyle === b.forcePathStyle
+    a.forcePathStyle === b.forcePathStyle &&
+    a.credentialSource === b.credentialSource &&
+    a.awsProfile === b.awsProfile &&
+    a.sessionToken === b.sessionToken &&
+    a.roleArn === b.roleArn &&
+    a.externalId === b.externalId &&
+    a.mfaSerial === b.mfaSerial &&
+    a.stsEndpoint === b.stsEndpoint
   );
 }
 
-export function clearClientCache(): void {
-  if (cachedClient) {
-    cachedClient.destroy();
-    cachedClient = null;
-    cachedConfig = null;
+export function clearClientCache(connection?: string): void {
+  for (const [name, cached] of cachedClients.entries()) {
+    if (connection === undefined || name === connection) {
+      cached.client.destroy();
+      cachedClients.delete(name);
+    }
   }
 }
 
-export async function testConnection(): Promise<void> {
-  const client = getS3Client();
+export async function testConnection(connection?: string): Promise<void> {
+  const client = getS3Client(connection);
 
   try {
     // Import here to avoid circular dependencies
@@ -121,6 +395,15 @@ export async function testConnection(): Promise<void> {
       throw new S3Error("Invalid response from S3 service - no buckets array");
     }
   } catch (error: any) {
+    if (S3Error.isSessionExpired(error)) {
+      throw new S3Error(
+        `Session expired. Re-authenticate to continue. ${error.message}`,
+        "SessionExpired",
+        error.$metadata?.httpStatusCode,
+        false
+      );
+    }
+
     if (S3Error.isAuthError(error)) {
       throw new S3Error(
         "Authentication failed. Please check your access credentials.",
@@ -132,7 +415,7 @@ export async function testConnection(): Promise<void> {
 
     if (error.code === "NetworkingError" || error.code === "ENOTFOUND") {
       throw new S3Error(
-        `Cannot connect to endpoint: ${getConfig().endpointUrl
+        `Cannot connect to endpoint: ${getConfig(connection).endpointUrl
         }. Please verify the URL is correct.`,
         error.code,
         undefined,
@@ -0,0 +1,160 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { listObjectsRecursive } from "./listing";
+import {
+  abortMultipartUpload,
+  copyObject,
+  discardDownload,
+  downloadFile,
+  getObjectMetadata,
+  uploadFile,
+} from "./ops";
+import { getPendingDownload, getPendingUpload } from "./transferState";
+import { ObjectOperationError } from "../types";
+import { mapWithConcurrency } from "../util/concurrency";
+import {
+  compareListings,
+  DriftEntry,
+  DriftReport,
+  PrefixLocation,
+} from "../util/drift";
+import { joinPath } from "../util/paths";
+
+const DRIFT_COPY_CONCURRENCY = 4;
+
+/**
+ * List both prefixes in full and classify every key
+ */
+export async function buildDriftReport(
+  left: PrefixLocation,
+  right: PrefixLocation
+): Promise<DriftReport> {
+  const [leftObjects, rightObjects] = await Promise.all([
+    listObjectsRecursive(
+      left.bucket,
+      left.prefix || undefined,
+      left.connection
+    ),
+    listObjectsRecursive(
+      right.bucket,
+      right.prefix || undefined,
+      right.connection
+    ),
+  ]);
+
+  return {
+    left,
+    right,
+    entries: compareListings(
+      leftObjects,
+      left.prefix,
+      rightObjects,
+      right.prefix
+    ),
+  };
+}
+
+/**
+ * Copy entries from one side of a report to the other, overwriting what is
+ * there. Within a connection the copy is server-side; across connections
+ * each object is relayed through a temporary file, keeping its content type
+ * and metadata.
+ */
+export async function copyDriftEntries(
+  report: DriftReport,
+  entries: DriftEntry[],
+  to: "left" | "right",
+  onProgress?: (completed: number, total: number) => void,
+  isCancelled: () => boolean = () => false
+): Promise<{ completed: number; errors: ObjectOperationError[] }> {
+  const source = to === "right" ? report.left : report.right;
+  const target = to === "right" ? report.right : report.left;
+  const errors: ObjectOperationError[] = [];
+  let completed = 0;
+
+  await mapWithConcurrency(entries, DRIFT_COPY_CONCURRENCY, async (entry) => {
+    const object = to === "right" ? entry.left : entry.right;
+    if (isCancelled() || !object) {
+      return;
+    }
+
+    const targetKey = joinPath(target.prefix, entry.relativePath);
+
+    try {
+      if (source.connection === target.connection) {
+        await copyObject(
+          source.bucket,
+          object.key,
+          target.bucket,
+          targetKey,
+          source.connection,
+          object.size
+        );
+      } else {
+        await relayObject(source, object.key, target, targetKey);
+      }
+      completed++;
+    } catch (error) {
+      errors.push({
+        key: entry.relativePath,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+    onProgress?.(completed + errors.length, entries.length);
+  });
+
+  return { completed, errors };
+}
+
+async function relayObject(
+  source: PrefixLocation,
+  sourceKey: string,
+  target: PrefixLocation,
+  targetKey: string
+): Promise<void> {
+  const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "s3x-"));
+  const tempFile = path.join(tempDir, "object");
+
+  try {
+    const { contentType, metadata } = await getObjectMetadata(
+      source.bucket,
+      sourceKey,
+      source.connection
+    );
+
+    await downloadFile(
+      source.bucket,
+      sourceKey,
+      tempFile,
+      undefined,
+      source.connection
+    );
+    await uploadFile(
+      target.bucket,
+      targetKey,
+      tempFile,
+      undefined,
+      target.connection,
+      contentType,
+      metadata
+    );
+  } catch (error) {
+    // The temporary file is gone, so there is nothing left to resume
+    const download = getPendingDownload(tempFile);
+    if (download) {
+      await discardDownload(download);
+    }
+    const upload = getPendingUpload(
+      target.connection,
+      target.bucket,
+      targetKey
+    );
+    if (upload) {
+      await abortMultipartUpload(upload);
+    }
+    throw error;
+  } finally {
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  }
+}
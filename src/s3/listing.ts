@@ -3,11 +3,13 @@ import {
   ListObjectsV2Command,
   ListObjectsV2CommandInput,
   ListObjectsV2CommandOutput,
+  ListObjectVersionsCommand,
 } from "@aws-sdk/client-s3";
 import { getS3Client, withRetry } from "./client";
 import {
   S3Bucket,
   S3Object,
+  S3ObjectVersion,
   S3Prefix,
   ListObjectsResult,
   S3Error,
@@ -15,9 +17,9 @@ import {
 
 const MAX_KEYS_PER_REQUEST = 1000;
 
-export async function listBuckets(): Promise<S3Bucket[]> {
+export async function listBuckets(connection?: string): Promise<S3Bucket[]> {
   return withRetry(async () => {
-    const client = getS3Client();
+    const client = getS3Client(connection);
     const command = new ListBucketsCommand({});
 
     try {
@@ -42,10 +44,11 @@ export async function listObjects(
   bucket: string,
   prefix?: string,
   continuationToken?: string,
-  maxKeys: number = MAX_KEYS_PER_REQUEST
+  maxKeys: number = MAX_KEYS_PER_REQUEST,
+  connection?: string
 ): Promise<ListObjectsResult> {
   return withRetry(async () => {
-    const client = getS3Client();
+    const client = getS3Client(connection);
 
     const input: ListObjectsV2CommandInput = {
       Bucket: bucket,
@@ -110,7 +113,8 @@ export async function listObjects(
 export async function listAllObjects(
   bucket: string,
   prefix?: string,
-  maxObjects?: number
+  maxObjects?: number,
+  connection?: string
 ): Promise<S3Object[]> {
   const allObjects: S3Object[] = [];
   let continuationToken: string | undefined;
@@ -125,7 +129,8 @@ export async function listAllObjects(
       bucket,
       prefix,
       continuationToken,
-      batchSize
+      batchSize,
+      connection
     );
 
     allObjects.push(...result.objects);
@@ -141,20 +146,224 @@ export async function listAllObjects(
   return allObjects;
 }
 
+/**
+ * List the keys of all objects and prefixes directly below a prefix,
+ * across every page
+ */
+export async function listChildKeys(
+  bucket: string,
+  prefix?: string,
+  connection?: string
+): Promise<string[]> {
+  const keys: string[] = [];
+  let continuationToken: string | undefined;
+
+  do {
+    const result = await listObjects(
+      bucket,
+      prefix,
+      continuationToken,
+      MAX_KEYS_PER_REQUEST,
+      connection
+    );
+
+    keys.push(...result.objects.map((obj) => obj.key));
+    keys.push(...result.prefixes.map((p) => p.prefix));
+    continuationToken = result.continuationToken;
+  } while (continuationToken);
+
+  return keys;
+}
+
+/**
+ * List every object below a prefix, including nested prefixes and folder
+ * marker objects, by paging through ListObjectsV2 without a delimiter
+ */
+export async function listObjectsRecursive(
+  bucket: string,
+  prefix?: string,
+  connection?: string
+): Promise<S3Object[]> {
+  const allObjects: S3Object[] = [];
+  let continuationToken: string | undefined;
+
+  do {
+    const response = await withRetry(async () => {
+      const client = getS3Client(connection);
+
+      try {
+        return await client.send(
+          new ListObjectsV2Command({
+            Bucket: bucket,
+            Prefix: prefix || undefined,
+            MaxKeys: MAX_KEYS_PER_REQUEST,
+            ContinuationToken: continuationToken,
+          })
+        );
+      } catch (error: any) {
+        throw new S3Error(
+          `Failed to list objects in bucket '${bucket}': ${error.message}`,
+          error.code,
+          error.$metadata?.httpStatusCode,
+          S3Error.isRetryable(error)
+        );
+      }
+    });
+
+    for (const obj of response.Contents || []) {
+      allObjects.push({
+        key: obj.Key!,
+        size: obj.Size,
+        lastModified: obj.LastModified,
+        etag: obj.ETag,
+        storageClass: obj.StorageClass,
+      });
+    }
+
+    continuationToken = response.IsTruncated
+      ? response.NextContinuationToken
+      : undefined;
+  } while (continuationToken);
+
+  return allObjects;
+}
+
+/**
+ * List versions and delete markers below a prefix, newest first for each
+ * key. Stops after maxVersions entries when given.
+ */
+export async function listObjectVersions(
+  bucket: string,
+  prefix?: string,
+  maxVersions?: number,
+  connection?: string
+): Promise<S3ObjectVersion[]> {
+  return listVersions(bucket, prefix, undefined, maxVersions, connection);
+}
+
+/**
+ * List the versions and delete markers of one key, newest first. Longer
+ * keys that share it as a prefix (such as "file.txt.bak") are skipped and
+ * do not count towards maxVersions.
+ */
+export async function listKeyVersions(
+  bucket: string,
+  key: string,
+  maxVersions?: number,
+  connection?: string
+): Promise<S3ObjectVersion[]> {
+  return listVersions(bucket, key, key, maxVersions, connection);
+}
+
+async function listVersions(
+  bucket: string,
+  prefix: string | undefined,
+  exactKey: string | undefined,
+  maxVersions?: number,
+  connection?: string
+): Promise<S3ObjectVersion[]> {
+  const versions: S3ObjectVersion[] = [];
+  let keyMarker: string | undefined;
+  let versionIdMarker: string | undefined;
+
+  do {
+    const response = await withRetry(async () => {
+      const client = getS3Client(connection);
+
+      try {
+        return await client.send(
+          new ListObjectVersionsCommand({
+            Bucket: bucket,
+            Prefix: prefix || undefined,
+            MaxKeys: MAX_KEYS_PER_REQUEST,
+            KeyMarker: keyMarker,
+            VersionIdMarker: versionIdMarker,
+          })
+        );
+      } catch (error: any) {
+        throw new S3Error(
+          `Failed to list versions in bucket '${bucket}': ${error.message}`,
+          error.code,
+          error.$metadata?.httpStatusCode,
+          S3Error.isRetryable(error)
+        );
+      }
+    });
+
+    const page: S3ObjectVersion[] = [
+      ...(response.Versions || []).map((version) => ({
+        key: version.Key!,
+        versionId: version.VersionId || "null",
+        isLatest: version.IsLatest || false,
+        isDeleteMarker: false,
+        size: version.Size,
+        lastModified: version.LastModified,
+        etag: version.ETag,
+        storageClass: version.StorageClass,
+      })),
+      ...(response.DeleteMarkers || []).map((marker) => ({
+        key: marker.Key!,
+        versionId: marker.VersionId || "null",
+        isLatest: marker.IsLatest || false,
+        isDeleteMarker: true,
+        lastModified: marker.LastModified,
+      })),
+    ];
+    const matching =
+      exactKey === undefined
+        ? page
+        : page.filter((version) => version.key === exactKey);
+    versions.push(...matching);
+
+    if (maxVersions && versions.length >= maxVersions) {
+      break;
+    }
+    // A key sorts before the longer keys it prefixes, so once those show up
+    // all of its versions have been listed
+    if (matching.length < page.length) {
+      break;
+    }
+
+    keyMarker = response.IsTruncated ? response.NextKeyMarker : undefined;
+    versionIdMarker = response.NextVersionIdMarker;
+  } while (keyMarker);
+
+  // Versions and delete markers come back in separate lists
+  return versions
+    .sort(
+      (a, b) =>
+        a.key.localeCompare(b.key) ||
+        (b.lastModified?.getTime() ?? 0) - (a.lastModified?.getTime() ?? 0) ||
+        Number(b.isLatest) - Number(a.isLatest)
+    )
+    .slice(0, maxVersions);
+}
+
 export async function searchObjects(
   bucket: string,
   searchPrefix?: string,
   contains?: string,
-  maxResults: number = 1000
+  maxResults: number = 1000,
+  connection?: string
 ): Promise<S3Object[]> {
   let allObjects: S3Object[];
 
   if (searchPrefix) {
     // Use server-side prefix filtering
-    allObjects = await listAllObjects(bucket, searchPrefix, maxResults);
+    allObjects = await listAllObjects(
+      bucket,
+      searchPrefix,
+      maxResults,
+      connection
+    );
   } else {
     // Get all objects in bucket (up to maxResults)
-    allObjects = await listAllObjects(bucket, undefined, maxResults);
+    allObjects = await listAllObjects(
+      bucket,
+      undefined,
+      maxResults,
+      connection
+    );
   }
 
   // Apply client-side "contains" filter if specified
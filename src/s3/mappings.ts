@@ -0,0 +1,187 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { getConnections } from "./client";
+import { isValidBucketName } from "./listing";
+import { RemoteFolderMapping } from "../types";
+import { isValidS3Key } from "../util/paths";
+
+export const MAPPINGS_FILE = ".vscode/s3x.json";
+
+let mappings: RemoteFolderMapping[] = [];
+
+/**
+ * Check the contents of one s3x.json. Invalid entries are reported and
+ * left out rather than failing the whole file.
+ */
+export function validateMappings(
+  config: any,
+  workspaceRoot: string,
+  connectionNames: string[]
+): { mappings: RemoteFolderMapping[]; errors: string[] } {
+  const valid: RemoteFolderMapping[] = [];
+  const errors: string[] = [];
+
+  if (!config || !Array.isArray(config.mappings)) {
+    return { mappings: valid, errors: ['Expected a "mappings" array'] };
+  }
+
+  config.mappings.forEach((entry: any, index: number) => {
+    const where = `mappings[${index}]`;
+    const local = typeof entry?.local === "string" ? entry.local.trim() : "";
+    const bucket = typeof entry?.bucket === "string" ? entry.bucket : "";
+    let prefix = typeof entry?.prefix === "string" ? entry.prefix.trim() : "";
+    if (prefix && !prefix.endsWith("/")) {
+      prefix += "/";
+    }
+
+    const localPath = path.resolve(workspaceRoot, local || ".");
+    const relative = path.relative(workspaceRoot, localPath);
+
+    if (relative.startsWith("..") || path.isAbsolute(relative)) {
+      errors.push(`${where}: "local" must be inside the workspace folder`);
+    } else if (!isValidBucketName(bucket)) {
+      errors.push(`${where}: "${bucket}" is not a valid bucket name`);
+    } else if (prefix && !isValidS3Key(prefix)) {
+      errors.push(`${where}: "${prefix}" is not a valid prefix`);
+    } else if (
+      entry.connection !== undefined &&
+      !connectionNames.includes(entry.connection)
+    ) {
+      errors.push(`${where}: unknown connection "${entry.connection}"`);
+    } else {
+      valid.push({
+        name: typeof entry.name === "string" ? entry.name : undefined,
+        local: local || ".",
+        localPath,
+        bucket,
+        prefix,
+        connection: entry.connection,
+        autoUpload: entry.autoUpload !== false,
+      });
+    }
+  });
+
+  return { mappings: valid, errors };
+}
+
+/**
+ * Read s3x.json from every workspace folder
+ */
+export async function loadMappings(): Promise<{
+  mappings: RemoteFolderMapping[];
+  errors: string[];
+}> {
+  const loaded: RemoteFolderMapping[] = [];
+  const errors: string[] = [];
+  const connectionNames = getConnections().map((c) => c.name);
+
+  for (const folder of vscode.workspace.workspaceFolders || []) {
+    const uri = vscode.Uri.joinPath(folder.uri, MAPPINGS_FILE);
+
+    let text: string;
+    try {
+      text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString(
+        "utf8"
+      );
+    } catch {
+      continue; // No s3x.json in this folder
+    }
+
+    try {
+      const result = validateMappings(
+        JSON.parse(text),
+        folder.uri.fsPath,
+        connectionNames
+      );
+      loaded.push(...result.mappings);
+      errors.push(
+        ...result.errors.map(
+          (error) => `${folder.name}/${MAPPINGS_FILE}: ${error}`
+        )
+      );
+    } catch (error) {
+      errors.push(
+        `${folder.name}/${MAPPINGS_FILE}: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
+  }
+
+  return { mappings: loaded, errors };
+}
+
+const mappingsChanged = new vscode.EventEmitter<string[]>();
+
+// Fires after every reload with the validation errors, if any
+export const onDidChangeMappings = mappingsChanged.event;
+
+/**
+ * Load mappings now and again whenever an s3x.json or the workspace
+ * folders change
+ */
+export function initializeMappings(): vscode.Disposable {
+  const watcher = vscode.workspace.createFileSystemWatcher(
+    `**/${MAPPINGS_FILE}`
+  );
+  const reload = () => void reloadMappings();
+  const disposables = [
+    watcher,
+    watcher.onDidCreate(reload),
+    watcher.onDidChange(reload),
+    watcher.onDidDelete(reload),
+    vscode.workspace.onDidChangeWorkspaceFolders(reload),
+  ];
+  reload();
+
+  return vscode.Disposable.from(...disposables);
+}
+
+export async function reloadMappings(): Promise<void> {
+  const result = await loadMappings();
+  mappings = result.mappings;
+
+  // Drives the Explorer context menu entries
+  await vscode.commands.executeCommand(
+    "setContext",
+    "s3x.mappedFolders",
+    mappings.map((mapping) => mapping.localPath)
+  );
+  mappingsChanged.fire(result.errors);
+}
+
+export function getMappings(): RemoteFolderMapping[] {
+  return mappings;
+}
+
+export function findMapping(
+  localPath: string
+): RemoteFolderMapping | undefined {
+  const target = path.resolve(localPath);
+  return mappings.find((mapping) => mapping.localPath === target);
+}
+
+/**
+ * Find the mapping whose folder contains a file, preferring the most
+ * specific one when mappings are nested
+ */
+export function findMappingForFile(
+  filePath: string
+): RemoteFolderMapping | undefined {
+  const target = path.resolve(filePath);
+
+  return mappings
+    .filter((mapping) => {
+      const relative = path.relative(mapping.localPath, target);
+      return (
+        !!relative && !relative.startsWith("..") && !path.isAbsolute(relative)
+      );
+    })
+    .sort((a, b) => b.localPath.length - a.localPath.length)[0];
+}
+
+export function getMappingId(mapping: RemoteFolderMapping): string {
+  return `${mapping.localPath}|${mapping.connection || ""}|${mapping.bucket}|${
+    mapping.prefix
+  }`;
+}
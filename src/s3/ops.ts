@@ -7,8 +7,11 @@ import {
   HeadObjectCommand,
   CreateMultipartUploadCommand,
   UploadPartCommand,
+  UploadPartCopyCommand,
   CompleteMultipartUploadCommand,
   AbortMultipartUploadCommand,
+  ListPartsCommand,
+  CompletedPart,
   GetObjectCommandInput,
   PutObjectCommandInput,
   DeleteObjectsCommandInput,
@@ -21,18 +24,54 @@ import {
   S3Error,
   MultipartUpload,
   PresignOptions,
+  DeleteObjectsResult,
+  TransferResult,
+  PendingMultipartUpload,
+  PendingDownload,
 } from "../types";
+import { listObjectsRecursive } from "./listing";
+import { forEachBatch, mapWithConcurrency } from "../util/concurrency";
+import { trackLocalWrite } from "../util/localWrites";
+import {
+  UploadedPart,
+  choosePartSize,
+  getPartRanges,
+  getResumableParts,
+} from "../util/multipart";
+import {
+  getPendingUpload,
+  savePendingUpload,
+  removePendingUpload,
+  getPendingDownload,
+  savePendingDownload,
+  removePendingDownload,
+} from "./transferState";
 
 const MULTIPART_THRESHOLD = 100 * 1024 * 1024; // 100MB
 const PART_SIZE = 10 * 1024 * 1024; // 10MB
+const DEFAULT_UPLOAD_CONCURRENCY = 4;
+const DELETE_BATCH_SIZE = 1000; // DeleteObjects accepts at most 1000 keys
+const COPY_CONCURRENCY = 4;
+const COPY_OBJECT_MAX_SIZE = 5 * 1024 * 1024 * 1024; // CopyObject limit, 5GB
+const COPY_PART_SIZE = 512 * 1024 * 1024; // 512MB
+const PARALLEL_DOWNLOAD_THRESHOLD = 256 * 1024 * 1024; // 256MB
+const DOWNLOAD_CHUNK_SIZE = 64 * 1024 * 1024; // 64MB
+const DOWNLOAD_CONCURRENCY = 4;
+const PARTIAL_DOWNLOAD_SUFFIX = ".s3x-partial";
 
 export async function getObject(
   bucket: string,
-  key: string
+  key: string,
+  connection?: string,
+  versionId?: string
 ): Promise<Uint8Array> {
   return withRetry(async () => {
-    const client = getS3Client();
-    const command = new GetObjectCommand({ Bucket: bucket, Key: key });
+    const client = getS3Client(connection);
+    const command = new GetObjectCommand({
+      Bucket: bucket,
+      Key: key,
+      VersionId: versionId,
+    });
 
     try {
       const response = await client.send(command);
@@ -45,37 +84,76 @@ export async function getObject(
       const byteArray = await response.Body.transformToByteArray();
       return new Uint8Array(byteArray);
     } catch (error: any) {
-      // Check for various "not found" error patterns
-      if (
-        error.code === "NoSuchKey" ||
-        error.code === "NotFound" ||
-        error.name === "NoSuchKey" ||
-        error.name === "NotFound" ||
-        error.$metadata?.httpStatusCode === 404
-      ) {
-        throw new S3Error(
-          `Object '${key}' not found in bucket '${bucket}'`,
-          error.code || error.name || "NoSuchKey",
-          error.$metadata?.httpStatusCode,
-          false
-        );
-      }
+      throw toGetObjectError(error, bucket, key);
+    }
+  });
+}
 
-      throw new S3Error(
-        `Failed to get object '${key}': ${error.message}`,
-        error.code,
-        error.$metadata?.httpStatusCode,
-        S3Error.isRetryable(error)
+/**
+ * Open an object's body as a stream instead of buffering it in memory
+ */
+export async function getObjectStream(
+  bucket: string,
+  key: string,
+  connection?: string
+): Promise<{ body: AsyncIterable<Uint8Array>; contentType?: string }> {
+  return withRetry(async () => {
+    const client = getS3Client(connection);
+
+    try {
+      const response = await client.send(
+        new GetObjectCommand({ Bucket: bucket, Key: key })
       );
+
+      if (!response.Body) {
+        throw new S3Error(`Object '${key}' has no content`);
+      }
+
+      return {
+        body: response.Body as AsyncIterable<Uint8Array>,
+        contentType: response.ContentType,
+      };
+    } catch (error: any) {
+      throw toGetObjectError(error, bucket, key);
     }
   });
 }
 
+function toGetObjectError(error: any, bucket: string, key: string): S3Error {
+  if (error instanceof S3Error) {
+    return error;
+  }
+
+  // Check for various "not found" error patterns
+  if (
+    error.code === "NoSuchKey" ||
+    error.code === "NotFound" ||
+    error.name === "NoSuchKey" ||
+    error.name === "NotFound" ||
+    error.$metadata?.httpStatusCode === 404
+  ) {
+    return new S3Error(
+      `Object '${key}' not found in bucket '${bucket}'`,
+      error.code || error.name || "NoSuchKey",
+      error.$metadata?.httpStatusCode,
+      false
+    );
+  }
+
+  return new S3Error(
+    `Failed to get object '${key}': ${error.message}`,
+    error.code,
+    error.$metadata?.httpStatusCode,
+    S3Error.isRetryable(error)
+  );
+}
+
 export async function getObjectAsText(
   bucket: string,
-  key: string
+  key: string,
+  connection?: string
 ): Promise<string> {
-  const data = await getObject(bucket, key);
+  const data = await getObject(bucket, key, connection);
   return new TextDecoder("utf-8").decode(data);
 }
 
@@ -84,10 +162,11 @@ export async function putObject(
   key: string,
   data: Uint8Array | string,
   contentType?: string,
-  metadata?: Record<string, string>
+  metadata?: Record<string, string>,
+  connection?: string
 ): Promise<void> {
   return withRetry(async () => {
-    const client = getS3Client();
+    const client = getS3Client(connection);
 
     const body =
       typeof data === "string" ? new TextEncoder().encode(data) : data;
@@ -113,9 +192,13 @@ export async function putObject(
   });
 }
 
-export async function deleteObject(bucket: string, key: string): Promise<void> {
+export async function deleteObject(
+  bucket: string,
+  key: string,
+  connection?: string
+): Promise<void> {
   return withRetry(async () => {
-    const client = getS3Client();
+    const client = getS3Client(connection);
     const command = new DeleteObjectCommand({ Bucket: bucket, Key: key });
 
     try {
@@ -131,37 +214,29 @@ export async function deleteObject(bucket: string, key: string): Promise<void> {
   });
 }
 
-export async function deleteObjects(
+/**
+ * Permanently delete one version of an object. Deleting a delete marker
+ * brings back the version below it.
+ */
+export async function deleteObjectVersion(
   bucket: string,
-  keys: string[]
+  key: string,
+  versionId: string,
+  connection?: string
 ): Promise<void> {
-  if (keys.length === 0) {
-    return;
-  }
-
   return withRetry(async () => {
-    const client = getS3Client();
-
-    const input: DeleteObjectsCommandInput = {
+    const client = getS3Client(connection);
+    const command = new DeleteObjectCommand({
       Bucket: bucket,
-      Delete: {
-        Objects: keys.map((key) => ({ Key: key })),
-      },
-    };
+      Key: key,
+      VersionId: versionId,
+    });
 
     try {
-      const response = await client.send(new DeleteObjectsCommand(input));
-
-      // Check for errors in the response
-      if (response.Errors && response.Errors.length > 0) {
-        const errorMessages = response.Errors.map(
-          (err) => `${err.Key}: ${err.Message}`
-        ).join(", ");
-        throw new S3Error(`Some objects failed to delete: ${errorMessages}`);
-      }
+      await client.send(command);
     } catch (error: any) {
       throw new S3Error(
-        `Failed to delete objects: ${error.message}`,
+        `Failed to delete version '${versionId}' of '${key}': ${error.message}`,
         error.code,
         error.$metadata?.httpStatusCode,
         S3Error.isRetryable(error)
@@ -170,17 +245,156 @@ export async function deleteObjects(
   });
 }
 
+/**
+ * Delete keys in batches of up to 1000 (the DeleteObjects limit). Keys that
+ * S3 refuses to delete are reported in the result instead of aborting the
+ * remaining batches.
+ */
+export async function deleteObjects(
+  bucket: string,
+  keys: string[],
+  connection?: string,
+  onProgress?: (processed: number, total: number) => void,
+  isCancelled?: () => boolean
+): Promise<DeleteObjectsResult> {
+  return deleteInBatches(
+    bucket,
+    keys.map((key) => ({ key })),
+    connection,
+    onProgress,
+    isCancelled
+  );
+}
+
+/**
+ * Permanently delete specific versions and delete markers, in batches like
+ * deleteObjects
+ */
+export async function deleteObjectVersions(
+  bucket: string,
+  versions: Array<{ key: string; versionId: string }>,
+  connection?: string,
+  onProgress?: (processed: number, total: number) => void,
+  isCancelled?: () => boolean
+): Promise<DeleteObjectsResult> {
+  return deleteInBatches(bucket, versions, connection, onProgress, isCancelled);
+}
+
+async function deleteInBatches(
+  bucket: string,
+  objects: Array<{ key: string; versionId?: string }>,
+  connection?: string,
+  onProgress?: (processed: number, total: number) => void,
+  isCancelled?: () => boolean
+): Promise<DeleteObjectsResult> {
+  const result: DeleteObjectsResult = { deleted: [], errors: [] };
+  const getId = (key: string, versionId?: string) =>
+    versionId ? `${key}?versionId=${versionId}` : key;
+
+  await forEachBatch(
+    objects,
+    DELETE_BATCH_SIZE,
+    async (batch, processed) => {
+      const response = await withRetry(async () => {
+        const client = getS3Client(connection);
+
+        const input: DeleteObjectsCommandInput = {
+          Bucket: bucket,
+          Delete: {
+            Objects: batch.map((object) => ({
+              Key: object.key,
+              VersionId: object.versionId,
+            })),
+          },
+        };
+
+        try {
+          return await client.send(new DeleteObjectsCommand(input));
+        } catch (error: any) {
+          throw new S3Error(
+            `Failed to delete objects: ${error.message}`,
+            error.code,
+            error.$metadata?.httpStatusCode,
+            S3Error.isRetryable(error)
+          );
+        }
+      });
+
+      // Not every S3-compatible service echoes Deleted, so derive it from
+      // the keys that did not fail
+      const failed = new Set<string>();
+      for (const error of response.Errors || []) {
+        failed.add(getId(error.Key || "", error.VersionId));
+        result.errors.push({
+          key: error.Key || "",
+          code: error.Code,
+          message: error.Message || error.Code || "Unknown error",
+        });
+      }
+
+      result.deleted.push(
+        ...batch
+          .filter(
+            (object) => !failed.has(getId(object.key, object.versionId))
+          )
+          .map((object) => object.key)
+      );
+
+      onProgress?.(processed + batch.length, objects.length);
+    },
+    isCancelled
+  );
+
+  return result;
+}
+
+/**
+ * Server-side copy. Sources over 5GB are copied with UploadPartCopy, so the
+ * bytes never pass through the extension host. Pass sourceSize when it is
+ * already known to skip the HeadObject request. Pass sourceVersionId to copy
+ * an older version instead of the latest.
+ */
 export async function copyObject(
   sourceBucket: string,
   sourceKey: string,
   targetBucket: string,
-  targetKey: string
+  targetKey: string,
+  connection?: string,
+  sourceSize?: number,
+  onProgress?: (progress: number) => void,
+  sourceVersionId?: string
 ): Promise<void> {
-  return withRetry(async () => {
-    const client = getS3Client();
+  const size =
+    sourceSize ??
+    (
+      await getObjectMetadata(
+        sourceBucket,
+        sourceKey,
+        connection,
+        sourceVersionId
+      )
+    ).contentLength ??
+    0;
 
+  if (size > COPY_OBJECT_MAX_SIZE) {
+    return copyObjectMultipart(
+      sourceBucket,
+      sourceKey,
+      targetBucket,
+      targetKey,
+      size,
+      connection,
+      onProgress,
+      sourceVersionId
+    );
+  }
+
+  await withRetry(async () => {
+    const client = getS3Client(connection);
+
+    // CopyObject keeps metadata and content type by default
     const command = new CopyObjectCommand({
-      CopySource: `${sourceBucket}/${sourceKey}`,
+      CopySource: encodeCopySource(sourceBucket, sourceKey, sourceVersionId),
       Bucket: targetBucket,
       Key: targetKey,
     });
@@ -196,26 +410,280 @@ export async function copyObject(
       );
     }
   });
+
+  onProgress?.(100);
+}
+
+async function copyObjectMultipart(
+  sourceBucket: string,
+  sourceKey: string,
+  targetBucket: string,
+  targetKey: string,
+  size: number,
+  connection?: string,
+  onProgress?: (progress: number) => void,
+  sourceVersionId?: string
+): Promise<void> {
+  const client = getS3Client(connection);
+  const copySource = encodeCopySource(sourceBucket, sourceKey, sourceVersionId);
+  let uploadId: string | undefined;
+
+  try {
+    // Multipart uploads don't inherit anything from the source, so carry
+    // the headers and user metadata over explicitly
+    const head = await client.send(
+      new HeadObjectCommand({
+        Bucket: sourceBucket,
+        Key: sourceKey,
+        VersionId: sourceVersionId,
+      })
+    );
+
+    const createResponse = await client.send(
+      new CreateMultipartUploadCommand({
+        Bucket: targetBucket,
+        Key: targetKey,
+        ContentType: head.ContentType,
+        ContentEncoding: head.ContentEncoding,
+        ContentDisposition: head.ContentDisposition,
+        ContentLanguage: head.ContentLanguage,
+        CacheControl: head.CacheControl,
+        Metadata: head.Metadata,
+      })
+    );
+    uploadId = createResponse.UploadId!;
+
+    const ranges = getPartRanges(
+      size,
+      choosePartSize(size, COPY_PART_SIZE)
+    );
+    let completed = 0;
+
+    // Parts catch their own errors so that the upload is only aborted once
+    // the parts in flight have finished; parts completing after an abort
+    // would leave orphaned storage behind
+    let failure: unknown;
+    const parts: CompletedPart[] = [];
+
+    await mapWithConcurrency(ranges, COPY_CONCURRENCY, async (range) => {
+      if (failure) {
+        return;
+      }
+
+      try {
+        const response = await withRetry(() =>
+          client.send(
+            new UploadPartCopyCommand({
+              Bucket: targetBucket,
+              Key: targetKey,
+              UploadId: uploadId,
+              PartNumber: range.partNumber,
+              CopySource: copySource,
+              CopySourceRange: `bytes=${range.start}-${range.end}`,
+            })
+          )
+        );
+
+        parts.push({
+          PartNumber: range.partNumber,
+          ETag: response.CopyPartResult!.ETag!,
+        });
+        completed++;
+        onProgress?.(Math.round((completed / ranges.length) * 100));
+      } catch (error) {
+        failure ??= error;
+      }
+    });
+
+    if (failure) {
+      throw failure;
+    }
+
+    await client.send(
+      new CompleteMultipartUploadCommand({
+        Bucket: targetBucket,
+        Key: targetKey,
+        UploadId: uploadId,
+        MultipartUpload: {
+          Parts: parts.sort((a, b) => a.PartNumber! - b.PartNumber!),
+        },
+      })
+    );
+  } catch (error: any) {
+    if (uploadId) {
+      try {
+        await client.send(
+          new AbortMultipartUploadCommand({
+            Bucket: targetBucket,
+            Key: targetKey,
+            UploadId: uploadId,
+          })
+        );
+      } catch (abortError) {
+        console.error("Failed to abort multipart copy:", abortError);
+      }
+    }
+
+    throw new S3Error(
+      `Failed to copy object from '${sourceBucket}/${sourceKey}' to '${targetBucket}/${targetKey}': ${error.message}`,
+      error.code,
+      error.$metadata?.httpStatusCode,
+      false
+    );
+  }
+}
+
+// CopySource must be URL-encoded, but the slashes between segments stay
+function encodeCopySource(
+  bucket: string,
+  key: string,
+  versionId?: string
+): string {
+  const encodedKey = key.split("/").map(encodeURIComponent).join("/");
+  const source = `${bucket}/${encodedKey}`;
+  return versionId
+    ? `${source}?versionId=${encodeURIComponent(versionId)}`
+    : source;
+}
+
+/**
+ * Copy every object below sourcePrefix to the same relative key below
+ * targetPrefix using server-side copies. Failed keys are reported in the
+ * result instead of aborting the rest.
+ */
+export async function copyPrefix(
+  sourceBucket: string,
+  sourcePrefix: string,
+  targetBucket: string,
+  targetPrefix: string,
+  connection?: string,
+  onProgress?: (processed: number, total: number) => void
+): Promise<TransferResult> {
+  const objects = await listObjectsRecursive(
+    sourceBucket,
+    sourcePrefix,
+    connection
+  );
+  const result: TransferResult = { transferred: [], errors: [] };
+  let processed = 0;
+
+  await mapWithConcurrency(objects, COPY_CONCURRENCY, async (object) => {
+    const targetKey = targetPrefix + object.key.substring(sourcePrefix.length);
+
+    try {
+      await copyObject(
+        sourceBucket,
+        object.key,
+        targetBucket,
+        targetKey,
+        connection,
+        object.size
+      );
+      result.transferred.push(object.key);
+    } catch (error: any) {
+      result.errors.push({
+        key: object.key,
+        code: error.code,
+        message: error.message,
+      });
+    }
+
+    onProgress?.(++processed, objects.length);
+  });
+
+  return result;
+}
+
+/**
+ * Move a prefix by copying it and then deleting only the source keys that
+ * were copied successfully
+ */
+export async function movePrefix(
+  sourceBucket: string,
+  sourcePrefix: string,
+  targetBucket: string,
+  targetPrefix: string,
+  connection?: string,
+  onProgress?: (processed: number, total: number) => void
+): Promise<TransferResult> {
+  const copied = await copyPrefix(
+    sourceBucket,
+    sourcePrefix,
+    targetBucket,
+    targetPrefix,
+    connection,
+    onProgress
+  );
+
+  const deleted = await deleteObjects(
+    sourceBucket,
+    copied.transferred,
+    connection
+  );
+
+  return {
+    transferred: deleted.deleted,
+    errors: [...copied.errors, ...deleted.errors],
+  };
 }
 
 export async function moveObject(
   sourceBucket: string,
   sourceKey: string,
   targetBucket: string,
-  targetKey: string
+  targetKey: string,
+  connection?: string,
+  sourceSize?: number,
+  onProgress?: (progress: number) => void
 ): Promise<void> {
   // Copy then delete
-  await copyObject(sourceBucket, sourceKey, targetBucket, targetKey);
-  await deleteObject(sourceBucket, sourceKey);
+  await copyObject(
+    sourceBucket,
+    sourceKey,
+    targetBucket,
+    targetKey,
+    connection,
+    sourceSize,
+    onProgress
+  );
+  await deleteObject(sourceBucket, sourceKey, connection);
+}
+
+/**
+ * Make an older version the latest again by copying it over its own key.
+ * Newer versions are kept in the history.
+ */
+export async function restoreObjectVersion(
+  bucket: string,
+  key: string,
+  versionId: string,
+  connection?: string
+): Promise<void> {
+  await copyObject(
+    bucket,
+    key,
+    bucket,
+    key,
+    connection,
+    undefined,
+    undefined,
+    versionId
+  );
 }
 
 export async function getObjectMetadata(
   bucket: string,
-  key: string
+  key: string,
+  connection?: string,
+  versionId?: string
 ): Promise<S3ObjectMetadata> {
   return withRetry(async () => {
-    const client = getS3Client();
-    const command = new HeadObjectCommand({ Bucket: bucket, Key: key });
+    const client = getS3Client(connection);
+    const command = new HeadObjectCommand({
+      Bucket: bucket,
+      Key: key,
+      VersionId: versionId,
+    });
 
     try {
       const response = await client.send(command);
@@ -228,6 +696,7 @@ export async function getObjectMetadata(
         storageClass: response.StorageClass,
         serverSideEncryption: response.ServerSideEncryption,
         metadata: response.Metadata,
+        tagCount: response.TagCount,
       };
     } catch (error: any) {
       // Check for various "not found" error patterns
@@ -259,10 +728,11 @@ export async function getObjectMetadata(
 export async function generatePresignedUrl(
   bucket: string,
   key: string,
-  options: PresignOptions
+  options: PresignOptions,
+  connection?: string
 ): Promise<string> {
   try {
-    const client = getS3Client();
+    const client = getS3Client(connection);
     const command = new GetObjectCommand({ Bucket: bucket, Key: key });
 
     return await getSignedUrl(client, command, {
@@ -282,23 +752,51 @@ export async function uploadFile(
   bucket: string,
   key: string,
   filePath: string,
-  onProgress?: (progress: number) => void
+  onProgress?: (progress: number) => void,
+  connection?: string,
+  contentType?: string,
+  metadata?: Record<string, string>
 ): Promise<void> {
   const fs = await import("fs");
   const stat = await fs.promises.stat(filePath);
 
   if (stat.size > MULTIPART_THRESHOLD) {
-    return uploadFileMultipart(bucket, key, filePath, onProgress);
-  } else {
-    return uploadFileSimple(bucket, key, filePath, onProgress);
+    return uploadFileMultipart(
+      bucket,
+      key,
+      filePath,
+      onProgress,
+      connection,
+      contentType,
+      metadata
+    );
   }
+
+  // The file shrank below the threshold since an earlier attempt
+  const stale = getPendingUpload(connection, bucket, key);
+  if (stale) {
+    await abortMultipartUpload(stale);
+  }
+
+  return uploadFileSimple(
+    bucket,
+    key,
+    filePath,
+    onProgress,
+    connection,
+    contentType,
+    metadata
+  );
 }
 
 async function uploadFileSimple(
   bucket: string,
   key: string,
   filePath: string,
-  onProgress?: (progress: number) => void
+  onProgress?: (progress: number) => void,
+  connection?: string,
+  contentType?: string,
+  metadata?: Record<string, string>
 ): Promise<void> {
   const fs = await import("fs");
   const data = await fs.promises.readFile(filePath);
@@ -307,7 +805,14 @@ async function uploadFileSimple(
     onProgress(50);
   }
 
-  await putObject(bucket, key, data, guessContentType(key));
+  await putObject(
+    bucket,
+    key,
+    data,
+    contentType || guessContentType(key),
+    metadata,
+    connection
+  );
 
   if (onProgress) {
     onProgress(100);
@@ -318,90 +823,141 @@ async function uploadFileMultipart(
   bucket: string,
   key: string,
   filePath: string,
-  onProgress?: (progress: number) => void
+  onProgress?: (progress: number) => void,
+  connection?: string,
+  contentType?: string,
+  metadata?: Record<string, string>
 ): Promise<void> {
   const fs = await import("fs");
-  const client = getS3Client();
+  const client = getS3Client(connection);
   const stat = await fs.promises.stat(filePath);
+  const concurrency = getUploadConcurrency();
 
-  let uploadId: string;
-  const parts: Array<{ PartNumber: number; ETag: string }> = [];
+  let upload: PendingMultipartUpload | undefined;
 
   try {
-    // Initiate multipart upload
-    const createResponse = await client.send(
-      new CreateMultipartUploadCommand({
-        Bucket: bucket,
-        Key: key,
-        ContentType: guessContentType(key),
-      })
+    upload = await resumeMultipartUpload(
+      bucket,
+      key,
+      filePath,
+      stat.size,
+      stat.mtimeMs,
+      connection
     );
 
-    uploadId = createResponse.UploadId!;
+    if (!upload) {
+      const createResponse = await client.send(
+        new CreateMultipartUploadCommand({
+          Bucket: bucket,
+          Key: key,
+          ContentType: contentType || guessContentType(key),
+          Metadata: metadata,
+        })
+      );
+
+      upload = {
+        uploadId: createResponse.UploadId!,
+        bucket,
+        key,
+        connection,
+        filePath,
+        fileSize: stat.size,
+        fileModified: stat.mtimeMs,
+        partSize: choosePartSize(stat.size, PART_SIZE),
+        startedAt: Date.now(),
+        parts: [],
+      };
+      await savePendingUpload(upload);
+    }
+
+    const current = upload;
+    const ranges = getPartRanges(current.fileSize, current.partSize);
+    const done = new Set(current.parts.map((part) => part.partNumber));
+    const remaining = ranges.filter((range) => !done.has(range.partNumber));
 
-    // Upload parts
+    let uploadedBytes = ranges
+      .filter((range) => done.has(range.partNumber))
+      .reduce((total, range) => total + range.end - range.start + 1, 0);
+    onProgress?.(Math.round((uploadedBytes / current.fileSize) * 100));
+
+    // Reuse one buffer per in-flight part instead of allocating per part
+    const buffers: Buffer[] = [];
     const fileHandle = await fs.promises.open(filePath, "r");
-    const totalParts = Math.ceil(stat.size / PART_SIZE);
+
+    // Parts catch their own errors so that after a failure the parts
+    // already in flight finish, and are recorded, before the file is closed
+    let failure: unknown;
 
     try {
-      for (let partNumber = 1; partNumber <= totalParts; partNumber++) {
-        const start = (partNumber - 1) * PART_SIZE;
-        const end = Math.min(start + PART_SIZE, stat.size);
-        const buffer = Buffer.alloc(end - start);
-
-        await fileHandle.read(buffer, 0, buffer.length, start);
-
-        const uploadPartResponse = await client.send(
-          new UploadPartCommand({
-            Bucket: bucket,
-            Key: key,
-            PartNumber: partNumber,
-            UploadId: uploadId,
-            Body: buffer,
-          })
-        );
+      await mapWithConcurrency(remaining, concurrency, async (range) => {
+        if (failure) {
+          return;
+        }
 
-        parts.push({
-          PartNumber: partNumber,
-          ETag: uploadPartResponse.ETag!,
-        });
+        const length = range.end - range.start + 1;
+        const pooled = buffers.pop() || Buffer.allocUnsafe(current.partSize);
 
-        if (onProgress) {
-          onProgress(Math.round((partNumber / totalParts) * 100));
+        try {
+          const body = pooled.subarray(0, length);
+          await readFully(fileHandle, body, range.start, filePath);
+
+          const response = await withRetry(() =>
+            client.send(
+              new UploadPartCommand({
+                Bucket: bucket,
+                Key: key,
+                PartNumber: range.partNumber,
+                UploadId: current.uploadId,
+                Body: body,
+                ContentLength: length,
+              })
+            )
+          );
+
+          current.parts.push({
+            partNumber: range.partNumber,
+            etag: response.ETag!,
+          });
+          await savePendingUpload(current);
+
+          uploadedBytes += length;
+          onProgress?.(Math.round((uploadedBytes / current.fileSize) * 100));
+        } catch (error) {
+          failure ??= error;
+        } finally {
+          buffers.push(pooled);
         }
-      }
+      });
     } finally {
       await fileHandle.close();
     }
 
-    // Complete multipart upload
+    if (failure) {
+      throw failure;
+    }
+
     await client.send(
       new CompleteMultipartUploadCommand({
         Bucket: bucket,
         Key: key,
-        UploadId: uploadId,
-        MultipartUpload: { Parts: parts },
+        UploadId: current.uploadId,
+        MultipartUpload: {
+          Parts: [...current.parts]
+            .sort((a, b) => a.partNumber - b.partNumber)
+            .map((part) => ({ PartNumber: part.partNumber, ETag: part.etag })),
+        },
       })
     );
+
+    await removePendingUpload(connection, bucket, key);
   } catch (error: any) {
-    // Abort multipart upload on error
-    if (uploadId!) {
-      try {
-        await client.send(
-          new AbortMultipartUploadCommand({
-            Bucket: bucket,
-            Key: key,
-            UploadId: uploadId,
-          })
-        );
-      } catch (abortError) {
-        // Log but don't throw abort errors
-        console.warn("Failed to abort multipart upload:", abortError);
-      }
-    }
+    // Keep the upload and its finished parts so it can be resumed later
+    const hint = upload
+      ? " The upload can be resumed by uploading the file again."
+      : "";
 
     throw new S3Error(
-      `Failed to upload file '${filePath}': ${error.message}`,
+      `Failed to upload file '${filePath}': ${error.message}${hint}`,
       error.code,
       error.$metadata?.httpStatusCode,
       S3Error.isRetryable(error)
@@ -409,34 +965,357 @@ async function uploadFileMultipart(
   }
 }
 
+// Fill the buffer from the given file position, failing if the file ends
+// early because it was truncated after the upload started
+async function readFully(
+  fileHandle: import("fs").promises.FileHandle,
+  buffer: Buffer,
+  position: number,
+  filePath: string
+): Promise<void> {
+  let offset = 0;
+  while (offset < buffer.length) {
+    const { bytesRead } = await fileHandle.read(
+      buffer,
+      offset,
+      buffer.length - offset,
+      position + offset
+    );
+    if (bytesRead === 0) {
+      throw new Error(`'${filePath}' changed while it was being uploaded`);
+    }
+    offset += bytesRead;
+  }
+}
+
+/**
+ * Look up a saved upload for this file and reconcile its parts with the
+ * server. Returns undefined when there is nothing to resume.
+ */
+async function resumeMultipartUpload(
+  bucket: string,
+  key: string,
+  filePath: string,
+  fileSize: number,
+  fileModified: number,
+  connection?: string
+): Promise<PendingMultipartUpload | undefined> {
+  const saved = getPendingUpload(connection, bucket, key);
+  if (!saved) {
+    return undefined;
+  }
+
+  // The file changed since the upload started, so its parts are stale
+  if (
+    saved.filePath !== filePath ||
+    saved.fileSize !== fileSize ||
+    saved.fileModified !== fileModified
+  ) {
+    await abortMultipartUpload(saved);
+    return undefined;
+  }
+
+  try {
+    const parts = await listUploadedParts(
+      bucket,
+      key,
+      saved.uploadId,
+      connection
+    );
+
+    const resumed: PendingMultipartUpload = {
+      ...saved,
+      parts: getResumableParts(saved.fileSize, saved.partSize, parts),
+    };
+
+    await savePendingUpload(resumed);
+    return resumed;
+  } catch (error: any) {
+    if (error?.name === "NoSuchUpload" || error?.Code === "NoSuchUpload") {
+      await removePendingUpload(connection, bucket, key);
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+async function listUploadedParts(
+  bucket: string,
+  key: string,
+  uploadId: string,
+  connection?: string
+): Promise<UploadedPart[]> {
+  const client = getS3Client(connection);
+  const parts: UploadedPart[] = [];
+  let partNumberMarker: string | undefined;
+
+  do {
+    const response = await withRetry(() =>
+      client.send(
+        new ListPartsCommand({
+          Bucket: bucket,
+          Key: key,
+          UploadId: uploadId,
+          PartNumberMarker: partNumberMarker,
+        })
+      )
+    );
+
+    for (const part of response.Parts || []) {
+      if (part.PartNumber && part.ETag) {
+        parts.push({
+          partNumber: part.PartNumber,
+          etag: part.ETag,
+          size: part.Size,
+        });
+      }
+    }
+
+    partNumberMarker = response.IsTruncated
+      ? response.NextPartNumberMarker
+      : undefined;
+  } while (partNumberMarker);
+
+  return parts;
+}
+
+/**
+ * Abort a saved multipart upload and forget it. The server may already have
+ * discarded it, so abort failures are only logged.
+ */
+export async function abortMultipartUpload(
+  upload: PendingMultipartUpload
+): Promise<void> {
+  try {
+    await getS3Client(upload.connection).send(
+      new AbortMultipartUploadCommand({
+        Bucket: upload.bucket,
+        Key: upload.key,
+        UploadId: upload.uploadId,
+      })
+    );
+  } catch (abortError) {
+    console.warn("Failed to abort multipart upload:", abortError);
+  }
+
+  await removePendingUpload(upload.connection, upload.bucket, upload.key);
+}
+
+function getUploadConcurrency(): number {
+  const value = vscode.workspace
+    .getConfiguration("s3x")
+    .get<number>("uploadConcurrency", DEFAULT_UPLOAD_CONCURRENCY);
+
+  return Math.max(1, Math.floor(value || DEFAULT_UPLOAD_CONCURRENCY));
+}
+
 export async function downloadFile(
   bucket: string,
   key: string,
   filePath: string,
-  onProgress?: (progress: number) => void
+  onProgress?: (progress: number) => void,
+  connection?: string
+): Promise<void> {
+  // Keeps auto-upload from sending the downloaded file straight back
+  return trackLocalWrite(
+    [filePath, `${filePath}${PARTIAL_DOWNLOAD_SUFFIX}`],
+    () => downloadFileChunked(bucket, key, filePath, onProgress, connection)
+  );
+}
+
+async function downloadFileChunked(
+  bucket: string,
+  key: string,
+  filePath: string,
+  onProgress?: (progress: number) => void,
+  connection?: string
 ): Promise<void> {
   const fs = await import("fs");
+  const client = getS3Client(connection);
+  const partialPath = `${filePath}${PARTIAL_DOWNLOAD_SUFFIX}`;
 
-  if (onProgress) {
-    onProgress(10);
+  let download: PendingDownload | undefined;
+
+  try {
+    const head = await withRetry(() =>
+      client.send(new HeadObjectCommand({ Bucket: bucket, Key: key }))
+    );
+    const size = head.ContentLength || 0;
+    const etag = head.ETag || "";
+
+    download = getPendingDownload(filePath);
+    const canResume =
+      download &&
+      download.bucket === bucket &&
+      download.key === key &&
+      download.connection === connection &&
+      download.etag === etag &&
+      download.size === size &&
+      fs.existsSync(partialPath);
+
+    if (!canResume) {
+      download = {
+        connection,
+        bucket,
+        key,
+        filePath,
+        etag,
+        size,
+        chunkSize:
+          size > PARALLEL_DOWNLOAD_THRESHOLD
+            ? choosePartSize(size, DOWNLOAD_CHUNK_SIZE)
+            : Math.max(size, 1),
+        completedChunks: [],
+        startedAt: Date.now(),
+      };
+      await fs.promises.writeFile(partialPath, new Uint8Array(0));
+      await savePendingDownload(download);
+    }
+
+    const current = download!;
+    const chunks = getPartRanges(current.size, current.chunkSize);
+    const done = new Set(current.completedChunks);
+    const remaining = chunks.filter((chunk) => !done.has(chunk.partNumber));
+
+    // A single chunk is written front to back, so whatever reached the
+    // partial file can be kept; parallel chunks restart from their start
+    const partialSize = (await fs.promises.stat(partialPath)).size;
+    const written = new Map<number, number>();
+    if (chunks.length === 1 && remaining.length === 1) {
+      written.set(1, Math.min(partialSize, current.size));
+    }
+
+    let completedBytes = chunks
+      .filter((chunk) => done.has(chunk.partNumber))
+      .reduce((total, chunk) => total + chunk.end - chunk.start + 1, 0);
+    let lastReported = -1;
+    const reportProgress = () => {
+      let inFlight = 0;
+      written.forEach((bytes) => (inFlight += bytes));
+      const percent =
+        current.size === 0
+          ? 100
+          : Math.floor(((completedBytes + inFlight) / current.size) * 100);
+      if (percent !== lastReported) {
+        lastReported = percent;
+        onProgress?.(percent);
+      }
+    };
+    reportProgress();
+
+    await mapWithConcurrency(remaining, DOWNLOAD_CONCURRENCY, async (chunk) => {
+      await withRetry(() =>
+        downloadRange(
+          bucket,
+          key,
+          current.etag,
+          partialPath,
+          chunk.start + (written.get(chunk.partNumber) || 0),
+          chunk.end,
+          (bytes) => {
+            written.set(
+              chunk.partNumber,
+              (written.get(chunk.partNumber) || 0) + bytes
+            );
+            reportProgress();
+          },
+          connection
+        )
+      );
+
+      written.delete(chunk.partNumber);
+      completedBytes += chunk.end - chunk.start + 1;
+      current.completedChunks.push(chunk.partNumber);
+      await savePendingDownload(current);
+      reportProgress();
+    });
+
+    await fs.promises.rename(partialPath, filePath);
+    await removePendingDownload(filePath);
+  } catch (error: any) {
+    // The object changed since the partial download started
+    if (error?.$metadata?.httpStatusCode === 412 && download) {
+      await discardDownload(download);
+    }
+
+    const hint =
+      download && error?.$metadata?.httpStatusCode !== 412
+        ? " The download can be resumed by downloading the file again."
+        : "";
+
+    throw new S3Error(
+      `Failed to download '${key}': ${error.message}${hint}`,
+      error.code || error.name,
+      error.$metadata?.httpStatusCode,
+      S3Error.isRetryable(error)
+    );
   }
+}
 
-  const data = await getObject(bucket, key);
+/**
+ * Delete the partial file of an interrupted download and forget it
+ */
+export async function discardDownload(
+  download: PendingDownload
+): Promise<void> {
+  const fs = await import("fs");
+  await fs.promises.rm(`${download.filePath}${PARTIAL_DOWNLOAD_SUFFIX}`, {
+    force: true,
+  });
+  await removePendingDownload(download.filePath);
+}
 
-  if (onProgress) {
-    onProgress(80);
+/**
+ * Stream bytes start..end (inclusive) of an object into the partial file at
+ * the same offset, without buffering the body in memory
+ */
+async function downloadRange(
+  bucket: string,
+  key: string,
+  etag: string,
+  partialPath: string,
+  start: number,
+  end: number,
+  onData: (bytes: number) => void,
+  connection?: string
+): Promise<void> {
+  if (start > end) {
+    return;
   }
 
-  await fs.promises.writeFile(filePath, data);
+  const fs = await import("fs");
+  const response = await getS3Client(connection).send(
+    new GetObjectCommand({
+      Bucket: bucket,
+      Key: key,
+      Range: `bytes=${start}-${end}`,
+      IfMatch: etag || undefined,
+    })
+  );
 
-  if (onProgress) {
-    onProgress(100);
+  if (!response.Body) {
+    throw new S3Error(`Object '${key}' has no content`);
+  }
+
+  // Only count bytes once they are on disk so a retry resumes exactly
+  const fileHandle = await fs.promises.open(partialPath, "r+");
+  let position = start;
+
+  try {
+    for await (const data of response.Body as AsyncIterable<Uint8Array>) {
+      await fileHandle.write(data, 0, data.length, position);
+      position += data.length;
+      onData(data.length);
+    }
+  } finally {
+    await fileHandle.close();
   }
 }
 
 export async function createFolder(
   bucket: string,
-  prefix: string
+  prefix: string,
+  connection?: string
 ): Promise<void> {
   // Create an empty object with a trailing slash to represent a folder
   const folderKey = prefix.endsWith("/") ? prefix : `${prefix}/`;
@@ -444,7 +1323,9 @@ export async function createFolder(
     bucket,
     folderKey,
     new Uint8Array(0),
-    "application/x-directory"
+    "application/x-directory",
+    undefined,
+    connection
   );
 }
 
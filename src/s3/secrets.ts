@@ -0,0 +1,208 @@
+import * as vscode from "vscode";
+import { S3ConnectionSettings } from "../types";
+import {
+  DEFAULT_CONNECTION,
+  SecretMigrationPlan,
+  planSecretMigration,
+} from "../util/secretMigration";
+
+const SECRET_KEY_PREFIX = "s3x.";
+
+// Secrets kept per connection: the secret key, and the session token of
+// temporary credentials
+type SecretName = "secretAccessKey" | "sessionToken";
+const SECRET_NAMES: SecretName[] = ["secretAccessKey", "sessionToken"];
+
+let secretStorage: vscode.SecretStorage | undefined;
+
+// SecretStorage is async-only, so keys are mirrored in memory to keep
+// getConfig() synchronous
+const secretCache = new Map<string, string>();
+
+function getSecretId(name: SecretName, connection?: string): string {
+  const id = `${SECRET_KEY_PREFIX}${name}`;
+  return connection ? `${id}.${connection}` : id;
+}
+
+export async function initializeSecrets(
+  storage: vscode.SecretStorage,
+  connections: string[]
+): Promise<vscode.Disposable> {
+  secretStorage = storage;
+  await loadSecrets(connections);
+
+  // Keep the mirror in sync when another window changes a key
+  return storage.onDidChange(async (event) => {
+    if (!event.key.startsWith(SECRET_KEY_PREFIX)) {
+      return;
+    }
+
+    const value = await storage.get(event.key);
+    if (value) {
+      secretCache.set(event.key, value);
+    } else {
+      secretCache.delete(event.key);
+    }
+  });
+}
+
+export async function loadSecrets(connections: string[]): Promise<void> {
+  if (!secretStorage) {
+    return;
+  }
+
+  for (const connection of [undefined, ...connections]) {
+    for (const name of SECRET_NAMES) {
+      const id = getSecretId(name, connection);
+      const value = await secretStorage.get(id);
+      if (value) {
+        secretCache.set(id, value);
+      } else {
+        secretCache.delete(id);
+      }
+    }
+  }
+}
+
+export function getSecretAccessKey(connection?: string): string | undefined {
+  return secretCache.get(getSecretId("secretAccessKey", connection));
+}
+
+export function getSessionToken(connection?: string): string | undefined {
+  return secretCache.get(getSecretId("sessionToken", connection));
+}
+
+export async function storeSecretAccessKey(
+  connection: string | undefined,
+  secretAccessKey: string
+): Promise<void> {
+  await storeSecret("secretAccessKey", connection, secretAccessKey);
+}
+
+/**
+ * Store the session token of temporary credentials. An empty token removes
+ * it, for when a connection goes back to long-lived keys.
+ */
+export async function storeSessionToken(
+  connection: string | undefined,
+  sessionToken: string | undefined
+): Promise<void> {
+  if (!sessionToken) {
+    await deleteSecret("sessionToken", connection);
+    return;
+  }
+
+  await storeSecret("sessionToken", connection, sessionToken);
+}
+
+export async function deleteSecrets(connection?: string): Promise<void> {
+  for (const name of SECRET_NAMES) {
+    await deleteSecret(name, connection);
+  }
+}
+
+async function storeSecret(
+  name: SecretName,
+  connection: string | undefined,
+  value: string
+): Promise<void> {
+  if (!secretStorage) {
+    throw new Error("Secure credential storage is not available");
+  }
+
+  const id = getSecretId(name, connection);
+  await secretStorage.store(id, value);
+  secretCache.set(id, value);
+}
+
+async function deleteSecret(
+  name: SecretName,
+  connection?: string
+): Promise<void> {
+  const id = getSecretId(name, connection);
+  secretCache.delete(id);
+
+  if (secretStorage) {
+    await secretStorage.delete(id);
+  }
+}
+
+/**
+ * Move plaintext secret keys out of settings into SecretStorage. Keys that
+ * differ between scopes are left in settings and reported as conflicts.
+ */
+export async function migrateSecretsFromSettings(): Promise<{
+  migrated: number;
+  conflicts: SecretMigrationPlan["conflicts"];
+}> {
+  if (!secretStorage) {
+    return { migrated: 0, conflicts: [] };
+  }
+
+  // Folder values are only visible through a configuration scoped to that
+  // folder
+  const targets: Array<{
+    label: string;
+    config: vscode.WorkspaceConfiguration;
+    target: vscode.ConfigurationTarget;
+    scope: "globalValue" | "workspaceValue" | "workspaceFolderValue";
+  }> = [
+    {
+      label: "user settings",
+      config: vscode.workspace.getConfiguration("s3x"),
+      target: vscode.ConfigurationTarget.Global,
+      scope: "globalValue",
+    },
+    {
+      label: "workspace settings",
+      config: vscode.workspace.getConfiguration("s3x"),
+      target: vscode.ConfigurationTarget.Workspace,
+      scope: "workspaceValue",
+    },
+    ...(vscode.workspace.workspaceFolders || []).map((folder) => ({
+      label: `folder "${folder.name}"`,
+      config: vscode.workspace.getConfiguration("s3x", folder.uri),
+      target: vscode.ConfigurationTarget.WorkspaceFolder,
+      scope: "workspaceFolderValue" as const,
+    })),
+  ];
+
+  const scopes = targets.map(({ label, config, scope }) => ({
+    scope: label,
+    secretAccessKey: config.inspect<string>("secretAccessKey")?.[scope],
+    connections:
+      config.inspect<S3ConnectionSettings[]>("connections")?.[scope],
+  }));
+  const plan = planSecretMigration(scopes);
+
+  for (const [connection, secretAccessKey] of plan.secrets) {
+    await storeSecretAccessKey(connection || undefined, secretAccessKey);
+  }
+
+  // Only remove keys that are now in secure storage
+  for (const [index, { config, target }] of targets.entries()) {
+    const { secretAccessKey, connections } = scopes[index];
+
+    if (secretAccessKey && plan.secrets.has(DEFAULT_CONNECTION)) {
+      await config.update("secretAccessKey", undefined, target);
+    }
+
+    const isMigrated = (connection?: S3ConnectionSettings) =>
+      !!connection?.secretAccessKey && plan.secrets.has(connection.name);
+    if (connections && connections.some(isMigrated)) {
+      await config.update(
+        "connections",
+        connections.map((connection) => {
+          if (!isMigrated(connection)) {
+            return connection;
+          }
+          const { secretAccessKey: _removed, ...rest } = connection;
+          return rest;
+        }),
+        target
+      );
+    }
+  }
+
+  return { migrated: plan.secrets.size, conflicts: plan.conflicts };
+}
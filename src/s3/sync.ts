@@ -0,0 +1,151 @@
+import * as fs from "fs";
+import * as path from "path";
+import { listObjectsRecursive } from "./listing";
+import { uploadFile, downloadFile, deleteObjects } from "./ops";
+import { ObjectOperationError } from "../types";
+import { mapWithConcurrency } from "../util/concurrency";
+import { trackLocalWrite } from "../util/localWrites";
+import { isPathIgnored } from "../util/ignore";
+import { walkLocalFolder, keyToLocalPath } from "../util/localFiles";
+import { getRelativePath, joinPath } from "../util/paths";
+import {
+  planSync,
+  RemoteFile,
+  SyncOptions,
+  SyncPlan,
+  countSyncChanges,
+  isSyncedFile,
+} from "../util/sync";
+
+const SYNC_CONCURRENCY = 4;
+
+export interface SyncTarget {
+  localRoot: string;
+  bucket: string;
+  prefix: string; // "" or ending in "/"
+  connection?: string;
+}
+
+/**
+ * Compare a local folder with a prefix by size, ETag/MD5 and modification
+ * time. Excluded paths are left alone on both sides.
+ */
+export async function buildSyncPlan(
+  target: SyncTarget,
+  options: SyncOptions,
+  isIgnored: (relativePath: string, isDirectory: boolean) => boolean
+): Promise<SyncPlan> {
+  const localFiles = await walkLocalFolder(target.localRoot, isIgnored);
+
+  const objects = await listObjectsRecursive(
+    target.bucket,
+    target.prefix || undefined,
+    target.connection
+  );
+  const remoteFiles: RemoteFile[] = objects
+    .filter((object) => !object.key.endsWith("/"))
+    .map((object) => ({
+      relativePath: getRelativePath(object.key, target.prefix),
+      object,
+    }))
+    .filter(
+      (file) =>
+        keyToLocalPath(target.localRoot, file.relativePath) !== undefined &&
+        !isPathIgnored(isIgnored, file.relativePath)
+    );
+
+  return planSync(localFiles, remoteFiles, options, (local, remote) =>
+    isSyncedFile(local, remote, options)
+  );
+}
+
+/**
+ * Carry out a plan. Individual failures are collected rather than stopping
+ * the sync; cancelling stops before the next file.
+ */
+export async function applySyncPlan(
+  target: SyncTarget,
+  plan: SyncPlan,
+  onProgress?: (completed: number, total: number) => void,
+  isCancelled: () => boolean = () => false
+): Promise<{ completed: number; errors: ObjectOperationError[] }> {
+  const { localRoot, bucket, prefix, connection } = target;
+  const total = countSyncChanges(plan);
+  const errors: ObjectOperationError[] = [];
+  let completed = 0;
+
+  const run = async <T>(
+    items: T[],
+    getKey: (item: T) => string,
+    operation: (item: T) => Promise<void>
+  ) => {
+    await mapWithConcurrency(items, SYNC_CONCURRENCY, async (item) => {
+      if (isCancelled()) {
+        return;
+      }
+
+      try {
+        await operation(item);
+        completed++;
+      } catch (error) {
+        errors.push({
+          key: getKey(item),
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+      onProgress?.(completed + errors.length, total);
+    });
+  };
+
+  await run(
+    plan.uploads,
+    ({ local }) => local.relativePath,
+    async ({ local }) => {
+      const key = joinPath(prefix, local.relativePath);
+      await uploadFile(bucket, key, local.path, undefined, connection);
+    }
+  );
+
+  await run(
+    plan.downloads,
+    ({ remote }) => remote.relativePath,
+    async ({ remote }) => {
+      const localPath = keyToLocalPath(localRoot, remote.relativePath)!;
+      await fs.promises.mkdir(path.dirname(localPath), { recursive: true });
+      await downloadFile(
+        bucket,
+        remote.object.key,
+        localPath,
+        undefined,
+        connection
+      );
+
+      // Match the object's time so the next comparison sees it as unchanged
+      const { lastModified } = remote.object;
+      if (lastModified) {
+        await trackLocalWrite([localPath], () =>
+          fs.promises.utimes(localPath, lastModified, lastModified)
+        );
+      }
+    }
+  );
+
+  if (plan.deleteRemote.length > 0 && !isCancelled()) {
+    const result = await deleteObjects(
+      bucket,
+      plan.deleteRemote.map((file) => file.object.key),
+      connection
+    );
+    completed += result.deleted.length;
+    errors.push(...result.errors);
+    onProgress?.(completed + errors.length, total);
+  }
+
+  await run(
+    plan.deleteLocal,
+    (local) => local.relativePath,
+    (local) => fs.promises.rm(local.path)
+  );
+
+  return { completed, errors };
+}
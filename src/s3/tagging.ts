@@ -0,0 +1,145 @@
+import {
+  GetObjectTaggingCommand,
+  PutObjectTaggingCommand,
+} from "@aws-sdk/client-s3";
+import { getS3Client, withRetry } from "./client";
+import { ObjectOperationError, S3Error } from "../types";
+import { mapWithConcurrency } from "../util/concurrency";
+import {
+  ObjectTags,
+  TagChange,
+  applyTagChange,
+  tagsEqual,
+  validateTags,
+} from "../util/tags";
+
+const TAG_CONCURRENCY = 8;
+
+export async function getObjectTags(
+  bucket: string,
+  key: string,
+  connection?: string,
+  versionId?: string
+): Promise<ObjectTags> {
+  return withRetry(async () => {
+    const client = getS3Client(connection);
+
+    try {
+      const response = await client.send(
+        new GetObjectTaggingCommand({
+          Bucket: bucket,
+          Key: key,
+          VersionId: versionId,
+        })
+      );
+
+      const tags: ObjectTags = {};
+      for (const tag of response.TagSet || []) {
+        tags[tag.Key!] = tag.Value || "";
+      }
+      return tags;
+    } catch (error: any) {
+      throw new S3Error(
+        `Failed to get tags of '${key}': ${error.message}`,
+        error.code || error.name,
+        error.$metadata?.httpStatusCode,
+        S3Error.isRetryable(error)
+      );
+    }
+  });
+}
+
+/**
+ * Replace all tags of an object. An empty set removes its tags.
+ */
+export async function putObjectTags(
+  bucket: string,
+  key: string,
+  tags: ObjectTags,
+  connection?: string
+): Promise<void> {
+  return withRetry(async () => {
+    const client = getS3Client(connection);
+
+    try {
+      await client.send(
+        new PutObjectTaggingCommand({
+          Bucket: bucket,
+          Key: key,
+          Tagging: {
+            TagSet: Object.entries(tags).map(([Key, Value]) => ({
+              Key,
+              Value,
+            })),
+          },
+        })
+      );
+    } catch (error: any) {
+      throw new S3Error(
+        `Failed to update tags of '${key}': ${error.message}`,
+        error.code || error.name,
+        error.$metadata?.httpStatusCode,
+        S3Error.isRetryable(error)
+      );
+    }
+  });
+}
+
+/**
+ * Apply a tag change to many objects. Objects whose tags would not change
+ * are skipped, and failures (including going over the tag limit) are
+ * collected rather than stopping early.
+ */
+export async function tagObjects(
+  bucket: string,
+  keys: string[],
+  change: TagChange,
+  connection?: string,
+  onProgress?: (processed: number, total: number) => void,
+  isCancelled: () => boolean = () => false
+): Promise<{
+  updated: string[];
+  unchanged: number;
+  errors: ObjectOperationError[];
+}> {
+  const updated: string[] = [];
+  const errors: ObjectOperationError[] = [];
+  let unchanged = 0;
+  let processed = 0;
+
+  await mapWithConcurrency(keys, TAG_CONCURRENCY, async (key) => {
+    if (isCancelled()) {
+      return;
+    }
+
+    try {
+      // Replacing does not depend on the existing tags
+      const current =
+        change.mode === "replace"
+          ? undefined
+          : await getObjectTags(bucket, key, connection);
+      const tags = applyTagChange(current || {}, change);
+
+      if (current && tagsEqual(current, tags)) {
+        unchanged++;
+      } else {
+        const invalid = validateTags(tags);
+        if (invalid.length > 0) {
+          throw new Error(invalid[0]);
+        }
+        await putObjectTags(bucket, key, tags, connection);
+        updated.push(key);
+      }
+    } catch (error: any) {
+      errors.push({
+        key,
+        code: error.code,
+        message: error.message || String(error),
+      });
+    }
+
+    onProgress?.(++processed, keys.length);
+  });
+
+  return { updated, unchanged, errors };
+}
@@ -0,0 +1,99 @@
+import * as vscode from "vscode";
+import { PendingDownload, PendingMultipartUpload } from "../types";
+
+const PENDING_UPLOADS_KEY = "s3x.pendingUploads";
+const PENDING_DOWNLOADS_KEY = "s3x.pendingDownloads";
+
+let state: vscode.Memento | undefined;
+
+export function initializeTransferState(memento: vscode.Memento): void {
+  state = memento;
+}
+
+function readAll<T>(stateKey: string): Record<string, T> {
+  return state?.get<Record<string, T>>(stateKey, {}) || {};
+}
+
+async function writeEntry<T>(
+  stateKey: string,
+  id: string,
+  value: T | undefined
+): Promise<void> {
+  if (!state) {
+    return; // Not activated (e.g. unit tests); transfers just can't resume
+  }
+
+  const all = readAll<T>(stateKey);
+  if (value === undefined) {
+    delete all[id];
+  } else {
+    all[id] = value;
+  }
+  await state.update(stateKey, all);
+}
+
+function getUploadId(
+  connection: string | undefined,
+  bucket: string,
+  key: string
+): string {
+  return `${connection || ""}|${bucket}|${key}`;
+}
+
+export function getPendingUploads(): PendingMultipartUpload[] {
+  return Object.values(readAll<PendingMultipartUpload>(PENDING_UPLOADS_KEY));
+}
+
+export function getPendingUpload(
+  connection: string | undefined,
+  bucket: string,
+  key: string
+): PendingMultipartUpload | undefined {
+  return readAll<PendingMultipartUpload>(PENDING_UPLOADS_KEY)[
+    getUploadId(connection, bucket, key)
+  ];
+}
+
+export async function savePendingUpload(
+  upload: PendingMultipartUpload
+): Promise<void> {
+  await writeEntry(
+    PENDING_UPLOADS_KEY,
+    getUploadId(upload.connection, upload.bucket, upload.key),
+    upload
+  );
+}
+
+export async function removePendingUpload(
+  connection: string | undefined,
+  bucket: string,
+  key: string
+): Promise<void> {
+  await writeEntry(
+    PENDING_UPLOADS_KEY,
+    getUploadId(connection, bucket, key),
+    undefined
+  );
+}
+
+// Downloads are keyed by their local destination, which only one download
+// can write to at a time
+export function getPendingDownloads(): PendingDownload[] {
+  return Object.values(readAll<PendingDownload>(PENDING_DOWNLOADS_KEY));
+}
+
+export function getPendingDownload(
+  filePath: string
+): PendingDownload | undefined {
+  return readAll<PendingDownload>(PENDING_DOWNLOADS_KEY)[filePath];
+}
+
+export async function savePendingDownload(
+  download: PendingDownload
+): Promise<void> {
+  await writeEntry(PENDING_DOWNLOADS_KEY, download.filePath, download);
+}
+
+export async function removePendingDownload(filePath: string): Promise<void> {
+  await writeEntry(PENDING_DOWNLOADS_KEY, filePath, undefined);
+}
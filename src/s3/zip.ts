@@ -0,0 +1,139 @@
+import * as fs from "fs";
+import { Readable } from "stream";
+import { ZipFile } from "yazl";
+import { getObjectStream, getObjectMetadata } from "./ops";
+import { S3Object, S3Error } from "../types";
+import { mapWithConcurrency } from "../util/concurrency";
+
+export interface ZipEntry {
+  key: string;
+  name: string; // Path inside the archive
+  size?: number;
+  lastModified?: Date;
+}
+
+// HEAD requests in flight while checking zero-byte objects
+const MARKER_CHECK_CONCURRENCY = 8;
+
+/**
+ * Drop folder placeholders, keeping the order of the rest. Keys ending in
+ * "/" are markers; zero-byte objects without a trailing slash are checked
+ * in parallel for the directory content type some tools use instead.
+ */
+export async function withoutFolderMarkers(
+  bucket: string,
+  objects: S3Object[],
+  connection?: string
+): Promise<S3Object[]> {
+  const markers = await mapWithConcurrency(
+    objects,
+    MARKER_CHECK_CONCURRENCY,
+    async (object) => {
+      if (object.key.endsWith("/")) {
+        return true;
+      }
+      if (object.size !== 0) {
+        return false;
+      }
+
+      const contentType =
+        object.contentType ??
+        (await getObjectMetadata(bucket, object.key, connection)).contentType;
+      return contentType === "application/x-directory";
+    }
+  );
+
+  return objects.filter((_, index) => !markers[index]);
+}
+
+/**
+ * Stream objects one at a time into a zip file on disk. Each object is only
+ * requested when the archive reaches it, so memory use stays flat. The
+ * partial archive is deleted on failure or cancellation.
+ */
+export async function downloadAsZip(
+  bucket: string,
+  entries: ZipEntry[],
+  filePath: string,
+  connection?: string,
+  onProgress?: (bytes: number) => void,
+  isCancelled: () => boolean = () => false
+): Promise<void> {
+  const zip = new ZipFile();
+  const output = fs.createWriteStream(filePath);
+
+  const done = new Promise<void>((resolve, reject) => {
+    let failed = false;
+    const fail = (error: Error) => {
+      if (failed) {
+        return;
+      }
+      failed = true;
+      output.destroy();
+      fs.promises.rm(filePath, { force: true }).finally(() => reject(error));
+    };
+
+    try {
+      for (const entry of entries) {
+        const stream = Readable.from(streamEntry(bucket, entry, connection), {
+          objectMode: false,
+        });
+        stream.on("error", fail);
+
+        // Throws for names a zip can't hold, such as ".." segments
+        zip.addReadStream(stream, entry.name, {
+          mtime: entry.lastModified || new Date(),
+          size: entry.size,
+        });
+      }
+    } catch (error: any) {
+      fail(new S3Error(`Cannot add to zip: ${error.message}`));
+      return;
+    }
+
+    zip.on("error", fail);
+    output.on("error", fail);
+    output.on("close", () => {
+      if (!failed) {
+        resolve();
+      }
+    });
+    zip.outputStream.pipe(output);
+    zip.end();
+  });
+
+  async function* streamEntry(
+    entryBucket: string,
+    entry: ZipEntry,
+    entryConnection?: string
+  ): AsyncGenerator<Uint8Array> {
+    if (isCancelled()) {
+      throw new Error("Operation cancelled");
+    }
+
+    const { body } = await getObjectStream(
+      entryBucket,
+      entry.key,
+      entryConnection
+    );
+
+    try {
+      for await (const chunk of body) {
+        if (isCancelled()) {
+          throw new Error("Operation cancelled");
+        }
+        onProgress?.(chunk.length);
+        yield chunk;
+      }
+    } catch (error: any) {
+      throw error instanceof S3Error || error?.message === "Operation cancelled"
+        ? error
+        : new S3Error(
+            `Failed to read '${entry.key}': ${error.message}`,
+            error.code
+          );
+    }
+  }
+
+  await done;
+}
@@ -75,6 +75,29 @@ suite("S3 Client Tests", () => {
     assert.strictEqual(validHttpErrors.length, 0);
   });
 
+  test("validateConfig only requires keys for the settings source", () => {
+    const baseConfig = {
+      endpointUrl: "https://example.r2.cloudflarestorage.com",
+      region: "us-east-1",
+      accessKeyId: "",
+      secretAccessKey: "",
+      forcePathStyle: true,
+      maxPreviewSizeBytes: 10485760
+    };
+
+    const settingsErrors = validateConfig({ ...baseConfig, credentialSource: "settings" });
+    assert.ok(settingsErrors.some((err) => err.includes("Access Key ID")));
+
+    for (const credentialSource of ["env", "sharedConfig", "process"] as const) {
+      const errors = validateConfig({ ...baseConfig, credentialSource });
+      assert.strictEqual(errors.length, 0, `${credentialSource} should not require keys`);
+    }
+
+    // The endpoint is still required
+    const noEndpointErrors = validateConfig({ ...baseConfig, endpointUrl: "", credentialSource: "env" });
+    assert.ok(noEndpointErrors.some((err) => err.includes("Endpoint URL")));
+  });
+
   test("getS3Client creates client with correct configuration", () => {
     if (skipIfNoCredentials()) { return; }
 
@@ -86,7 +109,7 @@ suite("S3 Client Tests", () => {
     assert.strictEqual(client, client2, "Should return cached client");
 
     // Test that forcing new client works
-    const client3 = getS3Client(true);
+    const client3 = getS3Client(undefined, true);
     assert.ok(client3, "Should create new client when forced");
   });
 
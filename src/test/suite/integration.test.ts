@@ -1,14 +1,17 @@
 import * as assert from "assert";
-import { listBuckets } from "../../s3/listing";
+import { listBuckets, listObjectsRecursive } from "../../s3/listing";
 import {
   createFolder,
   putObject,
   getObject,
   deleteObject,
+  deleteObjects,
   getObjectMetadata,
   generatePresignedUrl,
+  downloadFile,
 } from "../../s3/ops";
 import { testConnection } from "../../s3/client";
+import { createBucket, deleteBucket, emptyBucket } from "../../s3/buckets";
 import { s3Cache } from "../../util/cache";
 import {
   setupTestEnvironment,
@@ -198,6 +201,126 @@ suite("R2 Integration Tests", () => {
     }
   });
 
+  test("recursive prefix delete should remove nested objects", async function () {
+    this.timeout(30000);
+
+    if (skipIfNoCredentials()) {
+      return;
+    }
+
+    const folderPrefix = `s3x-test-recursive-${Date.now()}/`;
+    const keys = [
+      `${folderPrefix}a.txt`,
+      `${folderPrefix}nested/b.txt`,
+      `${folderPrefix}nested/deeper/c.txt`,
+    ];
+
+    for (const key of keys) {
+      await putObject(testBucketName, key, "recursive delete test");
+    }
+
+    const listed = await listObjectsRecursive(testBucketName, folderPrefix);
+    assert.strictEqual(listed.length, keys.length, "Should list nested objects");
+
+    const result = await deleteObjects(
+      testBucketName,
+      listed.map((obj) => obj.key)
+    );
+    assert.strictEqual(result.errors.length, 0, "No keys should fail");
+    assert.strictEqual(result.deleted.length, keys.length);
+
+    const remaining = await listObjectsRecursive(testBucketName, folderPrefix);
+    assert.strictEqual(remaining.length, 0, "Prefix should be empty");
+  });
+
+  test("emptyBucket should delete everything before deleteBucket", async function () {
+    this.timeout(60000);
+
+    if (skipIfNoCredentials()) {
+      return;
+    }
+
+    const bucket = `s3x-test-empty-${Date.now()}`;
+    await createBucket(bucket);
+
+    try {
+      for (const key of ["a.txt", "nested/b.txt", "nested/deeper/c.txt"]) {
+        await putObject(bucket, key, "empty bucket test");
+      }
+
+      const percentages: number[] = [];
+      const result = await emptyBucket(bucket, undefined, (_, percentage) =>
+        percentages.push(percentage)
+      );
+
+      assert.deepStrictEqual(result.errors, []);
+      assert.strictEqual(result.deleted, 3);
+      assert.ok(percentages.includes(100), "Progress should reach 100%");
+      assert.strictEqual((await listObjectsRecursive(bucket)).length, 0);
+    } finally {
+      await deleteBucket(bucket);
+    }
+  });
+
+  test("emptyBucket should stop when cancelled", async function () {
+    this.timeout(60000);
+
+    if (skipIfNoCredentials()) {
+      return;
+    }
+
+    const bucket = `s3x-test-cancel-${Date.now()}`;
+    await createBucket(bucket);
+
+    try {
+      await putObject(bucket, "kept.txt", "cancelled empty test");
+
+      const result = await emptyBucket(
+        bucket,
+        undefined,
+        undefined,
+        () => true
+      );
+
+      assert.strictEqual(result.deleted, 0);
+      assert.strictEqual((await listObjectsRecursive(bucket)).length, 1);
+    } finally {
+      await emptyBucket(bucket);
+      await deleteBucket(bucket);
+    }
+  });
+
+  test("downloadFile should stream the object to disk", async function () {
+    this.timeout(30000);
+
+    if (skipIfNoCredentials()) {
+      return;
+    }
+
+    const fs = await import("fs");
+    const os = await import("os");
+    const path = await import("path");
+
+    const key = generateTestObjectKey("s3x-test-download");
+    const content = "streamed download test ".repeat(1000);
+    const filePath = path.join(os.tmpdir(), `s3x-download-${Date.now()}.txt`);
+    const progress: number[] = [];
+
+    try {
+      await putObject(testBucketName, key, content);
+      await downloadFile(testBucketName, key, filePath, (percent) =>
+        progress.push(percent)
+      );
+
+      assert.strictEqual(fs.readFileSync(filePath, "utf8"), content);
+      assert.ok(!fs.existsSync(`${filePath}.s3x-partial`));
+      assert.strictEqual(progress[progress.length - 1], 100);
+    } finally {
+      fs.rmSync(filePath, { force: true });
+      await deleteObject(testBucketName, key);
+    }
+  });
+
   test("presigned URL generation should work", async function () {
     this.timeout(15000);
 
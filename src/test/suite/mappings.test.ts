@@ -0,0 +1,58 @@
+import * as assert from "assert";
+import * as path from "path";
+import { validateMappings } from "../../s3/mappings";
+
+suite("Remote Folder Mapping Tests", () => {
+  const root = path.resolve("/workspace/project");
+
+  test("validateMappings accepts valid entries and normalizes prefixes", () => {
+    const result = validateMappings(
+      {
+        mappings: [
+          { local: "dist", bucket: "my-site", prefix: "www", name: "Site" },
+          {
+            local: ".",
+            bucket: "backups",
+            connection: "prod",
+            autoUpload: false,
+          },
+        ],
+      },
+      root,
+      ["prod"]
+    );
+
+    assert.deepStrictEqual(result.errors, []);
+    assert.strictEqual(result.mappings.length, 2);
+    // Auto-upload is on unless turned off
+    assert.strictEqual(result.mappings[0].autoUpload, true);
+    assert.strictEqual(result.mappings[1].autoUpload, false);
+    assert.strictEqual(result.mappings[0].prefix, "www/");
+    assert.strictEqual(result.mappings[0].localPath, path.join(root, "dist"));
+    assert.strictEqual(result.mappings[1].prefix, "");
+    assert.strictEqual(result.mappings[1].connection, "prod");
+  });
+
+  test("validateMappings reports invalid entries and keeps the rest", () => {
+    const result = validateMappings(
+      {
+        mappings: [
+          { local: "../outside", bucket: "my-site" },
+          { local: "dist", bucket: "Not_A_Bucket" },
+          { local: "dist", bucket: "my-site", prefix: "a//b" },
+          { local: "dist", bucket: "my-site", connection: "missing" },
+          { local: "dist", bucket: "my-site" },
+        ],
+      },
+      root,
+      []
+    );
+
+    assert.strictEqual(result.mappings.length, 1);
+    assert.strictEqual(result.errors.length, 4);
+    assert.ok(result.errors[0].startsWith("mappings[0]"));
+    assert.ok(result.errors[3].includes("unknown connection"));
+
+    assert.strictEqual(validateMappings({}, root, []).errors.length, 1);
+  });
+});
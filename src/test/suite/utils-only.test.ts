@@ -1,4 +1,8 @@
 import * as assert from "assert";
+import * as http from "http";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
 import {
   normalizeKey,
   joinPath,
@@ -7,17 +11,88 @@ import {
   isFolder,
   ensureTrailingSlash,
   removeTrailingSlash,
+  createS3xUri,
+  parseS3xUri,
   isChildOf,
   getRelativePath,
   getPathSegments,
   getPathDepth,
   generateUniqueKey,
+  getCommonPrefix,
   getFileExtension,
   isTextFile,
   isImageFile,
   isValidS3Key,
   sanitizeS3Key,
 } from "../../util/paths";
+import { forEachBatch, mapWithConcurrency } from "../../util/concurrency";
+import { S3Cache } from "../../util/cache";
+import { CoalescingQueue } from "../../util/debounce";
+import {
+  choosePartSize,
+  getPartRanges,
+  getResumableParts,
+  MAX_PARTS,
+  MIN_PART_SIZE,
+} from "../../util/multipart";
+import {
+  needsRefresh,
+  createRefreshingProvider,
+  createAssumeRoleProvider,
+} from "../../util/credentials";
+import {
+  createIgnoreMatcher,
+  parseIgnorePatterns,
+  isPathIgnored,
+} from "../../util/ignore";
+import {
+  planSync,
+  countSyncChanges,
+  formatSyncPlan,
+  formatSyncComparison,
+  isSyncedFile,
+} from "../../util/sync";
+import {
+  compareListings,
+  summarizeDrift,
+  formatDriftCsv,
+} from "../../util/drift";
+import {
+  CORS_UPLOAD_TEMPLATE,
+  formatCorsConfiguration,
+  parseCorsConfiguration,
+} from "../../util/cors";
+import {
+  LIFECYCLE_TEMPLATE,
+  describeLifecycleRule,
+  formatLifecycleConfiguration,
+  parseLifecycleConfiguration,
+} from "../../util/lifecycle";
+import {
+  createPolicyTemplate,
+  findJsonLocation,
+  lintBucketPolicy,
+} from "../../util/policy";
+import {
+  describeEncryption,
+  describeObjectLock,
+  getLocationConstraint,
+  getUnblockedPublicAccess,
+  normalizeBucketRegion,
+} from "../../util/bucketProperties";
+import { applyTagChange, parseTags, validateTags } from "../../util/tags";
+import { planSecretMigration } from "../../util/secretMigration";
+import {
+  walkLocalFolder,
+  computeFileMd5,
+  isUnchanged,
+  keyToLocalPath,
+} from "../../util/localFiles";
+import {
+  LOCAL_WRITE_SETTLE_MS,
+  isLocalWrite,
+  trackLocalWrite,
+} from "../../util/localWrites";
 
 // Note: These tests don't use VS Code APIs and can run with regular Mocha
 
@@ -138,10 +213,24 @@ suite("Path Utilities (Pure Functions)", () => {
     ]);
     assert.strictEqual(uniqueKey2, "document (2)");
 
+    const uniqueFolder = generateUniqueKey("photos/", ["photos/", "photos (1)/"]);
+    assert.strictEqual(uniqueFolder, "photos (2)/");
+
     const uniqueKey3 = generateUniqueKey("new-file.txt", []);
     assert.strictEqual(uniqueKey3, "new-file.txt");
   });
 
+  test("getCommonPrefix should find the shared folder", () => {
+    assert.strictEqual(
+      getCommonPrefix(["a/b/c.txt", "a/b/d/e.txt", "a/b/f.txt"]),
+      "a/b/"
+    );
+    assert.strictEqual(getCommonPrefix(["a/b/c.txt", "a/bc/d.txt"]), "a/");
+    assert.strictEqual(getCommonPrefix(["a/b.txt", "c/d.txt"]), "");
+    assert.strictEqual(getCommonPrefix(["a/b/c.txt"]), "a/b/");
+    assert.strictEqual(getCommonPrefix([]), "");
+  });
+
   test("getFileExtension should extract extensions", () => {
     assert.strictEqual(getFileExtension("file.txt"), "txt");
     assert.strictEqual(getFileExtension("document.pdf"), "pdf");
@@ -216,4 +305,984 @@ suite("Path Utilities (Pure Functions)", () => {
     assert.ok(sanitizedWithExt.length <= 1024);
     assert.ok(sanitizedWithExt.endsWith(".txt"));
   });
+
+  test("S3X URIs should round-trip keys containing URI syntax", () => {
+    for (const key of ["a?b.txt", "notes#1.md", "100%.txt", "a%3Fb", "x y"]) {
+      const uri = createS3xUri("bucket", key, "staging", "v1");
+      const parsed = parseS3xUri(uri);
+      assert.strictEqual(parsed.key, key);
+      assert.strictEqual(parsed.versionId, "v1");
+    }
+
+    assert.strictEqual(
+      createS3xUri("bucket", "a?b.txt"),
+      "s3x://bucket/a%3Fb.txt"
+    );
+
+    // As produced by vscode.Uri.toString()
+    assert.strictEqual(
+      parseS3xUri("s3x://bucket/a%3Fb%20c.txt?versionId%3Dv1").key,
+      "a?b c.txt"
+    );
+  });
+});
+
+suite("Credential Utilities (Pure Functions)", () => {
+  test("needsRefresh should check the refresh window", () => {
+    const now = Date.parse("2026-01-01T00:00:00Z");
+    const inMinutes = (minutes: number) => new Date(now + minutes * 60000);
+
+    assert.strictEqual(needsRefresh({}, 300000, now), false);
+    assert.strictEqual(needsRefresh({ expiration: inMinutes(60) }, 300000, now), false);
+    assert.strictEqual(needsRefresh({ expiration: inMinutes(5) }, 300000, now), true);
+    assert.strictEqual(needsRefresh({ expiration: inMinutes(-1) }, 300000, now), true);
+  });
+
+  test("createRefreshingProvider should refresh before expiry", async () => {
+    let now = Date.parse("2026-01-01T00:00:00Z");
+    let calls = 0;
+    const provider = createRefreshingProvider(
+      async () => {
+        calls++;
+        return { token: `t${calls}`, expiration: new Date(now + 15 * 60000) };
+      },
+      5 * 60000,
+      () => now
+    );
+
+    assert.strictEqual((await provider()).token, "t1");
+    assert.strictEqual((await provider()).token, "t1");
+
+    // Inside the refresh window
+    now += 11 * 60000;
+    assert.strictEqual((await provider()).token, "t2");
+    assert.strictEqual(calls, 2);
+  });
+
+  test("createRefreshingProvider should share concurrent refreshes and retry after failure", async () => {
+    let calls = 0;
+    let fail = true;
+    const provider = createRefreshingProvider(async () => {
+      calls++;
+      if (fail) {
+        throw new Error("refresh failed");
+      }
+      return { expiration: undefined };
+    });
+
+    const results = await Promise.allSettled([provider(), provider()]);
+    assert.ok(results.every((result) => result.status === "rejected"));
+    assert.strictEqual(calls, 1);
+
+    fail = false;
+    await provider();
+    assert.strictEqual(calls, 2);
+  });
+
+  test("createAssumeRoleProvider should assume the role against a local STS", async () => {
+    const requests: URLSearchParams[] = [];
+    const server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        requests.push(new URLSearchParams(body));
+        const expiration = new Date(Date.now() + 60 * 60000).toISOString();
+        res.writeHead(200, { "Content-Type": "text/xml" });
+        res.end(
+          `<AssumeRoleResponse xmlns="https://sts.amazonaws.com/doc/2011-06-15/">` +
+            `<AssumeRoleResult><Credentials>` +
+            `<AccessKeyId>ASIATEMP${requests.length}</AccessKeyId>` +
+            `<SecretAccessKey>temp-secret</SecretAccessKey>` +
+            `<SessionToken>temp-token</SessionToken>` +
+            `<Expiration>${expiration}</Expiration>` +
+            `</Credentials></AssumeRoleResult>` +
+            `<ResponseMetadata><RequestId>1</RequestId></ResponseMetadata>` +
+            `</AssumeRoleResponse>`
+        );
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as { port: number };
+
+    try {
+      const options = {
+        roleArn: "arn:aws:iam::123456789012:role/s3x-test",
+        externalId: "external-123",
+        mfaSerial: "arn:aws:iam::123456789012:mfa/tester",
+        region: "us-east-1",
+        stsEndpoint: `http://127.0.0.1:${port}`,
+        masterCredentials: { accessKeyId: "AKIAMASTER", secretAccessKey: "master-secret" },
+        mfaCodeProvider: async () => "123456",
+      };
+
+      const provider = createAssumeRoleProvider(options);
+      const credentials = await provider();
+      assert.strictEqual(credentials.accessKeyId, "ASIATEMP1");
+      assert.strictEqual(credentials.sessionToken, "temp-token");
+      assert.strictEqual(requests[0].get("Action"), "AssumeRole");
+      assert.strictEqual(requests[0].get("RoleArn"), options.roleArn);
+      assert.strictEqual(requests[0].get("ExternalId"), "external-123");
+      assert.strictEqual(requests[0].get("SerialNumber"), options.mfaSerial);
+      assert.strictEqual(requests[0].get("TokenCode"), "123456");
+
+      // Cached until the refresh window is reached
+      await provider();
+      assert.strictEqual(requests.length, 1);
+
+      // A refresh window longer than the session forces a new AssumeRole
+      const eager = createAssumeRoleProvider(options, 2 * 60 * 60000);
+      await eager();
+      assert.strictEqual((await eager()).accessKeyId, "ASIATEMP3");
+    } finally {
+      server.close();
+    }
+  });
+});
+
+suite("Concurrency and Cache Utilities (Pure Functions)", () => {
+  test("mapWithConcurrency should limit parallelism and keep order", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const results = await mapWithConcurrency([5, 1, 4, 2, 3], 2, async (n) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, n));
+      inFlight--;
+      return n * 10;
+    });
+
+    assert.deepStrictEqual(results, [50, 10, 40, 20, 30]);
+    assert.strictEqual(maxInFlight, 2);
+  });
+
+  test("mapWithConcurrency should reject on the first failure", async () => {
+    await assert.rejects(
+      mapWithConcurrency([1, 2, 3], 2, async (n) => {
+        if (n === 2) {
+          throw new Error("boom");
+        }
+        return n;
+      }),
+      /boom/
+    );
+  });
+
+  test("forEachBatch should run batches in order", async () => {
+    const batches: number[][] = [];
+    const processed = await forEachBatch(
+      [1, 2, 3, 4, 5],
+      2,
+      async (batch, done) => {
+        assert.strictEqual(done, batches.flat().length);
+        batches.push(batch);
+      }
+    );
+
+    assert.deepStrictEqual(batches, [[1, 2], [3, 4], [5]]);
+    assert.strictEqual(processed, 5);
+    assert.strictEqual(await forEachBatch([], 2, async () => {}), 0);
+  });
+
+  test("forEachBatch should stop between batches when cancelled", async () => {
+    const batches: number[][] = [];
+    const processed = await forEachBatch(
+      [1, 2, 3, 4, 5],
+      2,
+      async (batch) => {
+        batches.push(batch);
+      },
+      () => batches.length === 2
+    );
+
+    assert.deepStrictEqual(batches, [
+      [1, 2],
+      [3, 4],
+    ]);
+    assert.strictEqual(processed, 4);
+  });
+
+  test("S3Cache.invalidateKey should drop only affected listings", () => {
+    const cache = new S3Cache();
+    for (const prefix of [undefined, "a/", "a/b/", "a/b/c/", "x/"]) {
+      cache.set("bucket", [], [], false, undefined, prefix);
+    }
+
+    // A prefix drops itself, everything below it and its parents
+    cache.invalidateKey("bucket", "a/b/");
+    assert.strictEqual(cache.get("bucket"), null);
+    assert.strictEqual(cache.get("bucket", "a/"), null);
+    assert.strictEqual(cache.get("bucket", "a/b/"), null);
+    assert.strictEqual(cache.get("bucket", "a/b/c/"), null);
+    assert.ok(cache.get("bucket", "x/"), "Unrelated prefix should stay cached");
+
+    // An object only drops the listings above it
+    cache.set("bucket", [], [], false, undefined, "x/");
+    cache.set("bucket", [], [], false, undefined, "x/y/");
+    cache.invalidateKey("bucket", "x/file.txt");
+    assert.strictEqual(cache.get("bucket", "x/"), null);
+    assert.ok(cache.get("bucket", "x/y/"), "Child prefix should stay cached");
+  });
+
+  test("CoalescingQueue should run a key once after a burst", async () => {
+    const runs: string[] = [];
+    const queue = new CoalescingQueue<string>(10, async (key) => {
+      runs.push(key);
+    });
+
+    queue.schedule("a");
+    queue.schedule("b");
+    queue.schedule("a");
+    queue.schedule("a");
+    assert.strictEqual(queue.pending, 2);
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert.deepStrictEqual(runs.sort(), ["a", "b"]);
+    assert.strictEqual(queue.pending, 0);
+    queue.dispose();
+  });
+
+  test("CoalescingQueue should rerun a key changed while it runs", async () => {
+    let runs = 0;
+    const queue = new CoalescingQueue<string>(5, async () => {
+      runs++;
+      await new Promise((resolve) => setTimeout(resolve, 30));
+    });
+
+    queue.schedule("a");
+    await new Promise((resolve) => setTimeout(resolve, 15));
+    assert.strictEqual(queue.current, "a");
+
+    // Several saves during the upload lead to a single follow-up run
+    queue.schedule("a");
+    queue.schedule("a");
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    assert.strictEqual(runs, 2);
+    assert.strictEqual(queue.current, undefined);
+    queue.dispose();
+  });
+});
+
+suite("Multipart Utilities (Pure Functions)", () => {
+  test("getPartRanges should cover the object with inclusive ranges", () => {
+    assert.deepStrictEqual(getPartRanges(25, 10), [
+      { partNumber: 1, start: 0, end: 9 },
+      { partNumber: 2, start: 10, end: 19 },
+      { partNumber: 3, start: 20, end: 24 },
+    ]);
+    assert.deepStrictEqual(getPartRanges(20, 10).length, 2);
+    assert.deepStrictEqual(getPartRanges(0, 10), []);
+  });
+
+  test("choosePartSize should respect the part count and size limits", () => {
+    const gb = 1024 * 1024 * 1024;
+
+    assert.strictEqual(choosePartSize(6 * gb, 512 * 1024 * 1024), 512 * 1024 * 1024);
+    assert.strictEqual(choosePartSize(1024, 1), MIN_PART_SIZE);
+
+    // 5TB needs bigger parts to stay within 10,000 parts
+    const partSize = choosePartSize(5 * 1024 * gb, 512 * 1024 * 1024);
+    assert.ok(Math.ceil((5 * 1024 * gb) / partSize) <= MAX_PARTS);
+
+    assert.throws(() => choosePartSize(MAX_PARTS * 6 * gb, MIN_PART_SIZE));
+  });
+
+  test("getResumableParts should keep only complete parts of the file", () => {
+    // Parts of 10, 10 and 5 bytes
+    const parts = getResumableParts(25, 10, [
+      { partNumber: 1, etag: '"a"', size: 10 },
+      { partNumber: 2, etag: '"b"', size: 4 }, // Cut short
+      { partNumber: 3, etag: '"c"', size: 5 },
+      { partNumber: 4, etag: '"d"', size: 10 }, // Past the end of the file
+      { partNumber: 5, etag: '"e"' }, // Past the end, size not reported
+    ]);
+
+    assert.deepStrictEqual(parts, [
+      { partNumber: 1, etag: '"a"' },
+      { partNumber: 3, etag: '"c"' },
+    ]);
+    assert.deepStrictEqual(
+      getResumableParts(25, 10, [{ partNumber: 1, etag: '"a"' }]),
+      []
+    );
+  });
+
+  test("getResumableParts should drop parts from a different part size", () => {
+    // Uploaded with 10-byte parts, but the layout now uses 20-byte parts
+    const parts = getResumableParts(25, 20, [
+      { partNumber: 1, etag: '"a"', size: 10 },
+      { partNumber: 2, etag: '"b"', size: 10 },
+    ]);
+
+    assert.deepStrictEqual(parts, []);
+  });
+});
+
+suite("Local File Utilities (Pure Functions)", () => {
+  test("createIgnoreMatcher should follow gitignore rules", () => {
+    const isIgnored = createIgnoreMatcher(
+      parseIgnorePatterns(
+        [
+          "# comment",
+          "",
+          "*.log",
+          "!keep.log",
+          "build/",
+          "/root.txt",
+          "docs/**/*.tmp",
+          "cache?",
+        ].join("\n")
+      )
+    );
+
+    assert.strictEqual(isIgnored("debug.log", false), true);
+    assert.strictEqual(isIgnored("nested/debug.log", false), true);
+    assert.strictEqual(isIgnored("nested/keep.log", false), false);
+    assert.strictEqual(isIgnored("build", true), true);
+    assert.strictEqual(isIgnored("build", false), false, "Directory only");
+    assert.strictEqual(isIgnored("root.txt", false), true);
+    assert.strictEqual(isIgnored("sub/root.txt", false), false, "Anchored");
+    assert.strictEqual(isIgnored("docs/a.tmp", false), true);
+    assert.strictEqual(isIgnored("docs/a/b/c.tmp", false), true);
+    assert.strictEqual(isIgnored("cache1", true), true);
+    assert.strictEqual(isIgnored("readme.md", false), false);
+  });
+
+  test("isPathIgnored should apply directory patterns to parents", () => {
+    const isIgnored = createIgnoreMatcher(["build/", "*.log"]);
+
+    assert.strictEqual(isPathIgnored(isIgnored, "build/out/app.js"), true);
+    assert.strictEqual(isPathIgnored(isIgnored, "src/app.log"), true);
+    assert.strictEqual(isPathIgnored(isIgnored, "src/build.txt"), false);
+  });
+
+  test("walkLocalFolder should list files and skip ignored directories", async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "s3x-walk-"));
+    try {
+      fs.mkdirSync(path.join(root, "src", "deep"), { recursive: true });
+      fs.mkdirSync(path.join(root, "node_modules"));
+      fs.writeFileSync(path.join(root, "a.txt"), "a");
+      fs.writeFileSync(path.join(root, "src", "deep", "b.txt"), "bb");
+      fs.writeFileSync(path.join(root, "src", "skip.log"), "");
+      fs.writeFileSync(path.join(root, "node_modules", "c.js"), "");
+
+      const files = await walkLocalFolder(
+        root,
+        createIgnoreMatcher(["node_modules/", "*.log"])
+      );
+
+      assert.deepStrictEqual(
+        files.map((file) => [file.relativePath, file.size]),
+        [
+          ["a.txt", 1],
+          ["src/deep/b.txt", 2],
+        ]
+      );
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  test("keyToLocalPath should stay inside the download folder", () => {
+    const root = path.join(os.tmpdir(), "download");
+
+    assert.strictEqual(
+      keyToLocalPath(root, "a/b/c.txt"),
+      path.join(root, "a", "b", "c.txt")
+    );
+    assert.strictEqual(
+      keyToLocalPath(root, "a//b/"),
+      path.join(root, "a", "b")
+    );
+    assert.strictEqual(keyToLocalPath(root, "../escape.txt"), undefined);
+    assert.strictEqual(keyToLocalPath(root, "a/./b"), undefined);
+    assert.strictEqual(keyToLocalPath(root, "a\\..\\b"), undefined);
+    assert.strictEqual(keyToLocalPath(root, ""), undefined);
+  });
+
+  test("isUnchanged should compare MD5 ETags, or size and time for multipart", async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "s3x-md5-"));
+    try {
+      const filePath = path.join(root, "hello.txt");
+      fs.writeFileSync(filePath, "hello");
+      const md5 = () => computeFileMd5(filePath);
+      const local = { size: 5, modified: 1000 };
+
+      // MD5 of "hello"
+      const etag = '"5d41402abc4b2a76b9719d911017c592"';
+      assert.strictEqual(
+        await isUnchanged(local, { size: 5, etag }, "upload", md5),
+        true
+      );
+      assert.strictEqual(
+        await isUnchanged(
+          local,
+          { size: 5, etag: '"00000000000000000000000000000000"' },
+          "upload",
+          md5
+        ),
+        false
+      );
+      assert.strictEqual(
+        await isUnchanged(local, { size: 6, etag }, "upload", md5),
+        false
+      );
+
+      const multipart = { size: 5, etag: '"abc-2"' };
+      assert.strictEqual(
+        await isUnchanged(
+          local,
+          { ...multipart, lastModified: new Date(2000) },
+          "upload",
+          md5
+        ),
+        true
+      );
+      assert.strictEqual(
+        await isUnchanged(
+          local,
+          { ...multipart, lastModified: new Date(500) },
+          "upload",
+          md5
+        ),
+        false
+      );
+
+      // Downloads replace the local file, so a newer object is a change
+      assert.strictEqual(
+        await isUnchanged(
+          local,
+          { ...multipart, lastModified: new Date(2000) },
+          "download",
+          md5
+        ),
+        false
+      );
+      assert.strictEqual(
+        await isUnchanged(
+          local,
+          { ...multipart, lastModified: new Date(500) },
+          "download",
+          md5
+        ),
+        true
+      );
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+  test("trackLocalWrite should mark files while written and shortly after", async () => {
+    const filePath = path.join(os.tmpdir(), "s3x-tracked", "a.txt");
+    assert.strictEqual(isLocalWrite(filePath), false);
+
+    await trackLocalWrite([filePath], async () => {
+      assert.strictEqual(isLocalWrite(filePath), true);
+      assert.strictEqual(
+        isLocalWrite(path.join(filePath, "..", "a.txt")),
+        true
+      );
+      assert.strictEqual(isLocalWrite(`${filePath}.other`), false);
+    });
+
+    assert.strictEqual(isLocalWrite(filePath), true);
+    assert.strictEqual(
+      isLocalWrite(filePath, Date.now() + LOCAL_WRITE_SETTLE_MS + 1),
+      false
+    );
+
+    await assert.rejects(
+      trackLocalWrite([filePath], async () => {
+        throw new Error("disk full");
+      }),
+      /disk full/
+    );
+    assert.strictEqual(isLocalWrite(filePath), true);
+  });
+});
+
+suite("Sync Utilities (Pure Functions)", () => {
+  const local = (relativePath: string) => ({
+    path: `/local/${relativePath}`,
+    relativePath,
+    size: 1,
+    modified: 0,
+  });
+  const remote = (relativePath: string) => ({
+    relativePath,
+    object: { key: `prefix/${relativePath}`, size: 1 },
+  });
+  const localFiles = [local("same.txt"), local("changed.txt"), local("new.txt")];
+  const remoteFiles = [
+    remote("same.txt"),
+    remote("changed.txt"),
+    remote("remote-only.txt"),
+  ];
+  const isSame = async (file: { relativePath: string }) =>
+    file.relativePath === "same.txt";
+
+  test("planSync should push new and changed files", async () => {
+    const plan = await planSync(
+      localFiles,
+      remoteFiles,
+      { direction: "push", mirror: false },
+      isSame
+    );
+
+    assert.deepStrictEqual(
+      plan.uploads.map((upload) => upload.local.relativePath),
+      ["changed.txt", "new.txt"]
+    );
+    assert.strictEqual(plan.uploads[0].remote?.key, "prefix/changed.txt");
+    assert.strictEqual(plan.downloads.length, 0);
+    assert.strictEqual(plan.deleteRemote.length, 0);
+    assert.strictEqual(plan.unchanged, 1);
+  });
+
+  test("planSync should delete extra files only when mirroring", async () => {
+    const push = await planSync(
+      localFiles,
+      remoteFiles,
+      { direction: "push", mirror: true },
+      isSame
+    );
+    assert.deepStrictEqual(
+      push.deleteRemote.map((file) => file.relativePath),
+      ["remote-only.txt"]
+    );
+
+    const pull = await planSync(
+      localFiles,
+      remoteFiles,
+      { direction: "pull", mirror: true },
+      isSame
+    );
+    assert.deepStrictEqual(
+      pull.downloads.map((download) => download.remote.relativePath),
+      ["changed.txt", "remote-only.txt"]
+    );
+    assert.deepStrictEqual(
+      pull.deleteLocal.map((file) => file.relativePath),
+      ["new.txt"]
+    );
+    assert.strictEqual(countSyncChanges(pull), 3);
+
+    const text = formatSyncPlan(pull, "/local", "bucket/prefix/");
+    assert.ok(text.includes("download (changed)  changed.txt"));
+    assert.ok(text.includes("delete local  new.txt"));
+    assert.ok(text.includes("2 to download, 1 to delete, 1 unchanged"));
+  });
+
+  test("formatSyncComparison should list differences on both sides", async () => {
+    const plan = await planSync(
+      localFiles,
+      remoteFiles,
+      { direction: "push", mirror: true },
+      isSame
+    );
+    const text = formatSyncComparison(plan, "/local", "bucket/prefix/");
+
+    assert.ok(text.includes("differs  changed.txt"));
+    assert.ok(text.includes("local only  new.txt"));
+    assert.ok(text.includes("remote only  remote-only.txt"));
+    assert.ok(text.includes("1 differ, 1 local only, 1 remote only, 1 identical"));
+  });
+
+  test("planSync should pull a newer multipart object of the same size", async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "s3x-sync-"));
+    try {
+      const filePath = path.join(root, "big.bin");
+      fs.writeFileSync(filePath, "hello");
+      const file = { ...local("big.bin"), path: filePath, size: 5 };
+      const object = {
+        key: "prefix/big.bin",
+        size: 5,
+        etag: '"abc-2"',
+        lastModified: new Date(file.modified + 1000),
+      };
+
+      const pull = { direction: "pull" as const, mirror: false };
+      const plan = await planSync(
+        [file],
+        [{ relativePath: "big.bin", object }],
+        pull,
+        (local, remote) => isSyncedFile(local, remote, pull)
+      );
+      assert.deepStrictEqual(
+        plan.downloads.map((download) => download.remote.relativePath),
+        ["big.bin"]
+      );
+
+      // A push compares the other way: the local file is not newer
+      const push = { direction: "push" as const, mirror: false };
+      assert.strictEqual(await isSyncedFile(file, object, push), true);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
+
+suite("Drift Utilities (Pure Functions)", () => {
+  const leftObjects = [
+    { key: "staging/", size: 0 },
+    { key: "staging/app.json", size: 10, etag: '"aaa"' },
+    { key: "staging/db.json", size: 20, etag: '"bbb"' },
+    { key: "staging/old.txt", size: 5, etag: '"ccc"' },
+  ];
+  const rightObjects = [
+    { key: "prod/app.json", size: 10, etag: '"AAA"' },
+    { key: "prod/db.json", size: 20, etag: '"zzz"' },
+    { key: "prod/new, file.txt", size: 7, etag: '"ddd"' },
+  ];
+
+  test("compareListings should classify keys by size and ETag", () => {
+    const entries = compareListings(
+      leftObjects,
+      "staging/",
+      rightObjects,
+      "prod/"
+    );
+
+    assert.deepStrictEqual(
+      entries.map((entry) => [entry.relativePath, entry.status]),
+      [
+        ["app.json", "same"],
+        ["db.json", "different"],
+        ["new, file.txt", "onlyRight"],
+        ["old.txt", "onlyLeft"],
+      ]
+    );
+    assert.deepStrictEqual(summarizeDrift(entries), {
+      onlyLeft: 1,
+      onlyRight: 1,
+      same: 1,
+      different: 1,
+    });
+  });
+
+  test("formatDriftCsv should quote fields that need it", () => {
+    const csv = formatDriftCsv({
+      left: { bucket: "a", prefix: "staging/" },
+      right: { bucket: "b", prefix: "prod/" },
+      entries: compareListings(leftObjects, "staging/", rightObjects, "prod/"),
+    });
+    const lines = csv.split("\r\n");
+
+    assert.strictEqual(lines.length, 5);
+    assert.ok(lines[0].startsWith("key,status,left_size"));
+    assert.strictEqual(lines[1], "app.json,same,10,aaa,,10,aaa,");
+    assert.strictEqual(lines[3], '"new, file.txt",onlyRight,,,,7,ddd,');
+  });
+});
+
+suite("CORS Utilities (Pure Functions)", () => {
+  test("parseCorsConfiguration should accept the upload template", () => {
+    const text = formatCorsConfiguration(CORS_UPLOAD_TEMPLATE);
+    const { rules, errors } = parseCorsConfiguration(text);
+
+    assert.deepStrictEqual(errors, []);
+    assert.deepStrictEqual(rules, CORS_UPLOAD_TEMPLATE);
+  });
+
+  test("parseCorsConfiguration should report invalid rules", () => {
+    const text = JSON.stringify({
+      CORSRules: [
+        {
+          AllowedOrigins: ["https://*.*.example.com"],
+          AllowedMethods: ["GET", "PATCH"],
+          ExposeHeaders: ["*"],
+          MaxAgeSeconds: -1,
+          Origin: "typo",
+        },
+        { AllowedOrigins: [], AllowedMethods: ["GET"] },
+      ],
+    });
+    const { rules, errors } = parseCorsConfiguration(text);
+
+    assert.deepStrictEqual(rules, []);
+    assert.deepStrictEqual(errors, [
+      'Rule 1: unknown property "Origin"',
+      'Rule 1: origin "https://*.*.example.com" has more than one "*"',
+      'Rule 1: "PATCH" is not one of GET, PUT, POST, DELETE, HEAD',
+      'Rule 1: ExposeHeaders cannot use "*"',
+      "Rule 1: MaxAgeSeconds must be a whole number of seconds",
+      "Rule 2: AllowedOrigins must list at least one origin",
+    ]);
+  });
+
+  test("parseCorsConfiguration should reject malformed documents", () => {
+    assert.ok(parseCorsConfiguration("{").errors[0].startsWith("Invalid JSON"));
+    assert.deepStrictEqual(parseCorsConfiguration("[]").errors, [
+      'Expected { "CORSRules": [...] }',
+    ]);
+    assert.strictEqual(
+      parseCorsConfiguration('{"CORSRules": []}').errors.length,
+      1
+    );
+  });
+});
+
+suite("Lifecycle Utilities (Pure Functions)", () => {
+  test("describeLifecycleRule should describe each kind of action", () => {
+    assert.deepStrictEqual(describeLifecycleRule(LIFECYCLE_TEMPLATE[0]), [
+      "Objects under logs/ expire after 30 days",
+    ]);
+    assert.deepStrictEqual(describeLifecycleRule(LIFECYCLE_TEMPLATE[1]), [
+      "Abort incomplete multipart uploads after 7 days",
+    ]);
+    assert.deepStrictEqual(
+      describeLifecycleRule({
+        Status: "Enabled",
+        Filter: {
+          And: { Prefix: "raw/", Tags: [{ Key: "tier", Value: "cold" }] },
+        },
+        Transitions: [
+          { Days: 30, StorageClass: "STANDARD_IA" },
+          { Date: "2030-01-01T00:00:00.000Z", StorageClass: "GLACIER" },
+        ],
+        Expiration: { Days: 365 },
+        NoncurrentVersionExpiration: {
+          NoncurrentDays: 1,
+          NewerNoncurrentVersions: 3,
+        },
+      }),
+      [
+        "Objects under raw/ tagged tier=cold move to STANDARD_IA after 30 days, move to GLACIER on 2030-01-01 and expire after 365 days",
+        "Noncurrent versions of objects under raw/ tagged tier=cold expire after 1 day (keeping the newest 3)",
+      ]
+    );
+  });
+
+  test("parseLifecycleConfiguration should accept the template", () => {
+    const text = formatLifecycleConfiguration(LIFECYCLE_TEMPLATE);
+    const { rules, errors } = parseLifecycleConfiguration(text);
+
+    assert.deepStrictEqual(errors, []);
+    assert.deepStrictEqual(rules, LIFECYCLE_TEMPLATE);
+    assert.deepStrictEqual(parseLifecycleConfiguration('{"Rules": []}'), {
+      rules: [],
+      errors: [],
+    });
+  });
+
+  test("parseLifecycleConfiguration should report invalid rules", () => {
+    const text = JSON.stringify({
+      Rules: [
+        {
+          ID: "a",
+          Status: "On",
+          Filter: { Tag: { Key: "k", Value: "v" } },
+          Expiration: { Days: 0 },
+          AbortIncompleteMultipartUpload: { DaysAfterInitiation: 7 },
+        },
+        {
+          ID: "a",
+          Status: "Enabled",
+          Transitions: [{ Days: 0, StorageClass: "COLD" }],
+        },
+        { Status: "Disabled", Filter: {} },
+      ],
+    });
+
+    assert.deepStrictEqual(parseLifecycleConfiguration(text).errors, [
+      'Rule 1: Status must be "Enabled" or "Disabled"',
+      "Rule 1: Expiration.Days must be a whole number of days, at least 1",
+      "Rule 1: AbortIncompleteMultipartUpload cannot be used with tag filters",
+      'Rule 2: ID "a" is used more than once',
+      "Rule 2: Transitions[0].StorageClass must be one of STANDARD_IA, ONEZONE_IA, INTELLIGENT_TIERING, GLACIER_IR, GLACIER, DEEP_ARCHIVE",
+      "Rule 3: add at least one action, such as Expiration",
+    ]);
+  });
+});
+
+suite("Policy Utilities (Pure Functions)", () => {
+  test("lintBucketPolicy should accept the template", () => {
+    assert.deepStrictEqual(
+      lintBucketPolicy(createPolicyTemplate("assets"), "assets"),
+      []
+    );
+  });
+
+  test("lintBucketPolicy should flag public and foreign grants", () => {
+    const policy = JSON.stringify({
+      Version: "2012-10-17",
+      Statement: [
+        {
+          Effect: "Allow",
+          Principal: { AWS: ["arn:aws:iam::123456789012:root", "*"] },
+          Action: "s3:GetObject",
+          Resource: ["arn:aws:s3:::assets/*", "arn:aws:s3:::other/*"],
+        },
+      ],
+    });
+
+    assert.deepStrictEqual(
+      lintBucketPolicy(policy, "assets").map((finding) => [
+        finding.code,
+        finding.severity,
+        finding.path.join("/"),
+      ]),
+      [
+        ["publicPrincipal", "warning", "Statement/0/Principal/AWS"],
+        ["resource", "error", "Statement/0/Resource/1"],
+        ["secureTransport", "warning", "Statement"],
+      ]
+    );
+    assert.strictEqual(lintBucketPolicy("{", "assets")[0].code, "syntax");
+  });
+
+  test("findJsonLocation should find keys and list items", () => {
+    const text = '{\n  "a": [1, {"b\\"": "x, y"}],\n  "c": {"d": true}\n}';
+    const slice = (path: Array<string | number>) => {
+      const location = findJsonLocation(text, path);
+      return location && text.substring(location.start, location.end);
+    };
+
+    assert.strictEqual(slice(["a", 1, 'b"']), '"b\\"": "x, y"');
+    assert.strictEqual(slice(["a", 0]), "1");
+    assert.strictEqual(slice(["c", "d"]), '"d": true');
+    assert.strictEqual(slice(["c", "missing"]), undefined);
+    assert.strictEqual(slice([]), text);
+  });
+});
+
+suite("Bucket Properties Utilities (Pure Functions)", () => {
+  test("normalizeBucketRegion should map legacy location constraints", () => {
+    assert.strictEqual(normalizeBucketRegion(undefined), "us-east-1");
+    assert.strictEqual(normalizeBucketRegion(""), "us-east-1");
+    assert.strictEqual(normalizeBucketRegion("EU"), "eu-west-1");
+    assert.strictEqual(normalizeBucketRegion("ap-south-1"), "ap-south-1");
+  });
+
+  test("getLocationConstraint should leave out the default region", () => {
+    assert.strictEqual(getLocationConstraint(undefined), undefined);
+    assert.strictEqual(getLocationConstraint(""), undefined);
+    assert.strictEqual(getLocationConstraint("us-east-1"), undefined);
+    assert.strictEqual(getLocationConstraint("eu-west-1"), "eu-west-1");
+  });
+
+  test("getUnblockedPublicAccess should list settings that are off", () => {
+    assert.deepStrictEqual(
+      getUnblockedPublicAccess({
+        blockPublicAcls: true,
+        ignorePublicAcls: true,
+        blockPublicPolicy: true,
+        restrictPublicBuckets: true,
+      }),
+      []
+    );
+    assert.deepStrictEqual(
+      getUnblockedPublicAccess({ blockPublicAcls: true }),
+      ["IgnorePublicAcls", "BlockPublicPolicy", "RestrictPublicBuckets"]
+    );
+  });
+
+  test("describeEncryption and describeObjectLock should summarize", () => {
+    assert.strictEqual(
+      describeEncryption([
+        { algorithm: "aws:kms", kmsKeyId: "alias/s3", bucketKeyEnabled: true },
+      ]),
+      "SSE-KMS with key alias/s3, bucket key enabled"
+    );
+    assert.strictEqual(
+      describeEncryption([{ algorithm: "AES256" }]),
+      "SSE-S3 (AES256)"
+    );
+    assert.strictEqual(
+      describeObjectLock({ mode: "COMPLIANCE", years: 1 }),
+      "Enabled, COMPLIANCE retention for 1 year by default"
+    );
+    assert.strictEqual(
+      describeObjectLock({}),
+      "Enabled, without default retention"
+    );
+  });
+});
+
+suite("Tag Utilities (Pure Functions)", () => {
+  test("parseTags should split on commas and the first equals sign", () => {
+    assert.deepStrictEqual(parseTags(" env=prod, query=a=b,empty,, "), {
+      tags: { env: "prod", query: "a=b", empty: "" },
+      errors: [],
+    });
+    assert.deepStrictEqual(parseTags(""), { tags: {}, errors: [] });
+    assert.deepStrictEqual(parseTags("a=1, a=2").errors, [
+      'Tag "a" is listed twice',
+    ]);
+  });
+
+  test("validateTags should enforce S3 tag limits", () => {
+    const eleven = Object.fromEntries(
+      Array.from({ length: 11 }, (_, i) => [`k${i}`, "v"])
+    );
+    assert.deepStrictEqual(validateTags(eleven), [
+      "Objects can have at most 10 tags, not 11",
+    ]);
+    assert.strictEqual(validateTags({ "aws:owner": "me" }).length, 1);
+    assert.strictEqual(validateTags({ ["x".repeat(129)]: "" }).length, 1);
+    assert.strictEqual(validateTags({ key: "a;b" }).length, 1);
+    assert.deepStrictEqual(validateTags({ "path/to": "a b+c@d:e" }), []);
+  });
+
+  test("applyTagChange should merge, remove and replace", () => {
+    const current = { env: "dev", team: "data" };
+    assert.deepStrictEqual(
+      applyTagChange(current, { mode: "merge", tags: { env: "prod" } }),
+      { env: "prod", team: "data" }
+    );
+    assert.deepStrictEqual(
+      applyTagChange(current, { mode: "remove", keys: ["team", "other"] }),
+      { env: "dev" }
+    );
+    assert.deepStrictEqual(
+      applyTagChange(current, { mode: "replace", tags: { owner: "me" } }),
+      { owner: "me" }
+    );
+  });
+});
+
+suite("Secret Migration Utilities (Pure Functions)", () => {
+  test("planSecretMigration should report folders with different keys", () => {
+    const plan = planSecretMigration([
+      { scope: "user settings", connections: [{ name: "prod" }] },
+      {
+        scope: 'folder "api"',
+        secretAccessKey: "api-secret",
+        connections: [{ name: "prod", secretAccessKey: "prod-secret" }],
+      },
+      {
+        scope: 'folder "web"',
+        secretAccessKey: "web-secret",
+        connections: [{ name: "prod", secretAccessKey: "prod-secret" }],
+      },
+    ]);
+
+    // The same key in both folders is moved once
+    assert.deepStrictEqual([...plan.secrets], [["prod", "prod-secret"]]);
+    assert.deepStrictEqual(plan.conflicts, [
+      { connection: "", scopes: ['folder "api"', 'folder "web"'] },
+    ]);
+  });
+
+  test("planSecretMigration should move keys found in one scope", () => {
+    const plan = planSecretMigration([
+      { scope: "user settings", secretAccessKey: "default-secret" },
+      {
+        scope: "workspace settings",
+        connections: [
+          { name: "dev", secretAccessKey: "dev-secret" },
+          { secretAccessKey: "unnamed" },
+          null,
+        ],
+      },
+    ]);
+
+    assert.deepStrictEqual(
+      [...plan.secrets],
+      [
+        ["", "default-secret"],
+        ["dev", "dev-secret"],
+      ]
+    );
+    assert.deepStrictEqual(plan.conflicts, []);
+  });
 });
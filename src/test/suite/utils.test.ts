@@ -110,6 +110,44 @@ suite("Path Utilities Tests", () => {
     assert.throws(() => parseS3xUri("invalid-uri"), /Invalid S3X URI/);
   });
 
+  test("S3X URIs should carry the connection name", () => {
+    assert.strictEqual(
+      createS3xUri("bucket", "folder/file.txt", "staging"),
+      "s3x://staging@bucket/folder/file.txt"
+    );
+
+    const parsed = parseS3xUri("s3x://staging@bucket/folder/file.txt");
+    assert.strictEqual(parsed.connection, "staging");
+    assert.strictEqual(parsed.bucket, "bucket");
+    assert.strictEqual(parsed.key, "folder/file.txt");
+
+    assert.strictEqual(
+      parseS3xUri("s3x://bucket/file.txt").connection,
+      undefined
+    );
+  });
+
+  test("S3X URIs should carry a version ID", () => {
+    assert.strictEqual(
+      createS3xUri("bucket", "file.txt", "staging", "3/L4kq"),
+      "s3x://staging@bucket/file.txt?versionId=3%2FL4kq"
+    );
+
+    const parsed = parseS3xUri("s3x://staging@bucket/file.txt?versionId=abc");
+    assert.strictEqual(parsed.key, "file.txt");
+    assert.strictEqual(parsed.versionId, "abc");
+
+    // As produced by vscode.Uri.toString()
+    assert.strictEqual(
+      parseS3xUri("s3x://bucket/file.txt?versionId%3D3%2FL4kq").versionId,
+      "3/L4kq"
+    );
+    assert.strictEqual(
+      parseS3xUri("s3x://bucket/file.txt").versionId,
+      undefined
+    );
+  });
+
   test("isChildOf should detect parent-child relationships", () => {
     assert.strictEqual(isChildOf("folder/file.txt", "folder"), true);
     assert.strictEqual(isChildOf("folder/subfolder/file.txt", "folder"), true);
@@ -1,21 +1,30 @@
 import * as vscode from "vscode";
 import { listBuckets, listObjects } from "../s3/listing";
+import { getConnections } from "../s3/client";
+import { getMappings } from "../s3/mappings";
+import { getBucketLifecycle } from "../s3/buckets";
 import { S3Error } from "../types";
-import { s3Cache } from "../util/cache";
+import { getCache, invalidateAllCaches } from "../util/cache";
+import { promptForMoveOrCopy } from "../ui/prompts";
 import {
   BaseTreeNode,
   BucketNode,
   PrefixNode,
-  ObjectNode,
   LoadMoreNode,
+  LifecycleNode,
+  LifecycleRuleNode,
+  createConnectionNode,
+  createPinnedNode,
   createBucketNode,
   createPrefixNode,
   createObjectNode,
   createLoadMoreNode,
+  isConnectionNode,
   isBucketNode,
   isPrefixNode,
   isObjectNode,
   isLoadMoreNode,
+  isLifecycleNode,
 } from "./nodes";
 
 export class S3Explorer
@@ -34,24 +43,37 @@ export class S3Explorer
   dropMimeTypes = ["application/vnd.code.tree.s3xExplorer"];
   dragMimeTypes = ["text/uri-list", "application/vnd.code.tree.s3xExplorer"];
 
+  // Lifecycle nodes by bucket, so saving rules can refresh just that node
+  private lifecycleNodes = new Map<string, LifecycleNode>();
+
   constructor() {}
 
   refresh(element?: BaseTreeNode): void {
     if (element) {
       // Invalidate cache for specific element
-      if (isBucketNode(element)) {
-        s3Cache.invalidate(element.bucket);
+      const cache = getCache(element.connection);
+      if (isConnectionNode(element)) {
+        cache.invalidateAll();
+      } else if (isBucketNode(element)) {
+        cache.invalidate(element.bucket);
       } else if (isPrefixNode(element)) {
-        s3Cache.invalidate(element.bucket, element.prefix);
+        cache.invalidate(element.bucket, element.prefix);
       }
     } else {
       // Clear all cache
-      s3Cache.invalidateAll();
+      invalidateAllCaches();
     }
 
     this._onDidChangeTreeData.fire(element);
   }
 
+  refreshLifecycle(bucket: string, connection?: string): void {
+    const node = this.lifecycleNodes.get(`${connection || ""}/${bucket}`);
+    if (node) {
+      this._onDidChangeTreeData.fire(node);
+    }
+  }
+
   getTreeItem(element: BaseTreeNode): vscode.TreeItem {
     return element;
   }
@@ -59,18 +81,64 @@ export class S3Explorer
   async getChildren(element?: BaseTreeNode): Promise<BaseTreeNode[]> {
     try {
       if (!element) {
-        // Root level - show buckets
-        return await this.getBuckets();
+        // Root level - pinned folders from .vscode/s3x.json, then named
+        // connections, or the buckets of the default connection when none
+        // are configured
+        const pinned = getMappings().map(createPinnedNode);
+        const connections = getConnections();
+        if (connections.length > 0) {
+          return [
+            ...pinned,
+            ...connections.map((connection) =>
+              createConnectionNode(connection)
+            ),
+          ];
+        }
+        return [...pinned, ...(await this.getBuckets())];
+      }
+
+      if (isConnectionNode(element)) {
+        // Show buckets of a named connection
+        return await this.getBuckets(element.connection);
       }
 
       if (isBucketNode(element)) {
-        // Show contents of bucket (root level)
-        return await this.getBucketContents(element.bucket);
+        // Lifecycle rules, then the contents of the bucket (root level)
+        const lifecycle = new LifecycleNode(element.bucket, element.connection);
+        this.lifecycleNodes.set(
+          `${element.connection || ""}/${element.bucket}`,
+          lifecycle
+        );
+        return [
+          lifecycle,
+          ...(await this.getBucketContents(
+            element.bucket,
+            undefined,
+            element.connection
+          )),
+        ];
+      }
+
+      if (isLifecycleNode(element)) {
+        const { bucket, connection } = element;
+        const rules = await getBucketLifecycle(bucket, connection);
+        if (rules.length === 0) {
+          return [new LifecycleRuleNode(bucket, undefined, 0, connection)];
+        }
+        return rules.map(
+          (rule, index) =>
+            new LifecycleRuleNode(bucket, rule, index, connection)
+        );
       }
 
       if (isPrefixNode(element)) {
         // Show contents of prefix
-        return await this.getPrefixContents(element.bucket, element.prefix);
+        return await this.getPrefixContents(
+          element.bucket,
+          element.prefix,
+          undefined,
+          element.connection
+        );
       }
 
       if (isLoadMoreNode(element)) {
@@ -96,7 +164,7 @@ export class S3Explorer
             ? element.bucket
             : element.bucket;
           console.log(`Clearing cache for non-existent bucket: ${bucketName}`);
-          s3Cache.invalidate(bucketName);
+          getCache(element.connection).invalidate(bucketName);
         }
 
         // If this is a bucket node that doesn't exist, suggest refreshing the root
@@ -116,7 +184,21 @@ export class S3Explorer
         }
       }
 
-      if (S3Error.isAuthError(error)) {
+      if (S3Error.isSessionExpired(error)) {
+        vscode.window
+          .showErrorMessage(
+            "Your S3 session has expired. Re-authenticate to continue.",
+            "Re-authenticate"
+          )
+          .then((selection) => {
+            if (selection === "Re-authenticate") {
+              vscode.commands.executeCommand(
+                "s3x.reauth",
+                element?.connection
+              );
+            }
+          });
+      } else if (S3Error.isAuthError(error)) {
         vscode.window
           .showErrorMessage(
             "Authentication failed. Please check your S3 credentials.",
@@ -124,7 +206,10 @@ export class S3Explorer
           )
           .then((selection) => {
             if (selection === "Update Credentials") {
-              vscode.commands.executeCommand("s3x.configure");
+              vscode.commands.executeCommand(
+                "s3x.reauth",
+                element?.connection
+              );
             }
           });
       } else {
@@ -139,27 +224,36 @@ export class S3Explorer
     }
   }
 
-  private async getBuckets(): Promise<BucketNode[]> {
-    const buckets = await listBuckets();
-    return buckets.map((bucket) => createBucketNode(bucket));
+  private async getBuckets(connection?: string): Promise<BucketNode[]> {
+    const buckets = await listBuckets(connection);
+    return buckets.map((bucket) => createBucketNode(bucket, connection));
   }
 
   private async getBucketContents(
     bucket: string,
-    continuationToken?: string
+    continuationToken?: string,
+    connection?: string
   ): Promise<BaseTreeNode[]> {
+    const cache = getCache(connection);
+
     // Check cache first
-    const cached = s3Cache.get(bucket);
+    const cached = cache.get(bucket);
     if (cached && !continuationToken) {
-      return this.createNodesFromCache(bucket, cached, undefined);
+      return this.createNodesFromCache(bucket, cached, undefined, connection);
     }
 
     // Fetch from S3
-    const result = await listObjects(bucket, undefined, continuationToken);
+    const result = await listObjects(
+      bucket,
+      undefined,
+      continuationToken,
+      undefined,
+      connection
+    );
 
     if (continuationToken) {
       // Append to cache
-      s3Cache.append(
+      cache.append(
         bucket,
         result.objects,
         result.prefixes,
@@ -168,7 +262,7 @@ export class S3Explorer
       );
     } else {
       // Set new cache
-      s3Cache.set(
+      cache.set(
         bucket,
         result.objects,
         result.prefixes,
@@ -177,26 +271,35 @@ export class S3Explorer
       );
     }
 
-    return this.createNodes(bucket, result, undefined);
+    return this.createNodes(bucket, result, undefined, connection);
   }
 
   private async getPrefixContents(
     bucket: string,
     prefix: string,
-    continuationToken?: string
+    continuationToken?: string,
+    connection?: string
   ): Promise<BaseTreeNode[]> {
+    const cache = getCache(connection);
+
     // Check cache first
-    const cached = s3Cache.get(bucket, prefix);
+    const cached = cache.get(bucket, prefix);
     if (cached && !continuationToken) {
-      return this.createNodesFromCache(bucket, cached, prefix);
+      return this.createNodesFromCache(bucket, cached, prefix, connection);
     }
 
     // Fetch from S3
-    const result = await listObjects(bucket, prefix, continuationToken);
+    const result = await listObjects(
+      bucket,
+      prefix,
+      continuationToken,
+      undefined,
+      connection
+    );
 
     if (continuationToken) {
       // Append to cache
-      s3Cache.append(
+      cache.append(
         bucket,
         result.objects,
         result.prefixes,
@@ -206,7 +309,7 @@ export class S3Explorer
       );
     } else {
       // Set new cache
-      s3Cache.set(
+      cache.set(
         bucket,
         result.objects,
         result.prefixes,
@@ -216,29 +319,32 @@ export class S3Explorer
       );
     }
 
-    return this.createNodes(bucket, result, prefix);
+    return this.createNodes(bucket, result, prefix, connection);
   }
 
   private createNodes(
     bucket: string,
     result: any,
-    prefix?: string
+    prefix?: string,
+    connection?: string
   ): BaseTreeNode[] {
     const nodes: BaseTreeNode[] = [];
 
     // Add prefix nodes (folders)
     for (const prefixItem of result.prefixes) {
-      nodes.push(createPrefixNode(bucket, prefixItem, prefix));
+      nodes.push(createPrefixNode(bucket, prefixItem, prefix, connection));
     }
 
     // Add object nodes (files)
     for (const object of result.objects) {
-      nodes.push(createObjectNode(bucket, object, prefix));
+      nodes.push(createObjectNode(bucket, object, prefix, connection));
     }
 
     // Add "Load more" node if there are more results
     if (result.isTruncated && result.continuationToken) {
-      nodes.push(createLoadMoreNode(bucket, result.continuationToken, prefix));
+      nodes.push(
+        createLoadMoreNode(bucket, result.continuationToken, prefix, connection)
+      );
     }
 
     return nodes;
@@ -247,23 +353,26 @@ export class S3Explorer
   private createNodesFromCache(
     bucket: string,
     cached: any,
-    prefix?: string
+    prefix?: string,
+    connection?: string
   ): BaseTreeNode[] {
     const nodes: BaseTreeNode[] = [];
 
     // Add prefix nodes (folders)
     for (const prefixItem of cached.prefixes) {
-      nodes.push(createPrefixNode(bucket, prefixItem, prefix));
+      nodes.push(createPrefixNode(bucket, prefixItem, prefix, connection));
     }
 
     // Add object nodes (files)
     for (const object of cached.objects) {
-      nodes.push(createObjectNode(bucket, object, prefix));
+      nodes.push(createObjectNode(bucket, object, prefix, connection));
     }
 
     // Add "Load more" node if there are more results
     if (cached.isTruncated && cached.continuationToken) {
-      nodes.push(createLoadMoreNode(bucket, cached.continuationToken, prefix));
+      nodes.push(
+        createLoadMoreNode(bucket, cached.continuationToken, prefix, connection)
+      );
     }
 
     return nodes;
@@ -275,10 +384,15 @@ export class S3Explorer
         await this.getPrefixContents(
           node.bucket,
           node.prefix,
-          node.continuationToken
+          node.continuationToken,
+          node.connection
         );
       } else {
-        await this.getBucketContents(node.bucket, node.continuationToken);
+        await this.getBucketContents(
+          node.bucket,
+          node.continuationToken,
+          node.connection
+        );
       }
 
       // Refresh the parent to show new items
@@ -298,7 +412,9 @@ export class S3Explorer
     treeDataTransfer: vscode.DataTransfer,
     token: vscode.CancellationToken
   ): Promise<void> {
-    const items = source.filter(isObjectNode); // Only allow dragging objects for now
+    const items = source.filter(
+      (node) => isObjectNode(node) || isPrefixNode(node)
+    );
 
     if (items.length === 0) {
       return;
@@ -380,7 +496,7 @@ export class S3Explorer
 
   private async handleInternalDrop(
     target: BaseTreeNode | undefined,
-    sourceNodes: ObjectNode[]
+    sourceNodes: BaseTreeNode[]
   ): Promise<void> {
     if (!target || (!isBucketNode(target) && !isPrefixNode(target))) {
       vscode.window.showErrorMessage(
@@ -389,24 +505,18 @@ export class S3Explorer
       return;
     }
 
-    const action = await vscode.window.showQuickPick(["Copy", "Move"], {
-      placeHolder: "Choose action for selected objects",
-    });
-
+    const action = await promptForMoveOrCopy();
     if (!action) {
       return;
     }
 
-    try {
-      // TODO: Implement copy/move logic using the s3/ops module
-      vscode.window.showInformationMessage(
-        `${action} functionality will be implemented in the copy/move commands`
-      );
-    } catch (error) {
-      vscode.window.showErrorMessage(
-        `${action} failed: ${error instanceof Error ? error.message : error}`
-      );
-    }
+    // The copy/move commands handle collisions, progress and refreshing
+    await vscode.commands.executeCommand(
+      action === "copy" ? "s3x.copy" : "s3x.move",
+      sourceNodes[0],
+      sourceNodes,
+      target
+    );
   }
 
   private async handleUriListDrop(
@@ -442,11 +552,12 @@ export class S3Explorer
   // Helper method to find a node by its path
   async findNode(
     bucket: string,
-    key?: string
+    key?: string,
+    connection?: string
   ): Promise<BaseTreeNode | undefined> {
     if (!key) {
       // Looking for bucket
-      const buckets = await this.getBuckets();
+      const buckets = await this.getBuckets(connection);
       return buckets.find((b) => b.bucket === bucket);
     }
 
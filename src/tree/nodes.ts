@@ -1,11 +1,19 @@
 import * as vscode from "vscode";
-import { TreeNode, S3Bucket, S3Object, S3Prefix } from "../types";
+import {
+  TreeNode,
+  S3Bucket,
+  S3Object,
+  S3Prefix,
+  S3ConnectionSettings,
+  RemoteFolderMapping,
+} from "../types";
 import {
   formatFileSize,
   formatLastModified,
   getObjectDisplayName,
   getPrefixDisplayName,
 } from "../s3/listing";
+import { LifecycleRule, describeLifecycleRule } from "../util/lifecycle";
 import {
   createS3xUri,
   getFileName,
@@ -16,8 +24,16 @@ import {
 } from "../util/paths";
 
 export abstract class BaseTreeNode extends vscode.TreeItem implements TreeNode {
-  abstract readonly type: "bucket" | "prefix" | "object" | "loadMore";
+  abstract readonly type:
+    | "connection"
+    | "bucket"
+    | "prefix"
+    | "object"
+    | "loadMore"
+    | "lifecycle"
+    | "lifecycleRule";
   abstract readonly bucket: string;
+  abstract readonly connection?: string;
 
   constructor(
     label: string,
@@ -27,14 +43,34 @@ export abstract class BaseTreeNode extends vscode.TreeItem implements TreeNode {
   }
 }
 
+export class ConnectionNode extends BaseTreeNode {
+  readonly type = "connection" as const;
+  readonly bucket = ""; // Connections sit above buckets
+  readonly connection: string;
+
+  constructor(settings: S3ConnectionSettings) {
+    super(settings.name, vscode.TreeItemCollapsibleState.Collapsed);
+
+    this.connection = settings.name;
+    this.contextValue = "connection";
+    this.iconPath = new vscode.ThemeIcon("plug");
+    this.tooltip = `Connection: ${settings.name}\nEndpoint: ${
+      settings.endpointUrl || "Not configured"
+    }`;
+    this.description = getEndpointHost(settings.endpointUrl);
+  }
+}
+
 export class BucketNode extends BaseTreeNode {
   readonly type = "bucket" as const;
   readonly bucket: string;
+  readonly connection?: string;
 
-  constructor(bucket: S3Bucket) {
+  constructor(bucket: S3Bucket, connection?: string) {
     super(bucket.name, vscode.TreeItemCollapsibleState.Collapsed);
 
     this.bucket = bucket.name;
+    this.connection = connection;
     this.contextValue = "bucket";
     this.iconPath = new vscode.ThemeIcon("database");
     this.tooltip = `Bucket: ${bucket.name}`;
@@ -49,13 +85,20 @@ export class PrefixNode extends BaseTreeNode {
   readonly type = "prefix" as const;
   readonly bucket: string;
   readonly prefix: string;
+  readonly connection?: string;
 
-  constructor(bucket: string, prefix: S3Prefix, parentPrefix?: string) {
+  constructor(
+    bucket: string,
+    prefix: S3Prefix,
+    parentPrefix?: string,
+    connection?: string
+  ) {
     const displayName = getPrefixDisplayName(prefix.prefix, parentPrefix);
     super(displayName, vscode.TreeItemCollapsibleState.Collapsed);
 
     this.bucket = bucket;
     this.prefix = prefix.prefix;
+    this.connection = connection;
     this.contextValue = "prefix";
     this.iconPath = new vscode.ThemeIcon("folder");
     this.tooltip = `Folder: ${prefix.prefix}`;
@@ -69,12 +112,19 @@ export class ObjectNode extends BaseTreeNode {
   readonly size?: number;
   readonly lastModified?: Date;
   readonly etag?: string;
+  readonly connection?: string;
 
-  constructor(bucket: string, object: S3Object, prefix?: string) {
+  constructor(
+    bucket: string,
+    object: S3Object,
+    prefix?: string,
+    connection?: string
+  ) {
     const displayName = getObjectDisplayName(object.key, prefix);
     super(displayName, vscode.TreeItemCollapsibleState.None);
 
     this.bucket = bucket;
+    this.connection = connection;
     this.key = object.key;
     this.size = object.size;
     this.lastModified = object.lastModified;
@@ -82,7 +132,9 @@ export class ObjectNode extends BaseTreeNode {
 
     this.contextValue = "object";
     this.iconPath = this.getIconForObject(object.key);
-    this.resourceUri = vscode.Uri.parse(createS3xUri(bucket, object.key));
+    this.resourceUri = vscode.Uri.parse(
+      createS3xUri(bucket, object.key, connection)
+    );
 
     // Set up command to open the object when clicked
     this.command = {
@@ -187,11 +239,18 @@ export class LoadMoreNode extends BaseTreeNode {
   readonly bucket: string;
   readonly prefix?: string;
   readonly continuationToken: string;
+  readonly connection?: string;
 
-  constructor(bucket: string, continuationToken: string, prefix?: string) {
+  constructor(
+    bucket: string,
+    continuationToken: string,
+    prefix?: string,
+    connection?: string
+  ) {
     super("Load more...", vscode.TreeItemCollapsibleState.None);
 
     this.bucket = bucket;
+    this.connection = connection;
     this.prefix = prefix;
     this.continuationToken = continuationToken;
 
@@ -208,7 +267,87 @@ export class LoadMoreNode extends BaseTreeNode {
   }
 }
 
+/**
+ * Groups a bucket's lifecycle rules, which are loaded when expanded
+ */
+export class LifecycleNode extends BaseTreeNode {
+  readonly type = "lifecycle" as const;
+  readonly bucket: string;
+  readonly connection?: string;
+
+  constructor(bucket: string, connection?: string) {
+    super("Lifecycle Rules", vscode.TreeItemCollapsibleState.Collapsed);
+
+    this.bucket = bucket;
+    this.connection = connection;
+    this.contextValue = "lifecycle";
+    this.iconPath = new vscode.ThemeIcon("history");
+    this.tooltip = `Lifecycle rules of ${bucket}`;
+  }
+}
+
+/**
+ * One lifecycle rule, described in plain words. Without a rule it stands in
+ * for an empty lifecycle configuration and opens the editor when clicked.
+ */
+export class LifecycleRuleNode extends BaseTreeNode {
+  readonly type = "lifecycleRule" as const;
+  readonly bucket: string;
+  readonly connection?: string;
+
+  constructor(
+    bucket: string,
+    rule?: LifecycleRule,
+    index = 0,
+    connection?: string
+  ) {
+    const sentences = rule ? describeLifecycleRule(rule) : [];
+    super(
+      rule ? sentences.join("; ") : "No lifecycle rules",
+      vscode.TreeItemCollapsibleState.None
+    );
+
+    this.bucket = bucket;
+    this.connection = connection;
+    this.contextValue = "lifecycleRule";
+
+    if (!rule) {
+      this.iconPath = new vscode.ThemeIcon("info");
+      this.tooltip = "Click to add lifecycle rules";
+      this.command = {
+        command: "s3x.editLifecycle",
+        title: "Edit Lifecycle Rules",
+        arguments: [this],
+      };
+      return;
+    }
+
+    const enabled = rule.Status === "Enabled";
+    const name = rule.ID || `Rule ${index + 1}`;
+    this.iconPath = new vscode.ThemeIcon(enabled ? "watch" : "circle-slash");
+    this.description = enabled ? name : `${name} · Disabled`;
+    const status = enabled ? "" : " (disabled)";
+    this.tooltip = [`${name}${status}`, ...sentences].join("\n");
+  }
+}
+
+function getEndpointHost(endpointUrl?: string): string {
+  if (!endpointUrl) {
+    return "";
+  }
+
+  try {
+    return new URL(endpointUrl).host;
+  } catch {
+    return endpointUrl;
+  }
+}
+
 // Type guards for tree nodes
+export function isConnectionNode(node: any): node is ConnectionNode {
+  return node && node.type === "connection";
+}
+
 export function isBucketNode(node: any): node is BucketNode {
   return node && node.type === "bucket";
 }
@@ -225,33 +364,79 @@ export function isLoadMoreNode(node: any): node is LoadMoreNode {
   return node && node.type === "loadMore";
 }
 
+export function isLifecycleNode(node: any): node is LifecycleNode {
+  return node && node.type === "lifecycle";
+}
+
+export function isLifecycleRuleNode(node: any): node is LifecycleRuleNode {
+  return node && node.type === "lifecycleRule";
+}
+
 // Helper functions to create nodes
-export function createBucketNode(bucket: S3Bucket): BucketNode {
-  return new BucketNode(bucket);
+export function createConnectionNode(
+  settings: S3ConnectionSettings
+): ConnectionNode {
+  return new ConnectionNode(settings);
+}
+
+export function createBucketNode(
+  bucket: S3Bucket,
+  connection?: string
+): BucketNode {
+  return new BucketNode(bucket, connection);
 }
 
 export function createPrefixNode(
   bucket: string,
   prefix: S3Prefix,
-  parentPrefix?: string
+  parentPrefix?: string,
+  connection?: string
 ): PrefixNode {
-  return new PrefixNode(bucket, prefix, parentPrefix);
+  return new PrefixNode(bucket, prefix, parentPrefix, connection);
+}
+
+/**
+ * A mapped remote folder pinned to the top of the tree. It behaves like the
+ * bucket or prefix it points at.
+ */
+export function createPinnedNode(
+  mapping: RemoteFolderMapping
+): BucketNode | PrefixNode {
+  const node = mapping.prefix
+    ? new PrefixNode(
+        mapping.bucket,
+        { prefix: mapping.prefix },
+        undefined,
+        mapping.connection
+      )
+    : new BucketNode({ name: mapping.bucket }, mapping.connection);
+
+  node.label = mapping.name || `${mapping.bucket}/${mapping.prefix}`;
+  node.description = `↔ ${mapping.local}`;
+  node.iconPath = new vscode.ThemeIcon("pinned");
+  node.tooltip = `Linked to ${mapping.localPath}\n${
+    mapping.connection ? `${mapping.connection}: ` : ""
+  }${mapping.bucket}/${mapping.prefix}`;
+
+  return node;
 }
 
 export function createObjectNode(
   bucket: string,
   object: S3Object,
-  prefix?: string
+  prefix?: string,
+  connection?: string
 ): ObjectNode {
-  return new ObjectNode(bucket, object, prefix);
+  return new ObjectNode(bucket, object, prefix, connection);
 }
 
 export function createLoadMoreNode(
   bucket: string,
   continuationToken: string,
-  prefix?: string
+  prefix?: string,
+  connection?: string
 ): LoadMoreNode {
-  return new LoadMoreNode(bucket, continuationToken, prefix);
+  return new LoadMoreNode(bucket, continuationToken, prefix, connection);
 }
 
 // Utility to convert tree nodes to simple TreeNode interface
@@ -259,6 +444,7 @@ export function toTreeNode(node: BaseTreeNode): TreeNode {
   const base: TreeNode = {
     type: node.type,
     bucket: node.bucket,
+    connection: node.connection,
   };
 
   if (isPrefixNode(node)) {
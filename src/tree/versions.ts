@@ -0,0 +1,180 @@
+import * as vscode from "vscode";
+import {
+  formatFileSize,
+  listKeyVersions,
+  listObjectVersions,
+} from "../s3/listing";
+import { S3ObjectVersion } from "../types";
+import { createS3xUri, getFileName, getRelativePath } from "../util/paths";
+
+// Prefixes can hold a long history; only this many entries are listed
+const MAX_VERSIONS = 1000;
+
+// An object key, or a prefix ending in "/"
+export interface VersionsTarget {
+  bucket: string;
+  key: string;
+  connection?: string;
+}
+
+export class VersionNode extends vscode.TreeItem {
+  readonly bucket: string;
+  readonly connection?: string;
+  readonly version: S3ObjectVersion;
+
+  constructor(bucket: string, version: S3ObjectVersion, connection?: string) {
+    super(
+      version.lastModified?.toLocaleString() || version.versionId,
+      vscode.TreeItemCollapsibleState.None
+    );
+
+    this.bucket = bucket;
+    this.connection = connection;
+    this.version = version;
+
+    const latest = version.isLatest ? "Latest · " : "";
+    if (version.isDeleteMarker) {
+      this.contextValue = version.isLatest
+        ? "deleteMarker.latest"
+        : "deleteMarker";
+      this.iconPath = new vscode.ThemeIcon("trash");
+      this.description = `${latest}Delete marker`;
+    } else {
+      this.contextValue = version.isLatest ? "version.latest" : "version";
+      this.iconPath = new vscode.ThemeIcon(
+        version.isLatest ? "check" : "history"
+      );
+      this.description = `${latest}${formatFileSize(version.size)} · ${
+        version.versionId
+      }`;
+      this.resourceUri = vscode.Uri.parse(
+        createS3xUri(bucket, version.key, connection, version.versionId)
+      );
+      this.command = {
+        command: "vscode.open",
+        title: "Open Version",
+        arguments: [this.resourceUri],
+      };
+    }
+
+    this.tooltip = [
+      version.key,
+      `Version: ${version.versionId}`,
+      version.isDeleteMarker
+        ? "Delete marker"
+        : `Size: ${formatFileSize(version.size)}`,
+      `Modified: ${version.lastModified?.toLocaleString() || "Unknown"}`,
+      version.storageClass ? `Storage class: ${version.storageClass}` : "",
+      version.isLatest ? "Latest version" : "",
+    ]
+      .filter(Boolean)
+      .join("\n");
+  }
+}
+
+class VersionedKeyNode extends vscode.TreeItem {
+  constructor(label: string, readonly versions: VersionNode[]) {
+    super(label, vscode.TreeItemCollapsibleState.Collapsed);
+
+    const deleted = versions[0]?.version.isDeleteMarker;
+    this.contextValue = "versionedKey";
+    this.iconPath = new vscode.ThemeIcon(deleted ? "trash" : "file");
+    this.description = `${versions.length} version${
+      versions.length === 1 ? "" : "s"
+    }${deleted ? " · deleted" : ""}`;
+  }
+}
+
+/**
+ * The versions of one object, or of every key below a prefix grouped by
+ * key. Backed by ListObjectVersions.
+ */
+export class VersionsExplorer
+  implements vscode.TreeDataProvider<vscode.TreeItem>
+{
+  private _onDidChangeTreeData = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private target?: VersionsTarget;
+
+  show(target: VersionsTarget): void {
+    this.target = target;
+    this.refresh();
+  }
+
+  getTarget(): VersionsTarget | undefined {
+    return this.target;
+  }
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
+    if (element instanceof VersionedKeyNode) {
+      return element.versions;
+    }
+    if (element || !this.target) {
+      return [];
+    }
+
+    const { bucket, key, connection } = this.target;
+
+    try {
+      const isFolder = key.endsWith("/") || key === "";
+      const versions = isFolder
+        ? await listObjectVersions(bucket, key, MAX_VERSIONS, connection)
+        : await listKeyVersions(bucket, key, MAX_VERSIONS, connection);
+      const nodes = versions.map(
+        (version) => new VersionNode(bucket, version, connection)
+      );
+      const items: vscode.TreeItem[] = [];
+
+      if (!isFolder) {
+        items.push(...nodes);
+      } else {
+        const byKey = new Map<string, VersionNode[]>();
+        for (const node of nodes) {
+          const group = byKey.get(node.version.key) || [];
+          group.push(node);
+          byKey.set(node.version.key, group);
+        }
+        for (const [versionedKey, group] of byKey) {
+          items.push(
+            new VersionedKeyNode(getRelativePath(versionedKey, key), group)
+          );
+        }
+      }
+
+      if (versions.length >= MAX_VERSIONS) {
+        items.push(
+          new vscode.TreeItem(`Showing the first ${MAX_VERSIONS} versions`)
+        );
+      }
+      if (items.length === 0) {
+        items.push(
+          new vscode.TreeItem(
+            `No versions found for ${getFileName(key) || bucket}`
+          )
+        );
+      }
+
+      return items;
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Error loading versions: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+      return [];
+    }
+  }
+}
+
+export function isVersionNode(node: any): node is VersionNode {
+  return node instanceof VersionNode;
+}
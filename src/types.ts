@@ -1,5 +1,12 @@
 import * as vscode from "vscode";
 
+// Where a connection gets its credentials from:
+// - settings: access key ID in settings, secret in SecretStorage
+// - env: AWS_ACCESS_KEY_ID / AWS_SECRET_ACCESS_KEY / AWS_SESSION_TOKEN
+// - sharedConfig: a profile in ~/.aws/credentials and ~/.aws/config
+// - process: the credential_process of a shared-config profile
+export type CredentialSource = "settings" | "env" | "sharedConfig" | "process";
+
 export interface S3Config {
   endpointUrl: string;
   region: string;
@@ -7,6 +14,39 @@ export interface S3Config {
   secretAccessKey: string;
   forcePathStyle: boolean;
   maxPreviewSizeBytes: number;
+  credentialSource?: CredentialSource;
+  awsProfile?: string;
+  sessionToken?: string;
+  roleArn?: string;
+  externalId?: string;
+  mfaSerial?: string;
+  stsEndpoint?: string;
+}
+
+export interface S3ConnectionSettings {
+  name: string;
+  endpointUrl: string;
+  region?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle?: boolean;
+  credentialSource?: CredentialSource;
+  awsProfile?: string;
+  roleArn?: string;
+  externalId?: string;
+  mfaSerial?: string;
+  stsEndpoint?: string;
+}
+
+// A local folder linked to a bucket/prefix by .vscode/s3x.json
+export interface RemoteFolderMapping {
+  name?: string;
+  local: string; // As written, relative to the workspace folder
+  localPath: string; // Absolute
+  bucket: string;
+  prefix: string; // "" or ending in "/"
+  connection?: string;
+  autoUpload: boolean; // Upload files when they are saved
 }
 
 export interface S3Object {
@@ -18,6 +58,67 @@ export interface S3Object {
   contentType?: string;
 }
 
+// One entry of ListObjectVersions: a stored version or a delete marker
+export interface S3ObjectVersion {
+  key: string;
+  versionId: string; // "null" for objects stored before versioning
+  isLatest: boolean;
+  isDeleteMarker: boolean;
+  size?: number;
+  lastModified?: Date;
+  etag?: string;
+  storageClass?: string;
+}
+
+// One part of a bucket's configuration. S3-compatible services such as R2
+// and MinIO leave some bucket APIs unimplemented.
+export type BucketSection<T> =
+  | { state: "set"; value: T }
+  | { state: "notSet" }
+  | { state: "unsupported" }
+  | { state: "error"; message: string };
+
+export interface BucketEncryptionRule {
+  algorithm: string; // AES256, aws:kms, aws:kms:dsse
+  kmsKeyId?: string;
+  bucketKeyEnabled?: boolean;
+}
+
+export interface PublicAccessBlock {
+  blockPublicAcls?: boolean;
+  ignorePublicAcls?: boolean;
+  blockPublicPolicy?: boolean;
+  restrictPublicBuckets?: boolean;
+}
+
+export interface ObjectLockSettings {
+  mode?: string; // GOVERNANCE or COMPLIANCE
+  days?: number;
+  years?: number;
+}
+
+export interface WebsiteSettings {
+  indexDocument?: string;
+  errorDocument?: string;
+  redirectTo?: string;
+  routingRules: number;
+}
+
+export interface BucketProperties {
+  bucket: string;
+  connection?: string;
+  region: BucketSection<string>;
+  versioning: BucketSection<string>; // Enabled or Suspended
+  encryption: BucketSection<BucketEncryptionRule[]>;
+  publicAccessBlock: BucketSection<PublicAccessBlock>;
+  tags: BucketSection<Array<{ key: string; value: string }>>;
+  objectLock: BucketSection<ObjectLockSettings>;
+  website: BucketSection<WebsiteSettings>;
+  cors: BucketSection<number>; // Number of rules
+  lifecycle: BucketSection<number>;
+  policy: BucketSection<string>;
+}
+
 export interface S3Bucket {
   name: string;
   creationDate?: Date;
@@ -53,8 +154,16 @@ export interface BulkOperation {
 }
 
 export interface TreeNode {
-  readonly type: "bucket" | "prefix" | "object" | "loadMore";
+  readonly type:
+    | "connection"
+    | "bucket"
+    | "prefix"
+    | "object"
+    | "loadMore"
+    | "lifecycle"
+    | "lifecycleRule";
   readonly bucket: string;
+  readonly connection?: string;
   readonly key?: string;
   readonly prefix?: string;
   readonly size?: number;
@@ -71,6 +180,30 @@ export interface S3ObjectMetadata {
   storageClass?: string;
   serverSideEncryption?: string;
   metadata?: Record<string, string>;
+  // Number of tags, which HeadObject reports without the tags themselves
+  tagCount?: number;
+}
+
+// What to do when an uploaded file's key already exists in the bucket
+export type UploadConflictPolicy =
+  | "overwrite"
+  | "skipExisting"
+  | "skipUnchanged";
+
+export interface ObjectOperationError {
+  key: string;
+  code?: string;
+  message: string;
+}
+
+export interface DeleteObjectsResult {
+  deleted: string[];
+  errors: ObjectOperationError[];
+}
+
+export interface TransferResult {
+  transferred: string[];
+  errors: ObjectOperationError[];
 }
 
 export interface SearchOptions {
@@ -94,6 +227,31 @@ export interface MultipartUpload {
   }>;
 }
 
+// A multipart upload persisted in globalState so it can be resumed after
+// an error or a window reload
+export interface PendingMultipartUpload extends MultipartUpload {
+  connection?: string;
+  filePath: string;
+  fileSize: number;
+  fileModified: number;
+  partSize: number;
+  startedAt: number;
+}
+
+// A ranged download into a partial file, resumable while the object's
+// ETag is unchanged
+export interface PendingDownload {
+  connection?: string;
+  bucket: string;
+  key: string;
+  filePath: string;
+  etag: string;
+  size: number;
+  chunkSize: number;
+  completedChunks: number[];
+  startedAt: number;
+}
+
 export class S3Error extends Error {
   constructor(
     message: string,
@@ -107,6 +265,7 @@ export class S3Error extends Error {
 
   static isAuthError(error: any): boolean {
     return (
+      S3Error.isSessionExpired(error) ||
       error?.code === "Forbidden" ||
       error?.code === "Unauthorized" ||
       error?.$metadata?.httpStatusCode === 403 ||
@@ -114,6 +273,16 @@ export class S3Error extends Error {
     );
   }
 
+  static isSessionExpired(error: any): boolean {
+    const code = error?.code ?? error?.Code ?? error?.name;
+    return (
+      code === "SessionExpired" ||
+      code === "ExpiredToken" ||
+      code === "ExpiredTokenException" ||
+      code === "TokenRefreshRequired"
+    );
+  }
+
   static isRetryable(error: any): boolean {
     return (
       error?.code === "TooManyRequests" ||
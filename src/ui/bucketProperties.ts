@@ -0,0 +1,312 @@
+import * as vscode from "vscode";
+import { BucketProperties, BucketSection } from "../types";
+import {
+  describeEncryption,
+  describeObjectLock,
+  getUnblockedPublicAccess,
+} from "../util/bucketProperties";
+import { lintBucketPolicy } from "../util/policy";
+import { createNonce, escapeHtml } from "./webview";
+
+export type BucketConfigName = "cors.json" | "lifecycle.json" | "policy.json";
+
+export interface BucketPropertiesActions {
+  edit(name: BucketConfigName): Promise<void>;
+  showVersions(): Promise<void>;
+  refresh(): Promise<void>;
+}
+
+type BucketPropertiesMessage =
+  | { command: "edit"; name: BucketConfigName }
+  | { command: "versions" }
+  | { command: "refresh" };
+
+/**
+ * Open a webview for a bucket's properties. Buttons on the page are routed
+ * to the given actions; call renderBucketProperties to fill it in.
+ */
+export function createBucketPropertiesPanel(
+  title: string,
+  actions: BucketPropertiesActions
+): vscode.WebviewPanel {
+  const panel = vscode.window.createWebviewPanel(
+    "s3xBucketProperties",
+    title,
+    vscode.ViewColumn.One,
+    { enableScripts: true }
+  );
+
+  panel.webview.onDidReceiveMessage(
+    async (message: BucketPropertiesMessage) => {
+      switch (message.command) {
+        case "edit":
+          await actions.edit(message.name);
+          break;
+        case "versions":
+          await actions.showVersions();
+          break;
+        case "refresh":
+          await actions.refresh();
+          break;
+      }
+    }
+  );
+
+  return panel;
+}
+
+/**
+ * Show the given properties, or a loading page while they are gathered
+ */
+export function renderBucketProperties(
+  panel: vscode.WebviewPanel,
+  bucket: string,
+  properties?: BucketProperties
+): void {
+  panel.webview.html = createBucketPropertiesHtml(
+    bucket,
+    properties,
+    createNonce()
+  );
+}
+
+function createBucketPropertiesHtml(
+  bucket: string,
+  properties: BucketProperties | undefined,
+  nonce: string
+): string {
+  const sections = properties
+    ? renderSections(properties)
+    : '<p class="muted">Loading properties...</p>';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Bucket Properties</title>
+    <style>
+        body {
+            padding: 20px;
+            color: var(--vscode-editor-foreground);
+            font-family: var(--vscode-font-family);
+        }
+        .toolbar {
+            display: flex;
+            align-items: center;
+            gap: 12px;
+            margin-bottom: 16px;
+        }
+        h1 {
+            margin: 0;
+            font-size: 20px;
+        }
+        section {
+            padding: 12px 0;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        h2 {
+            margin: 0 0 6px;
+            font-size: 14px;
+        }
+        ul {
+            margin: 4px 0;
+            padding-left: 20px;
+        }
+        .muted {
+            color: var(--vscode-descriptionForeground);
+        }
+        .warning {
+            color: var(--vscode-editorWarning-foreground);
+        }
+        .error {
+            color: var(--vscode-errorForeground);
+        }
+        .actions {
+            margin-top: 8px;
+        }
+        button {
+            color: var(--vscode-button-foreground);
+            background-color: var(--vscode-button-background);
+            border: none;
+            padding: 2px 8px;
+            cursor: pointer;
+        }
+        button:hover {
+            background-color: var(--vscode-button-hoverBackground);
+        }
+    </style>
+</head>
+<body>
+    <div class="toolbar">
+        <h1>${escapeHtml(bucket)}</h1>
+        <button data-refresh>Refresh</button>
+    </div>
+${sections}
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+
+        document.addEventListener("click", (event) => {
+            const data = event.target.dataset;
+            if (!data) {
+                return;
+            }
+            if (data.edit) {
+                vscode.postMessage({ command: "edit", name: data.edit });
+            } else if (data.versions !== undefined) {
+                vscode.postMessage({ command: "versions" });
+            } else if (data.refresh !== undefined) {
+                vscode.postMessage({ command: "refresh" });
+            }
+        });
+    </script>
+</body>
+</html>`;
+}
+
+function renderSections(properties: BucketProperties): string {
+  const editButton = (name: BucketConfigName, label: string) =>
+    `<button data-edit="${name}">${label}</button>`;
+
+  return [
+    renderSection("Region", properties.region, escapeHtml, "Unknown"),
+    renderSection(
+      "Versioning",
+      properties.versioning,
+      escapeHtml,
+      "Never enabled",
+      properties.versioning.state === "set"
+        ? "<button data-versions>Show Versions</button>"
+        : ""
+    ),
+    renderSection(
+      "Default Encryption",
+      properties.encryption,
+      (rules) => escapeHtml(describeEncryption(rules)),
+      "No default encryption"
+    ),
+    renderSection(
+      "Public Access Block",
+      properties.publicAccessBlock,
+      (block) => {
+        const unblocked = getUnblockedPublicAccess(block);
+        return unblocked.length === 0
+          ? "All public access is blocked"
+          : `<span class="warning">Not blocked: ${unblocked.join(
+              ", "
+            )}</span>`;
+      },
+      "No public access block; the policy and ACLs decide public access"
+    ),
+    renderSection(
+      "Bucket Policy",
+      properties.policy,
+      (policy) => renderPolicyFindings(policy, properties.bucket),
+      "No bucket policy",
+      editButton("policy.json", "Edit Bucket Policy")
+    ),
+    renderSection(
+      "CORS",
+      properties.cors,
+      (count) => pluralize(count, "rule"),
+      "No CORS rules",
+      editButton("cors.json", "Edit CORS Configuration")
+    ),
+    renderSection(
+      "Lifecycle",
+      properties.lifecycle,
+      (count) => pluralize(count, "rule"),
+      "No lifecycle rules",
+      editButton("lifecycle.json", "Edit Lifecycle Rules")
+    ),
+    renderSection(
+      "Tags",
+      properties.tags,
+      (tags) =>
+        `<ul>${tags
+          .map(
+            (tag) =>
+              `<li>${escapeHtml(tag.key)} = ${escapeHtml(tag.value)}</li>`
+          )
+          .join("")}</ul>`,
+      "No tags"
+    ),
+    renderSection(
+      "Object Lock",
+      properties.objectLock,
+      (lock) => escapeHtml(describeObjectLock(lock)),
+      "Not enabled"
+    ),
+    renderSection(
+      "Static Website Hosting",
+      properties.website,
+      (website) =>
+        escapeHtml(
+          website.redirectTo
+            ? `Redirects all requests to ${website.redirectTo}`
+            : [
+                `Index document: ${website.indexDocument || "none"}`,
+                `error document: ${website.errorDocument || "none"}`,
+                pluralize(website.routingRules, "routing rule"),
+              ].join(", ")
+        ),
+      "Not enabled"
+    ),
+  ].join("\n");
+}
+
+/**
+ * A section of the page. Its actions are left out when the endpoint does
+ * not support the setting.
+ */
+function renderSection<T>(
+  title: string,
+  section: BucketSection<T>,
+  describe: (value: T) => string,
+  notSet: string,
+  actions = ""
+): string {
+  let body: string;
+  switch (section.state) {
+    case "set":
+      body = describe(section.value);
+      break;
+    case "notSet":
+      body = `<span class="muted">${notSet}</span>`;
+      break;
+    case "unsupported":
+      body = '<span class="muted">Not supported by this endpoint</span>';
+      actions = "";
+      break;
+    case "error":
+      body = `<span class="error">${escapeHtml(section.message)}</span>`;
+      break;
+  }
+
+  return `    <section>
+        <h2>${title}</h2>
+        <div>${body}</div>${
+    actions ? `\n        <div class="actions">${actions}</div>` : ""
+  }
+    </section>`;
+}
+
+// The policy linter's warnings, or a note that the policy looks fine
+function renderPolicyFindings(policy: string, bucket: string): string {
+  const findings = lintBucketPolicy(policy, bucket);
+  if (findings.length === 0) {
+    return "Set, no issues found";
+  }
+
+  return `Set<ul>${findings
+    .map(
+      (finding) =>
+        `<li class="${finding.severity}">${escapeHtml(finding.message)}</li>`
+    )
+    .join("")}</ul>`;
+}
+
+function pluralize(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
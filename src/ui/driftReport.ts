@@ -0,0 +1,276 @@
+import * as vscode from "vscode";
+import { formatFileSize } from "../s3/listing";
+import {
+  DriftEntry,
+  DriftReport,
+  formatPrefixLocation,
+  summarizeDrift,
+} from "../util/drift";
+import { isTextFile } from "../util/paths";
+import { showErrorMessage } from "./prompts";
+import { createNonce, escapeHtml } from "./webview";
+
+export interface DriftReportActions {
+  copy(paths: string[], to: "left" | "right"): Promise<void>;
+  diff(path: string): Promise<void>;
+  exportCsv(): Promise<void>;
+  refresh(): Promise<void>;
+}
+
+type DriftMessage =
+  | { command: "copy"; paths: string[]; to: "left" | "right" }
+  | { command: "diff"; path: string }
+  | { command: "export" }
+  | { command: "refresh" };
+
+const ACTION_NAMES: Record<DriftMessage["command"], string> = {
+  copy: "copy",
+  diff: "open diff",
+  export: "export report",
+  refresh: "refresh report",
+};
+
+const STATUS_LABELS: Record<DriftEntry["status"], string> = {
+  onlyLeft: "Only left",
+  onlyRight: "Only right",
+  different: "Different",
+  same: "Same",
+};
+
+/**
+ * Open a webview for drift reports. Buttons in the report are routed to the
+ * given actions; call renderDriftReport to show a (new) report.
+ */
+export function createDriftReportPanel(
+  title: string,
+  actions: DriftReportActions
+): vscode.WebviewPanel {
+  const panel = vscode.window.createWebviewPanel(
+    "s3xDriftReport",
+    title,
+    vscode.ViewColumn.One,
+    { enableScripts: true, retainContextWhenHidden: true }
+  );
+
+  panel.webview.onDidReceiveMessage(async (message: DriftMessage) => {
+    try {
+      switch (message.command) {
+        case "copy":
+          await actions.copy(message.paths, message.to);
+          break;
+        case "diff":
+          await actions.diff(message.path);
+          break;
+        case "export":
+          await actions.exportCsv();
+          break;
+        case "refresh":
+          await actions.refresh();
+          break;
+      }
+    } catch (error) {
+      const text = `Failed to ${ACTION_NAMES[message.command]}: ${
+        error instanceof Error ? error.message : error
+      }`;
+      showErrorMessage(text);
+      panel.webview.postMessage({ command: "status", text });
+    }
+  });
+
+  return panel;
+}
+
+export function renderDriftReport(
+  panel: vscode.WebviewPanel,
+  report: DriftReport
+): void {
+  panel.webview.html = createDriftReportHtml(report, createNonce());
+}
+
+function createDriftReportHtml(report: DriftReport, nonce: string): string {
+  const counts = summarizeDrift(report.entries);
+  const left = escapeHtml(formatPrefixLocation(report.left));
+  const right = escapeHtml(formatPrefixLocation(report.right));
+
+  const rows = report.entries
+    .map((entry) => {
+      const path = escapeHtml(entry.relativePath);
+      const buttons: string[] = [];
+
+      if (entry.left) {
+        buttons.push(
+          `<button data-copy="right" data-path="${path}">Copy →</button>`
+        );
+      }
+      if (entry.right) {
+        buttons.push(
+          `<button data-copy="left" data-path="${path}">← Copy</button>`
+        );
+      }
+      if (entry.status === "different" && isTextFile(entry.relativePath)) {
+        buttons.push(`<button data-diff data-path="${path}">Diff</button>`);
+      }
+
+      return `<tr class="${entry.status}">
+        <td>${path}</td>
+        <td><span class="badge">${STATUS_LABELS[entry.status]}</span></td>
+        <td>${entry.left ? formatFileSize(entry.left.size) : ""}</td>
+        <td>${entry.right ? formatFileSize(entry.right.size) : ""}</td>
+        <td>${entry.status === "same" ? "" : buttons.join(" ")}</td>
+      </tr>`;
+    })
+    .join("\n");
+
+  const filter = (status: DriftEntry["status"], checked: boolean) =>
+    `<label><input type="checkbox" data-filter="${status}"${
+      checked ? " checked" : ""
+    }> ${STATUS_LABELS[status]} (${counts[status]})</label>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Drift Report</title>
+    <style>
+        body {
+            padding: 20px;
+            color: var(--vscode-editor-foreground);
+            font-family: var(--vscode-font-family);
+        }
+        .sides {
+            margin-bottom: 12px;
+        }
+        .toolbar {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 12px;
+            align-items: center;
+            margin-bottom: 16px;
+        }
+        table {
+            width: 100%;
+            border-collapse: collapse;
+        }
+        th, td {
+            text-align: left;
+            padding: 4px 8px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        td:first-child {
+            font-family: var(--vscode-editor-font-family);
+            word-break: break-all;
+        }
+        .badge {
+            padding: 1px 6px;
+            border-radius: 8px;
+            background-color: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+        }
+        .different .badge {
+            background-color: var(--vscode-editorWarning-foreground);
+        }
+        .hidden {
+            display: none;
+        }
+        .status {
+            margin-bottom: 12px;
+            color: var(--vscode-errorForeground);
+        }
+        button {
+            color: var(--vscode-button-foreground);
+            background-color: var(--vscode-button-background);
+            border: none;
+            padding: 2px 8px;
+            cursor: pointer;
+        }
+        button:hover {
+            background-color: var(--vscode-button-hoverBackground);
+        }
+    </style>
+</head>
+<body>
+    <div class="sides">
+        <div><strong>Left:</strong> ${left}</div>
+        <div><strong>Right:</strong> ${right}</div>
+    </div>
+    <div class="toolbar">
+        ${filter("onlyLeft", true)}
+        ${filter("onlyRight", true)}
+        ${filter("different", true)}
+        ${filter("same", false)}
+    </div>
+    <div class="toolbar">
+        <button data-copy-missing="right"${
+          counts.onlyLeft ? "" : " disabled"
+        }>Copy ${counts.onlyLeft} missing →</button>
+        <button data-copy-missing="left"${
+          counts.onlyRight ? "" : " disabled"
+        }>← Copy ${counts.onlyRight} missing</button>
+        <button data-export>Export CSV</button>
+        <button data-refresh>Refresh</button>
+    </div>
+    <div class="status hidden" id="status"></div>
+    <table>
+        <thead>
+            <tr><th>Key</th><th>Status</th><th>Left</th><th>Right</th><th></th></tr>
+        </thead>
+        <tbody>
+${rows}
+        </tbody>
+    </table>
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+
+        function applyFilters() {
+            document.querySelectorAll("[data-filter]").forEach((input) => {
+                document.querySelectorAll("tr." + input.dataset.filter).forEach((row) => {
+                    row.classList.toggle("hidden", !input.checked);
+                });
+            });
+        }
+
+        function rowPaths(status) {
+            return Array.from(document.querySelectorAll("tr." + status + " td:first-child"))
+                .map((cell) => cell.textContent);
+        }
+
+        document.addEventListener("change", (event) => {
+            if (event.target.dataset.filter) {
+                applyFilters();
+            }
+        });
+
+        document.addEventListener("click", (event) => {
+            const data = event.target.dataset;
+            if (!data) {
+                return;
+            }
+            if (data.copy) {
+                vscode.postMessage({ command: "copy", paths: [data.path], to: data.copy });
+            } else if (data.copyMissing) {
+                const status = data.copyMissing === "right" ? "onlyLeft" : "onlyRight";
+                vscode.postMessage({ command: "copy", paths: rowPaths(status), to: data.copyMissing });
+            } else if (data.diff !== undefined) {
+                vscode.postMessage({ command: "diff", path: data.path });
+            } else if (data.export !== undefined) {
+                vscode.postMessage({ command: "export" });
+            } else if (data.refresh !== undefined) {
+                vscode.postMessage({ command: "refresh" });
+            }
+        });
+
+        window.addEventListener("message", (event) => {
+            if (event.data.command === "status") {
+                const status = document.getElementById("status");
+                status.textContent = event.data.text;
+                status.classList.remove("hidden");
+            }
+        });
+
+        applyFilters();
+    </script>
+</body>
+</html>`;
+}
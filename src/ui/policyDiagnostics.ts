@@ -0,0 +1,66 @@
+import * as vscode from "vscode";
+import { parseBucketConfigUri } from "../fs/configProvider";
+import { findJsonLocation, lintBucketPolicy } from "../util/policy";
+
+/**
+ * Lint bucket policies as they are edited and show the findings in the
+ * editor and the Problems panel
+ */
+export function initializePolicyDiagnostics(): vscode.Disposable {
+  const diagnostics =
+    vscode.languages.createDiagnosticCollection("s3x-policy");
+
+  const update = (document: vscode.TextDocument) => {
+    const config = parseBucketConfigUri(document.uri);
+    if (config?.name === "policy.json") {
+      diagnostics.set(document.uri, createDiagnostics(document, config.bucket));
+    }
+  };
+
+  vscode.workspace.textDocuments.forEach(update);
+
+  return vscode.Disposable.from(
+    diagnostics,
+    vscode.workspace.onDidOpenTextDocument(update),
+    vscode.workspace.onDidChangeTextDocument((event) =>
+      update(event.document)
+    ),
+    vscode.workspace.onDidCloseTextDocument((document) =>
+      diagnostics.delete(document.uri)
+    )
+  );
+}
+
+function createDiagnostics(
+  document: vscode.TextDocument,
+  bucket: string
+): vscode.Diagnostic[] {
+  const text = document.getText();
+
+  return (
+    lintBucketPolicy(text, bucket)
+      // The JSON language already reports syntax errors
+      .filter((finding) => finding.code !== "syntax")
+      .map((finding) => {
+        const location = findJsonLocation(text, finding.path);
+        const start = document.positionAt(location?.start ?? 0);
+        const end = document.positionAt(location?.end ?? 0);
+
+        // Objects and lists are only underlined on their first line
+        const range = new vscode.Range(
+          start,
+          end.line === start.line ? end : document.lineAt(start.line).range.end
+        );
+        const diagnostic = new vscode.Diagnostic(
+          range,
+          finding.message,
+          finding.severity === "error"
+            ? vscode.DiagnosticSeverity.Error
+            : vscode.DiagnosticSeverity.Warning
+        );
+        diagnostic.source = "S3 policy";
+        diagnostic.code = finding.code;
+        return diagnostic;
+      })
+  );
+}
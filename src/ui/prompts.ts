@@ -1,8 +1,34 @@
 import * as vscode from "vscode";
-import { S3Bucket } from "../types";
-import { listBuckets } from "../s3/listing";
+import {
+  CredentialSource,
+  RemoteFolderMapping,
+  S3Bucket,
+  S3ConnectionSettings,
+  UploadConflictPolicy,
+} from "../types";
+import {
+  listBuckets,
+  formatFileSize,
+  isValidBucketName,
+} from "../s3/listing";
+import { SyncOptions } from "../util/sync";
+import {
+  MAX_OBJECT_TAGS,
+  ObjectTags,
+  TagChange,
+  formatTags,
+  parseTagKeys,
+  parseTags,
+} from "../util/tags";
 import { isValidS3Key, sanitizeS3Key, getFileName } from "../util/paths";
-import { getConfig, validateConfig } from "../s3/client";
+import {
+  getConfig,
+  getConnections,
+  isValidConnectionName,
+  updateCredentials,
+  usesSettingsCredentials,
+  validateConfig,
+} from "../s3/client";
 
 export interface QuickPickBucket extends vscode.QuickPickItem {
   bucket: S3Bucket;
@@ -33,11 +59,37 @@ export async function showInformationMessage(
   return vscode.window.showInformationMessage(message, ...actions);
 }
 
+export async function promptForConnection(
+  placeholder = "Select a connection"
+): Promise<{ connection?: string } | undefined> {
+  const connections = getConnections();
+
+  // Without named connections everything goes through the default settings
+  if (connections.length === 0) {
+    return { connection: undefined };
+  }
+
+  const selected = await vscode.window.showQuickPick(
+    connections.map((connection) => ({
+      label: connection.name,
+      description: connection.endpointUrl,
+      connection: connection.name,
+    })),
+    {
+      placeHolder: placeholder,
+      matchOnDescription: true,
+    }
+  );
+
+  return selected ? { connection: selected.connection } : undefined;
+}
+
 export async function promptForBucket(
-  placeholder = "Select a bucket"
+  placeholder = "Select a bucket",
+  connection?: string
 ): Promise<string | undefined> {
   try {
-    const buckets = await listBuckets();
+    const buckets = await listBuckets(connection);
 
     if (buckets.length === 0) {
       showErrorMessage("No buckets found. Please check your S3 configuration.");
@@ -68,6 +120,166 @@ export async function promptForBucket(
   }
 }
 
+export async function promptForBucketName(): Promise<string | undefined> {
+  return vscode.window.showInputBox({
+    title: "Create Bucket",
+    placeHolder: "e.g. my-project-assets",
+    validateInput: (value) =>
+      isValidBucketName(value)
+        ? undefined
+        : "Use 3-63 lowercase letters, numbers, dots and hyphens",
+  });
+}
+
+// Common AWS regions; R2 takes location hints such as "wnam" or "weur"
+const BUCKET_REGIONS = [
+  "us-east-1",
+  "us-east-2",
+  "us-west-1",
+  "us-west-2",
+  "ca-central-1",
+  "eu-west-1",
+  "eu-west-2",
+  "eu-central-1",
+  "eu-north-1",
+  "ap-south-1",
+  "ap-southeast-1",
+  "ap-southeast-2",
+  "ap-northeast-1",
+  "sa-east-1",
+];
+
+/**
+ * Pick the location constraint for a new bucket. Resolves to "" for the
+ * connection's own region and undefined when cancelled.
+ */
+export async function promptForBucketRegion(
+  connectionRegion: string
+): Promise<string | undefined> {
+  const other = "Other...";
+  const choice = await vscode.window.showQuickPick(
+    [
+      {
+        label: "Default",
+        description: `Connection region (${connectionRegion})`,
+        value: "",
+      },
+      ...BUCKET_REGIONS.map((region) => ({ label: region, value: region })),
+      {
+        label: other,
+        description: "Enter a region or location hint",
+        value: other,
+      },
+    ],
+    { placeHolder: "Select the bucket's region" }
+  );
+
+  if (choice?.value !== other) {
+    return choice?.value;
+  }
+
+  const input = await vscode.window.showInputBox({
+    title: "Bucket Region",
+    placeHolder: "e.g. eu-west-3 or wnam",
+    validateInput: (value) =>
+      /^[a-z0-9-]+$/.test(value.trim()) ? undefined : "Invalid region",
+  });
+  return input?.trim();
+}
+
+export async function promptForBucketDeleteMode(
+  bucket: string
+): Promise<"delete" | "empty" | undefined> {
+  const choice = await vscode.window.showQuickPick(
+    [
+      {
+        label: "Delete Bucket",
+        description: "Only works if the bucket is empty",
+        value: "delete",
+      },
+      {
+        label: "Delete Contents First",
+        description: "Remove objects, versions and incomplete uploads",
+        value: "empty",
+      },
+    ] as const,
+    { placeHolder: `Delete bucket "${bucket}"` }
+  );
+
+  return choice?.value;
+}
+
+/**
+ * Edit a set of tags as "key=value, key2=value2". Resolves to the new tags,
+ * or undefined when cancelled.
+ */
+export async function promptForTags(
+  title: string,
+  current: ObjectTags = {}
+): Promise<ObjectTags | undefined> {
+  const input = await vscode.window.showInputBox({
+    title,
+    prompt: `Tags as key=value, separated by commas (at most ${MAX_OBJECT_TAGS}). Clear to remove all tags.`,
+    placeHolder: "e.g. env=prod, team=data",
+    value: formatTags(current),
+    validateInput: (value) => parseTags(value).errors[0],
+  });
+
+  return input === undefined ? undefined : parseTags(input).tags;
+}
+
+/**
+ * Choose how to change the tags of many objects, then the tags or keys
+ */
+export async function promptForTagChange(
+  count: number
+): Promise<TagChange | undefined> {
+  const objects = `${count} object${count === 1 ? "" : "s"}`;
+  const choice = await vscode.window.showQuickPick(
+    [
+      {
+        label: "Add or Update Tags",
+        description: "Keep other tags",
+        value: "merge",
+      },
+      {
+        label: "Remove Tags",
+        description: "Remove tags by key",
+        value: "remove",
+      },
+      {
+        label: "Replace All Tags",
+        description: "Existing tags are discarded",
+        value: "replace",
+      },
+    ] as const,
+    { placeHolder: `Change the tags of ${objects}` }
+  );
+
+  if (!choice) {
+    return undefined;
+  }
+
+  if (choice.value === "remove") {
+    const input = await vscode.window.showInputBox({
+      title: `Remove Tags from ${objects}`,
+      prompt: "Tag keys, separated by commas",
+      placeHolder: "e.g. env, team",
+      validateInput: (value) =>
+        parseTagKeys(value).length > 0 ? undefined : "Enter at least one key",
+    });
+    return input === undefined
+      ? undefined
+      : { mode: "remove", keys: parseTagKeys(input) };
+  }
+
+  const tags = await promptForTags(`${choice.label} on ${objects}`);
+  if (!tags) {
+    return undefined;
+  }
+  return { mode: choice.value, tags };
+}
+
 export async function promptForKey(
   title: string,
   placeholder?: string,
@@ -118,12 +330,39 @@ export async function promptForFileName(
   return input;
 }
 
+export async function promptForTargetPrefix(
+  bucket: string,
+  defaultPrefix = ""
+): Promise<string | undefined> {
+  const input = await vscode.window.showInputBox({
+    title: `Target Folder in ${bucket}`,
+    placeHolder: "e.g. archive/2024/ (leave empty for the bucket root)",
+    value: defaultPrefix,
+    validateInput: (value) => {
+      if (!value) {
+        return undefined;
+      }
+      return isValidS3Key(value.endsWith("/") ? value : `${value}/`)
+        ? undefined
+        : "Invalid folder path";
+    },
+  });
+
+  if (input === undefined) {
+    return undefined;
+  }
+
+  const prefix = sanitizeS3Key(input.trim());
+  return prefix && !prefix.endsWith("/") ? `${prefix}/` : prefix;
+}
+
 export async function promptForSearchTerm(
   bucket?: string,
-  placeholder?: string
+  placeholder?: string,
+  connection?: string
 ): Promise<{ prefix?: string; contains?: string } | undefined> {
   const bucketName =
-    bucket || (await promptForBucket("Select bucket to search"));
+    bucket || (await promptForBucket("Select bucket to search", connection));
   if (!bucketName) {
     return undefined;
   }
@@ -269,12 +508,158 @@ export async function promptForMoveOrCopy(): Promise<
   return choice?.value as "move" | "copy" | undefined;
 }
 
-export async function promptForCredentials(): Promise<
-  { accessKeyId: string; secretAccessKey: string } | undefined
+export async function promptForConflictPolicy(
+  existingCount: number
+): Promise<UploadConflictPolicy | undefined> {
+  const choice = await vscode.window.showQuickPick(
+    [
+      {
+        label: "Skip unchanged",
+        description: "Upload only files that differ from the existing object",
+        value: "skipUnchanged",
+      },
+      {
+        label: "Skip existing",
+        description: "Never replace existing objects",
+        value: "skipExisting",
+      },
+      {
+        label: "Overwrite",
+        description: "Replace existing objects",
+        value: "overwrite",
+      },
+    ],
+    {
+      placeHolder: `${existingCount} file${
+        existingCount === 1 ? "" : "s"
+      } already exist at the destination`,
+    }
+  );
+
+  return choice?.value as UploadConflictPolicy | undefined;
+}
+
+export async function promptForSyncOptions(): Promise<
+  SyncOptions | undefined
+> {
+  const choice = await vscode.window.showQuickPick(
+    [
+      {
+        label: "Push",
+        description: "Upload new and changed local files",
+        options: { direction: "push", mirror: false },
+      },
+      {
+        label: "Pull",
+        description: "Download new and changed remote files",
+        options: { direction: "pull", mirror: false },
+      },
+      {
+        label: "Mirror to S3",
+        description: "Push, then delete remote files that don't exist locally",
+        options: { direction: "push", mirror: true },
+      },
+      {
+        label: "Mirror from S3",
+        description: "Pull, then delete local files that don't exist remotely",
+        options: { direction: "pull", mirror: true },
+      },
+    ] as Array<vscode.QuickPickItem & { options: SyncOptions }>,
+    { placeHolder: "Choose how to sync" }
+  );
+
+  return choice?.options;
+}
+
+export async function promptForCompareTarget(): Promise<
+  "local" | "object" | "sameKey" | undefined
+> {
+  const choice = await vscode.window.showQuickPick(
+    [
+      {
+        label: "Local File...",
+        description: "Pick a file on disk",
+        value: "local",
+      },
+      {
+        label: "Another Object...",
+        description: "Pick a bucket and key",
+        value: "object",
+      },
+      {
+        label: "Same Key in Another Bucket...",
+        description: "Pick a bucket, possibly on another connection",
+        value: "sameKey",
+      },
+    ] as const,
+    { placeHolder: "Compare with" }
+  );
+
+  return choice?.value;
+}
+
+export async function promptForMapping(
+  mappings: RemoteFolderMapping[]
+): Promise<RemoteFolderMapping | undefined> {
+  const selected = await vscode.window.showQuickPick(
+    mappings.map((mapping) => ({
+      label: mapping.name || mapping.local,
+      description: `${mapping.bucket}/${mapping.prefix}`,
+      detail: mapping.localPath,
+      mapping,
+    })),
+    { placeHolder: "Select a linked remote folder" }
+  );
+
+  return selected?.mapping;
+}
+
+export async function promptForZipOptions(
+  objectCount: number,
+  totalSize: number,
+  commonPrefix: string
+): Promise<{ stripPrefix: boolean } | undefined> {
+  const items: Array<vscode.QuickPickItem & { stripPrefix: boolean }> = [];
+
+  if (commonPrefix) {
+    items.push({
+      label: "Strip common prefix",
+      description: `Paths in the zip start below "${commonPrefix}"`,
+      stripPrefix: true,
+    });
+  }
+  items.push({
+    label: "Keep full keys",
+    description: "Paths in the zip match the object keys",
+    stripPrefix: false,
+  });
+
+  const choice = await vscode.window.showQuickPick(items, {
+    placeHolder: `Zip ${objectCount} object${
+      objectCount === 1 ? "" : "s"
+    } (about ${formatFileSize(totalSize)} before compression)`,
+  });
+
+  return choice ? { stripPrefix: choice.stripPrefix } : undefined;
+}
+
+export async function promptForCredentials(connection?: string): Promise<
+  | { accessKeyId: string; secretAccessKey: string; sessionToken?: string }
+  | undefined
 > {
+  // Pre-fill from the current settings and secure storage when updating an
+  // existing connection
+  let current = { accessKeyId: "", secretAccessKey: "" };
+  try {
+    current = getConfig(connection);
+  } catch {
+    // New connection, nothing stored yet
+  }
+
   const accessKeyId = await vscode.window.showInputBox({
     title: "S3 Access Key ID",
     placeHolder: "Enter your S3 Access Key ID",
+    value: current.accessKeyId,
     validateInput: (value) => {
       if (!value || value.trim().length === 0) {
         return "Access Key ID is required";
@@ -287,23 +672,41 @@ export async function promptForCredentials(): Promise<
     return undefined;
   }
 
+  const hasStoredSecret = !!current.secretAccessKey;
   const secretAccessKey = await vscode.window.showInputBox({
     title: "S3 Secret Access Key",
-    placeHolder: "Enter your S3 Secret Access Key",
+    placeHolder: hasStoredSecret
+      ? "Leave empty to keep the stored Secret Access Key"
+      : "Enter your S3 Secret Access Key",
+    prompt: "Stored in VS Code's secure storage, not in settings.json",
     password: true,
     validateInput: (value) => {
-      if (!value || value.trim().length === 0) {
+      if (!hasStoredSecret && (!value || value.trim().length === 0)) {
         return "Secret Access Key is required";
       }
       return undefined;
     },
   });
 
-  if (!secretAccessKey) {
+  if (secretAccessKey === undefined) {
     return undefined;
   }
 
-  return { accessKeyId, secretAccessKey };
+  const sessionToken = await vscode.window.showInputBox({
+    title: "S3 Session Token (optional)",
+    placeHolder: "Only for temporary credentials; leave empty otherwise",
+    password: true,
+  });
+
+  if (sessionToken === undefined) {
+    return undefined;
+  }
+
+  return {
+    accessKeyId,
+    secretAccessKey: secretAccessKey || current.secretAccessKey,
+    sessionToken: sessionToken || undefined,
+  };
 }
 
 export async function promptForEndpoint(): Promise<string | undefined> {
@@ -317,8 +720,8 @@ export async function promptForEndpoint(): Promise<string | undefined> {
 
       try {
         const url = new URL(value);
-        if (url.protocol !== "https:") {
-          return "Endpoint must use HTTPS";
+        if (url.protocol !== "https:" && url.protocol !== "http:") {
+          return "Endpoint must use HTTPS (or HTTP for local services)";
         }
       } catch {
         return "Invalid URL format";
@@ -331,7 +734,155 @@ export async function promptForEndpoint(): Promise<string | undefined> {
   return endpoint;
 }
 
+export async function promptForNewConnection(): Promise<
+  | {
+      settings: S3ConnectionSettings;
+      credentials?: {
+        accessKeyId: string;
+        secretAccessKey: string;
+        sessionToken?: string;
+      };
+    }
+  | undefined
+> {
+  const existing = getConnections().map((connection) => connection.name);
+
+  const name = await vscode.window.showInputBox({
+    title: "Connection Name",
+    placeHolder: "e.g. r2-production, aws-staging, minio-local",
+    validateInput: (value) => {
+      if (!value || value.trim().length === 0) {
+        return "Connection name is required";
+      }
+      if (!isValidConnectionName(value)) {
+        return "Use only letters, numbers, dots, dashes and underscores";
+      }
+      if (existing.includes(value)) {
+        return `Connection "${value}" already exists`;
+      }
+      return undefined;
+    },
+  });
+
+  if (!name) {
+    return undefined;
+  }
+
+  const endpointUrl = await promptForEndpoint();
+  if (!endpointUrl) {
+    return undefined;
+  }
+
+  const region = await vscode.window.showInputBox({
+    title: "Region",
+    placeHolder: "Region string for SigV4",
+    value: "us-east-1",
+  });
+
+  if (region === undefined) {
+    return undefined;
+  }
+
+  const forcePathStyle = await vscode.window.showQuickPick(
+    [
+      {
+        label: "Path-style URLs",
+        description: "Required for R2 and most MinIO setups",
+        value: true,
+      },
+      {
+        label: "Virtual-hosted-style URLs",
+        description: "bucket.endpoint/key",
+        value: false,
+      },
+    ],
+    { placeHolder: "Choose URL style" }
+  );
+
+  if (!forcePathStyle) {
+    return undefined;
+  }
+
+  const credentialSource = await promptForCredentialSource();
+  if (!credentialSource) {
+    return undefined;
+  }
+
+  const settings: S3ConnectionSettings = {
+    name,
+    endpointUrl,
+    region: region || "us-east-1",
+    forcePathStyle: forcePathStyle.value,
+  };
+
+  if (credentialSource === "sharedConfig" || credentialSource === "process") {
+    const awsProfile = await vscode.window.showInputBox({
+      title: "AWS Profile",
+      placeHolder:
+        "Profile name from ~/.aws/config (empty for AWS_PROFILE or 'default')",
+    });
+    if (awsProfile === undefined) {
+      return undefined;
+    }
+
+    return {
+      settings: {
+        ...settings,
+        credentialSource,
+        ...(awsProfile ? { awsProfile } : {}),
+      },
+    };
+  }
+
+  if (credentialSource === "env") {
+    return { settings: { ...settings, credentialSource } };
+  }
+
+  const credentials = await promptForCredentials(name);
+  if (!credentials) {
+    return undefined;
+  }
+
+  return { settings, credentials };
+}
+
+export async function promptForCredentialSource(): Promise<
+  CredentialSource | undefined
+> {
+  const choice = await vscode.window.showQuickPick(
+    [
+      {
+        label: "Access Key",
+        description: "Enter an access key; the secret is kept in secure storage",
+        value: "settings" as CredentialSource,
+      },
+      {
+        label: "Environment Variables",
+        description: "AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY, AWS_SESSION_TOKEN",
+        value: "env" as CredentialSource,
+      },
+      {
+        label: "AWS Profile",
+        description: "~/.aws/credentials and ~/.aws/config",
+        value: "sharedConfig" as CredentialSource,
+      },
+      {
+        label: "Credential Process",
+        description: "credential_process of a profile in ~/.aws/config",
+        value: "process" as CredentialSource,
+      },
+    ],
+    { placeHolder: "Where should credentials come from?" }
+  );
+
+  return choice?.value;
+}
+
 export async function promptForConfigurationSetup(): Promise<boolean> {
+  if (getConnections().length > 0) {
+    return true; // Named connections replace the default settings
+  }
+
   const config = getConfig();
   const errors = validateConfig(config);
 
@@ -360,33 +911,28 @@ export async function promptForConfigurationSetup(): Promise<boolean> {
     if (!endpoint) {return false;}
   }
 
-  let credentials = {
-    accessKeyId: config.accessKeyId,
-    secretAccessKey: config.secretAccessKey,
-  };
-  if (!credentials.accessKeyId || !credentials.secretAccessKey) {
-    const newCredentials = await promptForCredentials();
-    if (!newCredentials) {return false;}
-    credentials = newCredentials;
+  // Env, profile and credential_process sources need no keys here
+  let credentials:
+    | { accessKeyId: string; secretAccessKey: string; sessionToken?: string }
+    | undefined;
+  if (
+    usesSettingsCredentials(config) &&
+    (!config.accessKeyId || !config.secretAccessKey)
+  ) {
+    credentials = await promptForCredentials();
+    if (!credentials) {return false;}
   }
 
-  // Update configuration
+  // Update configuration; the secret key goes to secure storage
   const workspaceConfig = vscode.workspace.getConfiguration("s3x");
   await workspaceConfig.update(
     "endpointUrl",
     endpoint,
     vscode.ConfigurationTarget.Global
   );
-  await workspaceConfig.update(
-    "accessKeyId",
-    credentials.accessKeyId,
-    vscode.ConfigurationTarget.Global
-  );
-  await workspaceConfig.update(
-    "secretAccessKey",
-    credentials.secretAccessKey,
-    vscode.ConfigurationTarget.Global
-  );
+  if (credentials) {
+    await updateCredentials(undefined, credentials);
+  }
 
   showInformationMessage("S3/R2 Explorer has been configured successfully!");
   return true;
@@ -0,0 +1,75 @@
+/**
+ * Bucket regions, and plain-language summaries for the bucket properties
+ * page
+ */
+
+import {
+  BucketEncryptionRule,
+  ObjectLockSettings,
+  PublicAccessBlock,
+} from "../types";
+
+const PUBLIC_ACCESS_SETTINGS: Array<[keyof PublicAccessBlock, string]> = [
+  ["blockPublicAcls", "BlockPublicAcls"],
+  ["ignorePublicAcls", "IgnorePublicAcls"],
+  ["blockPublicPolicy", "BlockPublicPolicy"],
+  ["restrictPublicBuckets", "RestrictPublicBuckets"],
+];
+
+/**
+ * GetBucketLocation reports us-east-1 as no constraint and eu-west-1 as the
+ * legacy "EU"
+ */
+export function normalizeBucketRegion(constraint?: string): string {
+  if (!constraint) {
+    return "us-east-1";
+  }
+  return constraint === "EU" ? "eu-west-1" : constraint;
+}
+
+/**
+ * The location constraint for creating a bucket in a region. us-east-1 is
+ * the default and must not be sent as a constraint.
+ */
+export function getLocationConstraint(region?: string): string | undefined {
+  return region && region !== "us-east-1" ? region : undefined;
+}
+
+export function describeEncryption(rules: BucketEncryptionRule[]): string {
+  return rules
+    .map((rule) => {
+      const kind =
+        rule.algorithm === "AES256"
+          ? "SSE-S3 (AES256)"
+          : rule.algorithm === "aws:kms:dsse"
+          ? "DSSE-KMS"
+          : rule.algorithm === "aws:kms"
+          ? "SSE-KMS"
+          : rule.algorithm;
+      const key = rule.kmsKeyId ? ` with key ${rule.kmsKeyId}` : "";
+      const bucketKey = rule.bucketKeyEnabled ? ", bucket key enabled" : "";
+      return `${kind}${key}${bucketKey}`;
+    })
+    .join("; ");
+}
+
+/**
+ * The settings of a public access block that are switched off. An empty
+ * list means all public access is blocked.
+ */
+export function getUnblockedPublicAccess(block: PublicAccessBlock): string[] {
+  return PUBLIC_ACCESS_SETTINGS.filter(([setting]) => !block[setting]).map(
+    ([, name]) => name
+  );
+}
+
+export function describeObjectLock(lock: ObjectLockSettings): string {
+  if (!lock.mode) {
+    return "Enabled, without default retention";
+  }
+
+  const period = lock.years
+    ? `${lock.years} year${lock.years === 1 ? "" : "s"}`
+    : `${lock.days} day${lock.days === 1 ? "" : "s"}`;
+  return `Enabled, ${lock.mode} retention for ${period} by default`;
+}
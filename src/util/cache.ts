@@ -76,6 +76,32 @@ export class S3Cache {
     }
   }
 
+  /**
+   * Drop the listings affected by a change to a single key: the listing
+   * that contains it, the listings above that and, for a prefix, everything
+   * cached below it
+   */
+  invalidateKey(bucket: string, key: string): void {
+    const bucketPrefix = `${bucket}:`;
+
+    if (key.endsWith("/")) {
+      for (const cacheKey of this.cache.keys()) {
+        if (cacheKey.startsWith(`${bucketPrefix}${key}`)) {
+          this.cache.delete(cacheKey);
+        }
+      }
+    }
+
+    const parts = key.split("/").slice(0, key.endsWith("/") ? -2 : -1);
+    for (let i = parts.length; i >= 0; i--) {
+      const parentPrefix = parts
+        .slice(0, i)
+        .map((part) => `${part}/`)
+        .join("");
+      this.cache.delete(this.getCacheKey(bucket, parentPrefix || undefined));
+    }
+  }
+
   invalidateAll(): void {
     this.cache.clear();
   }
@@ -181,3 +207,28 @@ export class S3Cache {
 
 // Global cache instance
 export const s3Cache = new S3Cache();
+
+// Named connections each get their own cache so that identically named
+// buckets on different endpoints never share entries
+const connectionCaches = new Map<string, S3Cache>();
+
+export function getCache(connection?: string): S3Cache {
+  if (!connection) {
+    return s3Cache;
+  }
+
+  let cache = connectionCaches.get(connection);
+  if (!cache) {
+    cache = new S3Cache();
+    connectionCaches.set(connection, cache);
+  }
+
+  return cache;
+}
+
+export function invalidateAllCaches(): void {
+  s3Cache.invalidateAll();
+  for (const cache of connectionCaches.values()) {
+    cache.invalidateAll();
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Utilities for running S3 requests in parallel
+ */
+
+/**
+ * Run an operation over every item with at most `limit` operations in
+ * flight. Results keep the order of the input. The first failure rejects
+ * the returned promise and stops new items from being started.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  operation: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await operation(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workers = Array.from(
+    { length: Math.max(1, Math.min(limit, items.length)) },
+    () => worker()
+  );
+  await Promise.all(workers);
+
+  return results;
+}
+
+/**
+ * Run an operation over consecutive batches of at most `size` items, one
+ * batch at a time and in order. No further batch is started once
+ * isCancelled returns true. Resolves to the number of items processed.
+ */
+export async function forEachBatch<T>(
+  items: T[],
+  size: number,
+  operation: (batch: T[], processed: number) => Promise<void>,
+  isCancelled: () => boolean = () => false
+): Promise<number> {
+  let processed = 0;
+
+  while (processed < items.length && !isCancelled()) {
+    const batch = items.slice(processed, processed + size);
+    await operation(batch, processed);
+    processed += batch.length;
+  }
+
+  return processed;
+}
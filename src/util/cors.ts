@@ -0,0 +1,153 @@
+/**
+ * Utilities for editing bucket CORS rules as JSON
+ */
+
+export const CORS_METHODS = ["GET", "PUT", "POST", "DELETE", "HEAD"];
+const MAX_CORS_RULES = 100;
+const RULE_PROPERTIES = [
+  "ID",
+  "AllowedOrigins",
+  "AllowedMethods",
+  "AllowedHeaders",
+  "ExposeHeaders",
+  "MaxAgeSeconds",
+];
+
+// Same shape as the S3 API and `aws s3api get-bucket-cors`
+export interface CorsRule {
+  ID?: string;
+  AllowedOrigins: string[];
+  AllowedMethods: string[];
+  AllowedHeaders?: string[];
+  ExposeHeaders?: string[];
+  MaxAgeSeconds?: number;
+}
+
+/**
+ * Rules for uploading straight from a browser, including multipart uploads
+ * (which need the ETag header exposed)
+ */
+export const CORS_UPLOAD_TEMPLATE: CorsRule[] = [
+  {
+    ID: "browser-uploads",
+    AllowedOrigins: ["http://localhost:3000", "https://example.com"],
+    AllowedMethods: ["GET", "PUT", "POST", "HEAD"],
+    AllowedHeaders: ["*"],
+    ExposeHeaders: ["ETag"],
+    MaxAgeSeconds: 3000,
+  },
+];
+
+export function formatCorsConfiguration(rules: CorsRule[]): string {
+  return `${JSON.stringify({ CORSRules: rules }, null, 2)}\n`;
+}
+
+/**
+ * Parse and validate a { "CORSRules": [...] } document. Errors name the
+ * offending rule so they can be shown when saving fails.
+ */
+export function parseCorsConfiguration(text: string): {
+  rules: CorsRule[];
+  errors: string[];
+} {
+  let document: any;
+  try {
+    document = JSON.parse(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : error;
+    return { rules: [], errors: [`Invalid JSON: ${message}`] };
+  }
+
+  if (!isObject(document) || !Array.isArray(document.CORSRules)) {
+    return { rules: [], errors: ['Expected { "CORSRules": [...] }'] };
+  }
+
+  const rules: any[] = document.CORSRules;
+  const errors: string[] = [];
+
+  if (rules.length === 0) {
+    errors.push(
+      "Add at least one rule, or use Delete CORS Configuration instead"
+    );
+  } else if (rules.length > MAX_CORS_RULES) {
+    errors.push(`At most ${MAX_CORS_RULES} rules are allowed`);
+  }
+
+  rules.forEach((rule, index) => {
+    const name = `Rule ${index + 1}`;
+    if (!isObject(rule)) {
+      errors.push(`${name} must be an object`);
+      return;
+    }
+
+    for (const property of Object.keys(rule)) {
+      if (!RULE_PROPERTIES.includes(property)) {
+        errors.push(`${name}: unknown property "${property}"`);
+      }
+    }
+
+    if (!isNonEmptyStringArray(rule.AllowedOrigins)) {
+      errors.push(`${name}: AllowedOrigins must list at least one origin`);
+    } else {
+      for (const origin of rule.AllowedOrigins as string[]) {
+        if ((origin.match(/\*/g) || []).length > 1) {
+          errors.push(`${name}: origin "${origin}" has more than one "*"`);
+        }
+      }
+    }
+
+    if (!isNonEmptyStringArray(rule.AllowedMethods)) {
+      errors.push(`${name}: AllowedMethods must list at least one method`);
+    } else {
+      for (const method of rule.AllowedMethods as string[]) {
+        if (!CORS_METHODS.includes(method)) {
+          errors.push(
+            `${name}: "${method}" is not one of ${CORS_METHODS.join(", ")}`
+          );
+        }
+      }
+    }
+
+    for (const property of ["AllowedHeaders", "ExposeHeaders"]) {
+      if (rule[property] !== undefined && !isStringArray(rule[property])) {
+        errors.push(`${name}: ${property} must be a list of header names`);
+      }
+    }
+    if (
+      isStringArray(rule.ExposeHeaders) &&
+      rule.ExposeHeaders.includes("*")
+    ) {
+      errors.push(`${name}: ExposeHeaders cannot use "*"`);
+    }
+
+    if (
+      rule.MaxAgeSeconds !== undefined &&
+      !(Number.isInteger(rule.MaxAgeSeconds) && rule.MaxAgeSeconds >= 0)
+    ) {
+      errors.push(`${name}: MaxAgeSeconds must be a whole number of seconds`);
+    }
+
+    if (
+      rule.ID !== undefined &&
+      (typeof rule.ID !== "string" || rule.ID.length > 255)
+    ) {
+      errors.push(`${name}: ID must be a string of up to 255 characters`);
+    }
+  });
+
+  return { rules: errors.length === 0 ? rules : [], errors };
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+  );
+}
+
+function isNonEmptyStringArray(value: unknown): value is string[] {
+  return isStringArray(value) && value.length > 0;
+}
@@ -0,0 +1,106 @@
+/**
+ * Utilities for temporary credentials: AssumeRole chains and refreshing
+ * credentials before they expire
+ */
+
+import { fromTemporaryCredentials } from "@aws-sdk/credential-providers";
+
+export interface TemporaryCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+  expiration?: Date;
+}
+
+// Refresh this long before expiry so in-flight requests never sign with
+// credentials that are about to lapse
+export const CREDENTIAL_REFRESH_WINDOW_MS = 5 * 60 * 1000;
+
+export interface AssumeRoleOptions {
+  roleArn: string;
+  externalId?: string;
+  mfaSerial?: string;
+  roleSessionName?: string;
+  durationSeconds?: number;
+  region: string;
+  stsEndpoint?: string;
+  masterCredentials:
+    | TemporaryCredentials
+    | (() => Promise<TemporaryCredentials>);
+  mfaCodeProvider?: (mfaSerial: string) => Promise<string>;
+}
+
+/**
+ * Check whether credentials expire within the refresh window.
+ * Credentials without an expiration never need refreshing.
+ */
+export function needsRefresh(
+  credentials: { expiration?: Date },
+  refreshWindowMs: number = CREDENTIAL_REFRESH_WINDOW_MS,
+  now: number = Date.now()
+): boolean {
+  if (!credentials.expiration) {
+    return false;
+  }
+
+  return credentials.expiration.getTime() - now <= refreshWindowMs;
+}
+
+/**
+ * Wrap a credential provider so credentials are cached and fetched again
+ * shortly before they expire. Concurrent callers share a single refresh.
+ */
+export function createRefreshingProvider<T extends { expiration?: Date }>(
+  provider: () => Promise<T>,
+  refreshWindowMs: number = CREDENTIAL_REFRESH_WINDOW_MS,
+  now: () => number = Date.now
+): () => Promise<T> {
+  let current: T | undefined;
+  let pending: Promise<T> | undefined;
+
+  return () => {
+    if (current && !needsRefresh(current, refreshWindowMs, now())) {
+      return Promise.resolve(current);
+    }
+
+    if (!pending) {
+      pending = provider()
+        .then((credentials) => {
+          current = credentials;
+          return credentials;
+        })
+        .finally(() => {
+          pending = undefined;
+        });
+    }
+
+    return pending;
+  };
+}
+
+/**
+ * Create a provider that assumes a role with STS using the given master
+ * credentials. Point stsEndpoint at a local STS stand-in for testing.
+ */
+export function createAssumeRoleProvider(
+  options: AssumeRoleOptions,
+  refreshWindowMs: number = CREDENTIAL_REFRESH_WINDOW_MS
+): () => Promise<TemporaryCredentials> {
+  const assumeRole = fromTemporaryCredentials({
+    params: {
+      RoleArn: options.roleArn,
+      ExternalId: options.externalId || undefined,
+      SerialNumber: options.mfaSerial || undefined,
+      RoleSessionName: options.roleSessionName || `s3x-explorer-${Date.now()}`,
+      DurationSeconds: options.durationSeconds,
+    },
+    masterCredentials: options.masterCredentials,
+    clientConfig: {
+      region: options.region,
+      ...(options.stsEndpoint ? { endpoint: options.stsEndpoint } : {}),
+    },
+    mfaCodeProvider: options.mfaCodeProvider,
+  });
+
+  return createRefreshingProvider(() => assumeRole(), refreshWindowMs);
+}
@@ -0,0 +1,86 @@
+/**
+ * Utilities for coalescing bursts of events into single operations
+ */
+
+/**
+ * Run a worker once per key after the key has been quiet for delayMs. Keys
+ * are processed one at a time in the order they settled. Scheduling a key
+ * again while its timer runs restarts the timer; scheduling it while the
+ * worker is running queues exactly one more run.
+ */
+export class CoalescingQueue<K> {
+  private readonly timers = new Map<K, ReturnType<typeof setTimeout>>();
+  private readonly queue: K[] = [];
+  private active: K | undefined;
+  private running = false;
+
+  constructor(
+    private readonly delayMs: number,
+    private readonly worker: (key: K) => Promise<void>,
+    private readonly onChange?: () => void
+  ) {}
+
+  schedule(key: K): void {
+    const timer = this.timers.get(key);
+    if (timer) {
+      clearTimeout(timer);
+    }
+
+    this.timers.set(
+      key,
+      setTimeout(() => {
+        this.timers.delete(key);
+        if (!this.queue.includes(key)) {
+          this.queue.push(key);
+        }
+        this.onChange?.();
+        void this.drain();
+      }, this.delayMs)
+    );
+  }
+
+  /**
+   * The key being processed, if any
+   */
+  get current(): K | undefined {
+    return this.active;
+  }
+
+  /**
+   * Keys waiting to be processed, including those still settling
+   */
+  get pending(): number {
+    return this.queue.length + this.timers.size;
+  }
+
+  dispose(): void {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+    this.queue.length = 0;
+  }
+
+  private async drain(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      while (this.queue.length > 0) {
+        this.active = this.queue.shift()!;
+        this.onChange?.();
+
+        try {
+          await this.worker(this.active);
+        } catch (error) {
+          // The worker reports its own failures; keep draining
+          console.error("Queued operation failed:", error);
+        }
+      }
+    } finally {
+      this.active = undefined;
+      this.running = false;
+      this.onChange?.();
+    }
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Utilities for comparing the contents of two S3 prefixes
+ */
+
+import { S3Object } from "../types";
+import { getRelativePath } from "./paths";
+
+export type DriftStatus = "onlyLeft" | "onlyRight" | "same" | "different";
+
+// A bucket and prefix ("" or ending in "/") on a connection
+export interface PrefixLocation {
+  bucket: string;
+  prefix: string;
+  connection?: string;
+}
+
+export interface DriftEntry {
+  relativePath: string; // Key relative to both prefixes
+  status: DriftStatus;
+  left?: S3Object;
+  right?: S3Object;
+}
+
+export interface DriftReport {
+  left: PrefixLocation;
+  right: PrefixLocation;
+  entries: DriftEntry[];
+}
+
+/**
+ * Match the objects of two listings by their key relative to each prefix.
+ * Objects are the same when both size and ETag match; folder markers are
+ * left out.
+ */
+export function compareListings(
+  leftObjects: S3Object[],
+  leftPrefix: string,
+  rightObjects: S3Object[],
+  rightPrefix: string
+): DriftEntry[] {
+  const byPath = (objects: S3Object[], prefix: string) =>
+    new Map(
+      objects
+        .filter((object) => !object.key.endsWith("/"))
+        .map((object) => [getRelativePath(object.key, prefix), object])
+    );
+
+  const lefts = byPath(leftObjects, leftPrefix);
+  const rights = byPath(rightObjects, rightPrefix);
+  const paths = new Set([...lefts.keys(), ...rights.keys()]);
+
+  return [...paths].sort().map((relativePath) => {
+    const left = lefts.get(relativePath);
+    const right = rights.get(relativePath);
+
+    let status: DriftStatus;
+    if (!right) {
+      status = "onlyLeft";
+    } else if (!left) {
+      status = "onlyRight";
+    } else {
+      status =
+        left.size === right.size &&
+        normalizeEtag(left.etag) === normalizeEtag(right.etag)
+          ? "same"
+          : "different";
+    }
+
+    return { relativePath, status, left, right };
+  });
+}
+
+export function summarizeDrift(
+  entries: DriftEntry[]
+): Record<DriftStatus, number> {
+  const counts = { onlyLeft: 0, onlyRight: 0, same: 0, different: 0 };
+  for (const entry of entries) {
+    counts[entry.status]++;
+  }
+  return counts;
+}
+
+/**
+ * Render a report as CSV with one row per key
+ */
+export function formatDriftCsv(report: DriftReport): string {
+  const rows = [
+    [
+      "key",
+      "status",
+      "left_size",
+      "left_etag",
+      "left_modified",
+      "right_size",
+      "right_etag",
+      "right_modified",
+    ],
+  ];
+
+  for (const { relativePath, status, left, right } of report.entries) {
+    rows.push([
+      relativePath,
+      status,
+      left?.size?.toString() ?? "",
+      normalizeEtag(left?.etag),
+      left?.lastModified?.toISOString() ?? "",
+      right?.size?.toString() ?? "",
+      normalizeEtag(right?.etag),
+      right?.lastModified?.toISOString() ?? "",
+    ]);
+  }
+
+  return rows.map((row) => row.map(escapeCsvField).join(",")).join("\r\n");
+}
+
+/**
+ * Describe a location as [connection@]bucket/prefix
+ */
+export function formatPrefixLocation(location: PrefixLocation): string {
+  const connection = location.connection ? `${location.connection}@` : "";
+  return `${connection}${location.bucket}/${location.prefix}`;
+}
+
+function normalizeEtag(etag?: string): string {
+  return (etag || "").replace(/"/g, "").toLowerCase();
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
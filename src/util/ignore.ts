@@ -0,0 +1,159 @@
+/**
+ * Utilities for gitignore-style exclude patterns (.s3xignore)
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+export const IGNORE_FILE_NAME = ".s3xignore";
+
+interface IgnoreRule {
+  regex: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+/**
+ * Parse the lines of an ignore file. Blank lines and lines starting with
+ * "#" are skipped.
+ */
+export function parseIgnorePatterns(content: string): string[] {
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith("#"));
+}
+
+/**
+ * Build a matcher for gitignore-style patterns. Paths are relative to the
+ * folder being uploaded and use "/" as the separator. As in git, later
+ * patterns win, "!" re-includes, a trailing "/" only matches directories
+ * and a pattern without a "/" matches at any depth.
+ */
+export function createIgnoreMatcher(
+  patterns: string[]
+): (relativePath: string, isDirectory: boolean) => boolean {
+  const rules = patterns.map(compileRule);
+
+  return (relativePath, isDirectory) => {
+    let ignored = false;
+
+    for (const rule of rules) {
+      if (rule.directoryOnly && !isDirectory) {
+        continue;
+      }
+      if (rule.negated === ignored && rule.regex.test(relativePath)) {
+        ignored = !rule.negated;
+      }
+    }
+
+    return ignored;
+  };
+}
+
+/**
+ * Build a matcher from the given patterns plus the .s3xignore in a folder,
+ * if there is one. The .s3xignore file itself is never uploaded.
+ */
+export async function loadIgnoreMatcher(
+  folderPath: string,
+  patterns: string[]
+): Promise<(relativePath: string, isDirectory: boolean) => boolean> {
+  const all = [...patterns];
+
+  try {
+    const content = await fs.promises.readFile(
+      path.join(folderPath, IGNORE_FILE_NAME),
+      "utf8"
+    );
+    all.push(IGNORE_FILE_NAME, ...parseIgnorePatterns(content));
+  } catch {
+    // No .s3xignore in this folder
+  }
+
+  return createIgnoreMatcher(all);
+}
+
+/**
+ * Check a file path against a matcher including each of its parent
+ * directories, for paths that weren't reached by walking a folder (such as
+ * object keys)
+ */
+export function isPathIgnored(
+  isIgnored: (relativePath: string, isDirectory: boolean) => boolean,
+  relativePath: string
+): boolean {
+  const segments = relativePath.split("/");
+
+  for (let i = 1; i < segments.length; i++) {
+    if (isIgnored(segments.slice(0, i).join("/"), true)) {
+      return true;
+    }
+  }
+
+  return isIgnored(relativePath, false);
+}
+
+function compileRule(pattern: string): IgnoreRule {
+  let source = pattern;
+  const negated = source.startsWith("!");
+  if (negated) {
+    source = source.substring(1);
+  }
+
+  const directoryOnly = source.endsWith("/");
+  source = source.replace(/\/+$/, "");
+
+  // A slash anywhere but the end anchors the pattern to the root
+  const anchored = source.includes("/");
+  source = source.replace(/^\/+/, "");
+
+  const body = globToRegex(source);
+  const regex = new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`);
+
+  return { regex, negated, directoryOnly };
+}
+
+function globToRegex(glob: string): string {
+  let result = "";
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/" matches zero or more directories, a trailing "**" anything
+        if (glob[i + 2] === "/") {
+          result += "(?:.*/)?";
+          i += 2;
+        } else {
+          result += ".*";
+          i += 1;
+        }
+      } else {
+        result += "[^/]*";
+      }
+    } else if (char === "?") {
+      result += "[^/]";
+    } else if (char === "[") {
+      const close = glob.indexOf("]", i + 1);
+      if (close === -1) {
+        result += "\\[";
+      } else {
+        const set = glob.substring(i + 1, close).replace(/^!/, "^");
+        result += `[${set.replace(/\\/g, "\\\\")}]`;
+        i = close;
+      }
+    } else if (char === "\\" && i + 1 < glob.length) {
+      result += escapeRegex(glob[++i]);
+    } else {
+      result += escapeRegex(char);
+    }
+  }
+
+  return result;
+}
+
+function escapeRegex(char: string): string {
+  return char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
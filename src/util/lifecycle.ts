@@ -0,0 +1,420 @@
+/**
+ * Utilities for reading and editing bucket lifecycle rules as JSON
+ */
+
+export const TRANSITION_STORAGE_CLASSES = [
+  "STANDARD_IA",
+  "ONEZONE_IA",
+  "INTELLIGENT_TIERING",
+  "GLACIER_IR",
+  "GLACIER",
+  "DEEP_ARCHIVE",
+];
+const MAX_LIFECYCLE_RULES = 1000;
+const ACTION_PROPERTIES = [
+  "Expiration",
+  "Transitions",
+  "NoncurrentVersionExpiration",
+  "NoncurrentVersionTransitions",
+  "AbortIncompleteMultipartUpload",
+];
+const RULE_PROPERTIES = [
+  "ID",
+  "Status",
+  "Filter",
+  "Prefix",
+  ...ACTION_PROPERTIES,
+];
+
+// ISO dates in JSON documents, Date objects when read through the SDK
+type LifecycleDate = string | Date;
+
+interface LifecycleTag {
+  Key: string;
+  Value: string;
+}
+
+interface LifecycleFilter {
+  Prefix?: string;
+  Tag?: LifecycleTag;
+  ObjectSizeGreaterThan?: number;
+  ObjectSizeLessThan?: number;
+  And?: {
+    Prefix?: string;
+    Tags?: LifecycleTag[];
+    ObjectSizeGreaterThan?: number;
+    ObjectSizeLessThan?: number;
+  };
+}
+
+interface LifecycleTransition {
+  Days?: number;
+  Date?: LifecycleDate;
+  StorageClass: string;
+}
+
+interface NoncurrentTransition {
+  NoncurrentDays: number;
+  NewerNoncurrentVersions?: number;
+  StorageClass: string;
+}
+
+// Same shape as the S3 API and `aws s3api get-bucket-lifecycle-configuration`
+export interface LifecycleRule {
+  ID?: string;
+  Status: "Enabled" | "Disabled";
+  Filter?: LifecycleFilter;
+  Prefix?: string; // Deprecated in favour of Filter
+  Expiration?: {
+    Days?: number;
+    Date?: LifecycleDate;
+    ExpiredObjectDeleteMarker?: boolean;
+  };
+  Transitions?: LifecycleTransition[];
+  NoncurrentVersionExpiration?: {
+    NoncurrentDays: number;
+    NewerNoncurrentVersions?: number;
+  };
+  NoncurrentVersionTransitions?: NoncurrentTransition[];
+  AbortIncompleteMultipartUpload?: { DaysAfterInitiation: number };
+}
+
+/**
+ * Starting point for buckets without lifecycle rules: expire logs and clean
+ * up multipart uploads that were never completed
+ */
+export const LIFECYCLE_TEMPLATE: LifecycleRule[] = [
+  {
+    ID: "expire-logs",
+    Status: "Enabled",
+    Filter: { Prefix: "logs/" },
+    Expiration: { Days: 30 },
+  },
+  {
+    ID: "abort-incomplete-uploads",
+    Status: "Enabled",
+    Filter: { Prefix: "" },
+    AbortIncompleteMultipartUpload: { DaysAfterInitiation: 7 },
+  },
+];
+
+export function formatLifecycleConfiguration(rules: LifecycleRule[]): string {
+  return `${JSON.stringify({ Rules: rules }, null, 2)}\n`;
+}
+
+/**
+ * Describe what a rule does, one sentence per kind of action, e.g.
+ * "Objects under logs/ expire after 30 days"
+ */
+export function describeLifecycleRule(rule: LifecycleRule): string[] {
+  const prefix = getRulePrefix(rule);
+  const under = prefix ? ` under ${prefix}` : "";
+  const scope = describeScope(rule);
+  const sentences: string[] = [];
+
+  const current = (rule.Transitions || []).map(
+    (transition) =>
+      `move to ${transition.StorageClass} ${describeWhen(transition)}`
+  );
+  if (rule.Expiration?.Days !== undefined || rule.Expiration?.Date) {
+    current.push(`expire ${describeWhen(rule.Expiration)}`);
+  }
+  if (current.length > 0) {
+    sentences.push(capitalize(`${scope} ${joinActions(current)}`));
+  }
+
+  const noncurrent = (rule.NoncurrentVersionTransitions || []).map(
+    (transition) =>
+      `move to ${transition.StorageClass} after ${pluralize(
+        transition.NoncurrentDays,
+        "day"
+      )}${describeNewerVersions(transition.NewerNoncurrentVersions)}`
+  );
+  const expiration = rule.NoncurrentVersionExpiration;
+  if (expiration) {
+    noncurrent.push(
+      `expire after ${pluralize(
+        expiration.NoncurrentDays,
+        "day"
+      )}${describeNewerVersions(expiration.NewerNoncurrentVersions)}`
+    );
+  }
+  if (noncurrent.length > 0) {
+    sentences.push(
+      `Noncurrent versions of ${scope} ${joinActions(noncurrent)}`
+    );
+  }
+
+  if (rule.Expiration?.ExpiredObjectDeleteMarker) {
+    sentences.push(`Remove expired delete markers${under}`);
+  }
+
+  const abort = rule.AbortIncompleteMultipartUpload;
+  if (abort) {
+    sentences.push(
+      `Abort incomplete multipart uploads${under} after ${pluralize(
+        abort.DaysAfterInitiation,
+        "day"
+      )}`
+    );
+  }
+
+  return sentences.length > 0 ? sentences : ["No actions"];
+}
+
+/**
+ * Parse and validate a { "Rules": [...] } document. An empty list is valid
+ * and means the bucket's lifecycle configuration should be removed.
+ */
+export function parseLifecycleConfiguration(text: string): {
+  rules: LifecycleRule[];
+  errors: string[];
+} {
+  let document: any;
+  try {
+    document = JSON.parse(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : error;
+    return { rules: [], errors: [`Invalid JSON: ${message}`] };
+  }
+
+  if (!isObject(document) || !Array.isArray(document.Rules)) {
+    return { rules: [], errors: ['Expected { "Rules": [...] }'] };
+  }
+
+  const rules: any[] = document.Rules;
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  if (rules.length > MAX_LIFECYCLE_RULES) {
+    errors.push(`At most ${MAX_LIFECYCLE_RULES} rules are allowed`);
+  }
+
+  rules.forEach((rule, index) => {
+    const name = `Rule ${index + 1}`;
+    if (!isObject(rule)) {
+      errors.push(`${name} must be an object`);
+      return;
+    }
+
+    for (const property of Object.keys(rule)) {
+      if (!RULE_PROPERTIES.includes(property)) {
+        errors.push(`${name}: unknown property "${property}"`);
+      }
+    }
+
+    if (rule.ID !== undefined) {
+      if (typeof rule.ID !== "string" || rule.ID.length > 255) {
+        errors.push(`${name}: ID must be a string of up to 255 characters`);
+      } else if (ids.has(rule.ID)) {
+        errors.push(`${name}: ID "${rule.ID}" is used more than once`);
+      } else {
+        ids.add(rule.ID);
+      }
+    }
+
+    if (rule.Status !== "Enabled" && rule.Status !== "Disabled") {
+      errors.push(`${name}: Status must be "Enabled" or "Disabled"`);
+    }
+
+    if (rule.Filter !== undefined && rule.Prefix !== undefined) {
+      errors.push(`${name}: use either Filter or Prefix, not both`);
+    } else if (rule.Filter !== undefined && !isObject(rule.Filter)) {
+      errors.push(`${name}: Filter must be an object`);
+    }
+
+    if (!ACTION_PROPERTIES.some((action) => action in rule)) {
+      errors.push(`${name}: add at least one action, such as Expiration`);
+    }
+
+    const expiration = rule.Expiration;
+    if (expiration !== undefined) {
+      const kinds = ["Days", "Date", "ExpiredObjectDeleteMarker"].filter(
+        (kind) => isObject(expiration) && expiration[kind] !== undefined
+      );
+      if (kinds.length !== 1) {
+        errors.push(
+          `${name}: Expiration needs exactly one of Days, Date or ExpiredObjectDeleteMarker`
+        );
+      } else {
+        checkWhen(expiration, `${name}: Expiration`, errors);
+      }
+      if (expiration?.ExpiredObjectDeleteMarker && hasTags(rule.Filter)) {
+        errors.push(
+          `${name}: ExpiredObjectDeleteMarker cannot be used with tag filters`
+        );
+      }
+    }
+
+    checkList(rule.Transitions, `${name}: Transitions`, errors, (item, at) => {
+      checkStorageClass(item.StorageClass, at, errors);
+      if ((item.Days === undefined) === (item.Date === undefined)) {
+        errors.push(`${at} needs either Days or Date`);
+      } else {
+        checkWhen(item, at, errors, 0);
+      }
+    });
+
+    const noncurrent = rule.NoncurrentVersionExpiration;
+    if (noncurrent !== undefined) {
+      checkDays(
+        noncurrent?.NoncurrentDays,
+        `${name}: NoncurrentVersionExpiration.NoncurrentDays`,
+        errors
+      );
+    }
+
+    checkList(
+      rule.NoncurrentVersionTransitions,
+      `${name}: NoncurrentVersionTransitions`,
+      errors,
+      (item, at) => {
+        checkStorageClass(item.StorageClass, at, errors);
+        checkDays(item.NoncurrentDays, `${at}.NoncurrentDays`, errors, 0);
+      }
+    );
+
+    const abort = rule.AbortIncompleteMultipartUpload;
+    if (abort !== undefined) {
+      checkDays(
+        abort?.DaysAfterInitiation,
+        `${name}: AbortIncompleteMultipartUpload.DaysAfterInitiation`,
+        errors
+      );
+      if (hasTags(rule.Filter)) {
+        errors.push(
+          `${name}: AbortIncompleteMultipartUpload cannot be used with tag filters`
+        );
+      }
+    }
+  });
+
+  return { rules: errors.length === 0 ? rules : [], errors };
+}
+
+function getRulePrefix(rule: LifecycleRule): string {
+  return rule.Filter?.Prefix ?? rule.Filter?.And?.Prefix ?? rule.Prefix ?? "";
+}
+
+function describeScope(rule: LifecycleRule): string {
+  const filter = rule.Filter?.And || rule.Filter || {};
+  const prefix = getRulePrefix(rule);
+  const tags = rule.Filter?.Tag ? [rule.Filter.Tag] : rule.Filter?.And?.Tags;
+
+  let scope = prefix ? `objects under ${prefix}` : "all objects";
+  if (tags && tags.length > 0) {
+    scope += ` tagged ${tags
+      .map((tag) => `${tag.Key}=${tag.Value}`)
+      .join(", ")}`;
+  }
+  if (filter.ObjectSizeGreaterThan !== undefined) {
+    scope += ` larger than ${filter.ObjectSizeGreaterThan} bytes`;
+  }
+  if (filter.ObjectSizeLessThan !== undefined) {
+    scope += ` smaller than ${filter.ObjectSizeLessThan} bytes`;
+  }
+  return scope;
+}
+
+function describeWhen(when: { Days?: number; Date?: LifecycleDate }): string {
+  if (when.Days !== undefined) {
+    return `after ${pluralize(when.Days, "day")}`;
+  }
+  return `on ${new Date(when.Date!).toISOString().substring(0, 10)}`;
+}
+
+function describeNewerVersions(count?: number): string {
+  return count ? ` (keeping the newest ${count})` : "";
+}
+
+function joinActions(actions: string[]): string {
+  return actions.length === 1
+    ? actions[0]
+    : `${actions.slice(0, -1).join(", ")} and ${actions[actions.length - 1]}`;
+}
+
+function pluralize(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.substring(1);
+}
+
+function hasTags(filter: any): boolean {
+  return isObject(filter) && (!!filter.Tag || !!filter.And?.Tags?.length);
+}
+
+function checkList(
+  value: unknown,
+  name: string,
+  errors: string[],
+  check: (item: Record<string, any>, name: string) => void
+): void {
+  if (value === undefined) {
+    return;
+  }
+  if (!Array.isArray(value)) {
+    errors.push(`${name} must be a list`);
+    return;
+  }
+  value.forEach((item, index) => {
+    if (isObject(item)) {
+      check(item, `${name}[${index}]`);
+    } else {
+      errors.push(`${name}[${index}] must be an object`);
+    }
+  });
+}
+
+function checkWhen(
+  when: Record<string, any>,
+  name: string,
+  errors: string[],
+  minimumDays = 1
+): void {
+  if (when.Days !== undefined) {
+    checkDays(when.Days, `${name}.Days`, errors, minimumDays);
+  }
+  // S3 only accepts dates at midnight UTC
+  if (
+    when.Date !== undefined &&
+    !(
+      typeof when.Date === "string" &&
+      /^\d{4}-\d{2}-\d{2}(T00:00:00(\.000)?Z)?$/.test(when.Date) &&
+      !isNaN(Date.parse(when.Date))
+    )
+  ) {
+    errors.push(`${name}.Date must be a date such as "2030-01-31"`);
+  }
+}
+
+// Transitions may happen on day 0, expirations need at least a day
+function checkDays(
+  value: unknown,
+  name: string,
+  errors: string[],
+  minimum = 1
+): void {
+  if (!(Number.isInteger(value) && (value as number) >= minimum)) {
+    errors.push(`${name} must be a whole number of days, at least ${minimum}`);
+  }
+}
+
+function checkStorageClass(
+  value: unknown,
+  name: string,
+  errors: string[]
+): void {
+  if (!TRANSITION_STORAGE_CLASSES.includes(value as string)) {
+    errors.push(
+      `${name}.StorageClass must be one of ${TRANSITION_STORAGE_CLASSES.join(
+        ", "
+      )}`
+    );
+  }
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
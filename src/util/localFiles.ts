@@ -0,0 +1,126 @@
+/**
+ * Utilities for walking and comparing local files for uploads
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+
+export interface LocalFile {
+  path: string;
+  relativePath: string; // Always "/"-separated
+  size: number;
+  modified: number;
+}
+
+/**
+ * List every file below root, skipping anything the ignore matcher excludes.
+ * Ignored directories are not descended into. Symbolic links are skipped.
+ */
+export async function walkLocalFolder(
+  root: string,
+  isIgnored: (relativePath: string, isDirectory: boolean) => boolean = () =>
+    false
+): Promise<LocalFile[]> {
+  const files: LocalFile[] = [];
+
+  const walk = async (directory: string, relativeDir: string) => {
+    const entries = await fs.promises.readdir(directory, {
+      withFileTypes: true,
+    });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      const relativePath = relativeDir
+        ? `${relativeDir}/${entry.name}`
+        : entry.name;
+      const fullPath = path.join(directory, entry.name);
+
+      if (entry.isDirectory()) {
+        if (!isIgnored(relativePath, true)) {
+          await walk(fullPath, relativePath);
+        }
+      } else if (entry.isFile() && !isIgnored(relativePath, false)) {
+        const stat = await fs.promises.stat(fullPath);
+        files.push({
+          path: fullPath,
+          relativePath,
+          size: stat.size,
+          modified: stat.mtimeMs,
+        });
+      }
+    }
+  };
+
+  await walk(root, "");
+  return files;
+}
+
+/**
+ * Map a "/"-separated key, relative to a downloaded prefix, to a path below
+ * root. Returns undefined for keys that would escape root or can't be files.
+ */
+export function keyToLocalPath(
+  root: string,
+  relativeKey: string
+): string | undefined {
+  const segments = relativeKey.split("/").filter((segment) => segment);
+
+  if (
+    segments.length === 0 ||
+    segments.some(
+      (segment) =>
+        segment === "." || segment === ".." || segment.includes("\\")
+    )
+  ) {
+    return undefined;
+  }
+
+  return path.join(root, ...segments);
+}
+
+/**
+ * Hex MD5 of a file, streamed so large files aren't read into memory
+ */
+export async function computeFileMd5(filePath: string): Promise<string> {
+  const hash = crypto.createHash("md5");
+
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+
+  return hash.digest("hex");
+}
+
+/**
+ * Whether a remote object can be treated as identical to a local file.
+ * Single-part ETags are the MD5 of the content, so they are compared
+ * exactly (via getMd5, only called when sizes match). Multipart ETags are
+ * not, so those objects count as unchanged when the size matches and the
+ * copy being replaced is no older than the source: for an upload the local
+ * file must be no newer than the object, for a download the object must be
+ * no newer than the local file.
+ */
+export async function isUnchanged(
+  local: { size: number; modified: number },
+  remote: { size?: number; lastModified?: Date; etag?: string },
+  direction: "upload" | "download",
+  getMd5: () => Promise<string>
+): Promise<boolean> {
+  if (remote.size !== local.size) {
+    return false;
+  }
+
+  const etag = (remote.etag || "").replace(/"/g, "");
+  if (/^[0-9a-f]{32}$/i.test(etag)) {
+    return etag.toLowerCase() === (await getMd5()).toLowerCase();
+  }
+
+  if (!remote.lastModified) {
+    return false;
+  }
+
+  return direction === "upload"
+    ? local.modified <= remote.lastModified.getTime()
+    : remote.lastModified.getTime() <= local.modified;
+}
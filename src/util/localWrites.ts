@@ -0,0 +1,52 @@
+/**
+ * Tracking of local files the extension writes itself (downloads, pulls and
+ * syncs), so file watchers can tell them apart from changes made by the user
+ * or their tools
+ */
+
+import * as path from "path";
+
+// Watcher events are delivered some time after the write that caused them
+export const LOCAL_WRITE_SETTLE_MS = 2000;
+
+const writes = new Map<string, { active: number; until: number }>();
+
+/**
+ * Run a write to the given files, marking them as written by the extension
+ * while it runs and for a short time afterwards
+ */
+export async function trackLocalWrite<T>(
+  filePaths: string[],
+  write: () => Promise<T>
+): Promise<T> {
+  const keys = filePaths.map((filePath) => path.resolve(filePath));
+  const now = Date.now();
+
+  for (const [key, entry] of writes) {
+    if (entry.active === 0 && entry.until <= now) {
+      writes.delete(key);
+    }
+  }
+
+  for (const key of keys) {
+    const entry = writes.get(key) || { active: 0, until: 0 };
+    entry.active++;
+    writes.set(key, entry);
+  }
+
+  try {
+    return await write();
+  } finally {
+    const until = Date.now() + LOCAL_WRITE_SETTLE_MS;
+    for (const key of keys) {
+      const entry = writes.get(key)!;
+      entry.active--;
+      entry.until = until;
+    }
+  }
+}
+
+export function isLocalWrite(filePath: string, now = Date.now()): boolean {
+  const entry = writes.get(path.resolve(filePath));
+  return !!entry && (entry.active > 0 || now < entry.until);
+}
@@ -0,0 +1,83 @@
+/**
+ * Utilities for splitting objects into multipart upload/copy parts
+ */
+
+// S3 multipart limits
+export const MIN_PART_SIZE = 5 * 1024 * 1024; // 5MB, except the last part
+export const MAX_PART_SIZE = 5 * 1024 * 1024 * 1024; // 5GB
+export const MAX_PARTS = 10000;
+
+export interface PartRange {
+  partNumber: number;
+  start: number;
+  end: number; // Inclusive, as used by HTTP byte ranges
+}
+
+/**
+ * Pick a part size of at least preferredSize that keeps the object within
+ * the 10,000 part limit
+ */
+export function choosePartSize(
+  totalSize: number,
+  preferredSize: number
+): number {
+  const minimumForLimit = Math.ceil(totalSize / MAX_PARTS);
+  const partSize = Math.max(preferredSize, minimumForLimit, MIN_PART_SIZE);
+
+  if (partSize > MAX_PART_SIZE) {
+    throw new Error(
+      `Object of ${totalSize} bytes is too large for a multipart transfer`
+    );
+  }
+
+  return partSize;
+}
+
+/**
+ * Split an object into numbered byte ranges of partSize bytes
+ */
+export function getPartRanges(
+  totalSize: number,
+  partSize: number
+): PartRange[] {
+  const ranges: PartRange[] = [];
+
+  for (let start = 0, partNumber = 1; start < totalSize; partNumber++) {
+    const end = Math.min(start + partSize, totalSize) - 1;
+    ranges.push({ partNumber, start, end });
+    start = end + 1;
+  }
+
+  return ranges;
+}
+
+export interface UploadedPart {
+  partNumber: number;
+  etag: string;
+  size?: number;
+}
+
+/**
+ * The parts of an interrupted upload that can be kept when resuming it:
+ * those the server lists with exactly the size the file's ranges expect.
+ * Anything else is uploaded again.
+ */
+export function getResumableParts(
+  totalSize: number,
+  partSize: number,
+  uploaded: UploadedPart[]
+): Array<{ partNumber: number; etag: string }> {
+  const expected = new Map(
+    getPartRanges(totalSize, partSize).map((range) => [
+      range.partNumber,
+      range.end - range.start + 1,
+    ])
+  );
+
+  return uploaded
+    .filter(
+      (part) =>
+        part.size !== undefined && expected.get(part.partNumber) === part.size
+    )
+    .map(({ partNumber, etag }) => ({ partNumber, etag }));
+}
@@ -85,25 +85,61 @@ export function removeTrailingSlash(prefix: string): string {
 }
 
 /**
- * Create an S3X URI for the filesystem provider
+ * Create an S3X URI for the filesystem provider.
+ * Objects of a named connection are addressed as s3x://connection@bucket/key
+ * and a specific version as s3x://bucket/key?versionId=id. "%", "?" and "#"
+ * in the key are percent-encoded so they aren't read as URI syntax.
  */
-export function createS3xUri(bucket: string, key?: string): string {
-  const normalizedKey = key ? normalizeKey(key) : "";
-  return `s3x://${bucket}/${normalizedKey}`;
+export function createS3xUri(
+  bucket: string,
+  key?: string,
+  connection?: string,
+  versionId?: string
+): string {
+  const normalizedKey = key
+    ? normalizeKey(key).replace(/[%?#]/g, encodeURIComponent)
+    : "";
+  const authority = connection ? `${connection}@${bucket}` : bucket;
+  const query = versionId
+    ? `?versionId=${encodeURIComponent(versionId)}`
+    : "";
+  return `s3x://${authority}/${normalizedKey}${query}`;
 }
 
 /**
- * Parse an S3X URI into bucket and key components
+ * Parse an S3X URI into connection, bucket, key and version components
  */
-export function parseS3xUri(uri: string): { bucket: string; key: string } {
-  const match = uri.match(/^s3x:\/\/([^\/]+)\/(.*)$/);
+export function parseS3xUri(uri: string): {
+  bucket: string;
+  key: string;
+  connection?: string;
+  versionId?: string;
+} {
+  const match = uri.match(
+    /^s3x:\/\/(?:([^\/@]+)@)?([^\/@]+)\/([^?#]*)(?:\?([^#]*))?/
+  );
   if (!match) {
     throw new Error(`Invalid S3X URI: ${uri}`);
   }
 
+  // Uri.toString() encodes the "=" of the query as well
+  const version = decodeURIComponent(match[4] || "").match(
+    /(?:^|&)versionId=([^&]*)/
+  );
+
+  // Keys are percent-encoded by createS3xUri and by Uri.toString()
+  let key = match[3];
+  try {
+    key = decodeURIComponent(key);
+  } catch {
+    // Not encoded; a lone "%" can't start a valid escape
+  }
+
   return {
-    bucket: match[1],
-    key: normalizeKey(match[2]),
+    bucket: match[2],
+    key: normalizeKey(key),
+    connection: match[1] || undefined,
+    versionId: version ? version[1] : undefined,
   };
 }
 
@@ -177,6 +213,15 @@ export function generateUniqueKey(
   let counter = 1;
   let uniqueKey = baseKey;
 
+  // Folders keep their trailing slash: "photos/" becomes "photos (1)/"
+  if (baseKey.endsWith("/")) {
+    while (existingKeys.includes(uniqueKey)) {
+      uniqueKey = `${baseKey.slice(0, -1)} (${counter})/`;
+      counter++;
+    }
+    return uniqueKey;
+  }
+
   while (existingKeys.includes(uniqueKey)) {
     const extension = getFileExtension(baseKey);
     const nameWithoutExt = baseKey.substring(0, baseKey.lastIndexOf("."));
@@ -193,6 +238,24 @@ export function generateUniqueKey(
   return uniqueKey;
 }
 
+/**
+ * Get the longest folder prefix (ending in "/") shared by all keys
+ */
+export function getCommonPrefix(keys: string[]): string {
+  if (keys.length === 0) {
+    return "";
+  }
+
+  let common = getDirName(keys[0]);
+  for (const key of keys.slice(1)) {
+    while (common && !key.startsWith(common)) {
+      common = getParentPrefix(common);
+    }
+  }
+
+  return common;
+}
+
 /**
  * Get the file extension from a key
  */
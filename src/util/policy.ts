@@ -0,0 +1,311 @@
+/**
+ * Local checks for bucket policies, run before a policy is applied
+ */
+
+export interface PolicyFinding {
+  code:
+    | "syntax"
+    | "statement"
+    | "resource"
+    | "publicPrincipal"
+    | "secureTransport";
+  severity: "error" | "warning";
+  message: string;
+  path: Array<string | number>; // Where in the document, e.g. Statement/0
+}
+
+/**
+ * A policy that only allows TLS requests, for buckets without a policy
+ */
+export function createPolicyTemplate(bucket: string): string {
+  return formatBucketPolicy(
+    JSON.stringify({
+      Version: "2012-10-17",
+      Statement: [
+        {
+          Sid: "DenyInsecureTransport",
+          Effect: "Deny",
+          Principal: "*",
+          Action: "s3:*",
+          Resource: [`arn:aws:s3:::${bucket}`, `arn:aws:s3:::${bucket}/*`],
+          Condition: { Bool: { "aws:SecureTransport": "false" } },
+        },
+      ],
+    })
+  );
+}
+
+// GetBucketPolicy returns the policy as one line
+export function formatBucketPolicy(policy: string): string {
+  try {
+    return `${JSON.stringify(JSON.parse(policy), null, 2)}\n`;
+  } catch {
+    return policy;
+  }
+}
+
+/**
+ * Check a policy document for mistakes S3 would reject (errors) and for
+ * risky grants (warnings): wildcard principals, no statement that denies
+ * plain HTTP, and resources outside the bucket.
+ */
+export function lintBucketPolicy(
+  text: string,
+  bucket: string
+): PolicyFinding[] {
+  let policy: any;
+  try {
+    policy = JSON.parse(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : error;
+    return [finding("syntax", "error", `Invalid JSON: ${message}`, [])];
+  }
+
+  if (!isObject(policy)) {
+    return [finding("syntax", "error", "Expected a policy object", [])];
+  }
+
+  const findings: PolicyFinding[] = [];
+
+  if (policy.Version !== "2012-10-17") {
+    findings.push(
+      finding(
+        "statement",
+        "warning",
+        'Use "Version": "2012-10-17"; older versions do not support policy variables',
+        policy.Version === undefined ? [] : ["Version"]
+      )
+    );
+  }
+
+  const isList = Array.isArray(policy.Statement);
+  const statements: any[] = isList ? policy.Statement : [policy.Statement];
+  if (policy.Statement === undefined || statements.length === 0) {
+    return [
+      ...findings,
+      finding("statement", "error", "Add at least one Statement", []),
+    ];
+  }
+
+  statements.forEach((statement, index) => {
+    const at = isList ? ["Statement", index] : ["Statement"];
+    if (!isObject(statement)) {
+      findings.push(
+        finding("statement", "error", "Statement must be an object", at)
+      );
+      return;
+    }
+
+    if (statement.Effect !== "Allow" && statement.Effect !== "Deny") {
+      findings.push(
+        finding(
+          "statement",
+          "error",
+          'Effect must be "Allow" or "Deny"',
+          "Effect" in statement ? [...at, "Effect"] : at
+        )
+      );
+    }
+
+    if (statement.Effect === "Allow") {
+      findings.push(...lintPrincipal(statement, at));
+    }
+
+    const resourceKey = "NotResource" in statement ? "NotResource" : "Resource";
+    const resources = statement[resourceKey];
+    if (resources === undefined) {
+      findings.push(
+        finding("resource", "error", "Statement needs a Resource", at)
+      );
+    } else {
+      toList(resources).forEach((resource, resourceIndex) => {
+        if (!isBucketResource(resource, bucket)) {
+          findings.push(
+            finding(
+              "resource",
+              "error",
+              `"${resource}" is not this bucket; use arn:aws:s3:::${bucket} or arn:aws:s3:::${bucket}/*`,
+              Array.isArray(resources)
+                ? [...at, resourceKey, resourceIndex]
+                : [...at, resourceKey]
+            )
+          );
+        }
+      });
+    }
+  });
+
+  if (!statements.some(deniesInsecureTransport)) {
+    findings.push(
+      finding(
+        "secureTransport",
+        "warning",
+        'No statement denies plain HTTP requests. Add a Deny statement with the condition { "Bool": { "aws:SecureTransport": "false" } }',
+        ["Statement"]
+      )
+    );
+  }
+
+  return findings;
+}
+
+/**
+ * Find where the value at a JSON path is written in a document, so findings
+ * can be shown in the editor. Object properties include their key. Returns
+ * undefined if the path does not exist; the text must be valid JSON.
+ */
+export function findJsonLocation(
+  text: string,
+  path: Array<string | number>
+): { start: number; end: number } | undefined {
+  let position = 0;
+
+  const skipWhitespace = () => {
+    while (position < text.length && /\s/.test(text[position])) {
+      position++;
+    }
+  };
+
+  const skipString = () => {
+    position++;
+    while (position < text.length && text[position] !== '"') {
+      position += text[position] === "\\" ? 2 : 1;
+    }
+    position++;
+  };
+
+  // Walk the value at the current position; rest is the remaining path when
+  // this value is on it
+  const walk = (
+    rest?: Array<string | number>
+  ): { start: number; end: number } | undefined => {
+    skipWhitespace();
+    const start = position;
+    let found: { start: number; end: number } | undefined;
+
+    if (text[position] === "{" || text[position] === "[") {
+      const isObject = text[position] === "{";
+      const close = isObject ? "}" : "]";
+      position++;
+
+      for (let index = 0; ; index++) {
+        skipWhitespace();
+        if (position >= text.length || text[position] === close) {
+          break;
+        }
+
+        let key: string | number = index;
+        const keyStart = position;
+        if (isObject) {
+          skipString();
+          key = JSON.parse(text.substring(keyStart, position));
+          skipWhitespace();
+          position++; // ":"
+        }
+
+        const onPath = rest !== undefined && rest[0] === key;
+        const match = walk(onPath ? rest.slice(1) : undefined);
+        if (match && !found) {
+          found =
+            onPath && isObject && rest.length === 1
+              ? { start: keyStart, end: match.end }
+              : match;
+        }
+
+        skipWhitespace();
+        if (text[position] === ",") {
+          position++;
+        }
+      }
+      position++;
+    } else if (text[position] === '"') {
+      skipString();
+    } else {
+      while (position < text.length && !/[\s,\]}]/.test(text[position])) {
+        position++;
+      }
+    }
+
+    return rest?.length === 0 ? { start, end: position } : found;
+  };
+
+  return walk(path);
+}
+
+function lintPrincipal(
+  statement: Record<string, any>,
+  at: Array<string | number>
+): PolicyFinding[] {
+  const anyone = statement.Condition
+    ? "Allows anyone who meets the Condition"
+    : "Allows anyone on the internet";
+
+  if ("NotPrincipal" in statement) {
+    return [
+      finding(
+        "publicPrincipal",
+        "warning",
+        "Allow with NotPrincipal grants access to everyone not listed",
+        [...at, "NotPrincipal"]
+      ),
+    ];
+  }
+
+  const principal = statement.Principal;
+  if (principal === "*") {
+    return [
+      finding("publicPrincipal", "warning", `${anyone} (Principal "*")`, [
+        ...at,
+        "Principal",
+      ]),
+    ];
+  }
+  if (isObject(principal) && toList(principal.AWS).includes("*")) {
+    return [
+      finding("publicPrincipal", "warning", `${anyone} (AWS "*")`, [
+        ...at,
+        "Principal",
+        "AWS",
+      ]),
+    ];
+  }
+  return [];
+}
+
+function deniesInsecureTransport(statement: any): boolean {
+  if (!isObject(statement) || statement.Effect !== "Deny") {
+    return false;
+  }
+  const condition = statement.Condition?.Bool?.["aws:SecureTransport"];
+  return toList(condition).some((value) => String(value) === "false");
+}
+
+function isBucketResource(resource: unknown, bucket: string): boolean {
+  if (typeof resource !== "string") {
+    return false;
+  }
+  const match = resource.match(/^arn:aws[a-z-]*:s3:::(.*)$/);
+  return (
+    !!match && (match[1] === bucket || match[1].startsWith(`${bucket}/`))
+  );
+}
+
+function finding(
+  code: PolicyFinding["code"],
+  severity: PolicyFinding["severity"],
+  message: string,
+  path: Array<string | number>
+): PolicyFinding {
+  return { code, severity, message, path };
+}
+
+function toList(value: unknown): unknown[] {
+  if (value === undefined) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,62 @@
+/**
+ * Planning the move of plaintext secret keys from settings into secure
+ * storage
+ */
+
+// The default connection (the flat s3x.* settings) has no name
+export const DEFAULT_CONNECTION = "";
+
+export interface ScopeSecrets {
+  scope: string; // Shown to the user, e.g. "folder 'api'"
+  secretAccessKey?: string; // Of the default connection
+  connections?: Array<
+    { name?: string; secretAccessKey?: string } | null | undefined
+  >;
+}
+
+export interface SecretMigrationPlan {
+  // Keys to store, by connection name
+  secrets: Map<string, string>;
+  // Connections whose scopes hold different keys. These are left in
+  // settings for the user to resolve.
+  conflicts: Array<{ connection: string; scopes: string[] }>;
+}
+
+/**
+ * Decide which keys to move. Secure storage holds one key per connection,
+ * so a connection given different keys in different scopes (such as two
+ * workspace folders) is reported instead of letting one scope win.
+ */
+export function planSecretMigration(
+  scopes: ScopeSecrets[]
+): SecretMigrationPlan {
+  const found = new Map<string, Array<{ scope: string; value: string }>>();
+  const add = (connection: string, scope: string, value: string) => {
+    found.set(connection, [...(found.get(connection) || []), { scope, value }]);
+  };
+
+  for (const { scope, secretAccessKey, connections } of scopes) {
+    if (secretAccessKey) {
+      add(DEFAULT_CONNECTION, scope, secretAccessKey);
+    }
+    for (const connection of connections || []) {
+      if (connection?.name && connection.secretAccessKey) {
+        add(connection.name, scope, connection.secretAccessKey);
+      }
+    }
+  }
+
+  const plan: SecretMigrationPlan = { secrets: new Map(), conflicts: [] };
+  for (const [connection, values] of found) {
+    if (values.every(({ value }) => value === values[0].value)) {
+      plan.secrets.set(connection, values[0].value);
+    } else {
+      plan.conflicts.push({
+        connection,
+        scopes: values.map(({ scope }) => scope),
+      });
+    }
+  }
+
+  return plan;
+}
@@ -0,0 +1,170 @@
+/**
+ * Utilities for planning a sync between a local folder and an S3 prefix
+ */
+
+import { LocalFile, computeFileMd5, isUnchanged } from "./localFiles";
+import { S3Object } from "../types";
+
+// push/pull copy new and changed files in one direction. With mirror set,
+// files missing from the source are also deleted from the destination.
+export interface SyncOptions {
+  direction: "push" | "pull";
+  mirror: boolean;
+}
+
+export interface RemoteFile {
+  relativePath: string; // Key relative to the synced prefix
+  object: S3Object;
+}
+
+export interface SyncPlan {
+  uploads: Array<{ local: LocalFile; remote?: S3Object }>;
+  downloads: Array<{ remote: RemoteFile; local?: LocalFile }>;
+  deleteRemote: RemoteFile[];
+  deleteLocal: LocalFile[];
+  unchanged: number;
+}
+
+/**
+ * Work out which files to copy or delete. isSame decides whether a file
+ * present on both sides is already up to date.
+ */
+export async function planSync(
+  localFiles: LocalFile[],
+  remoteFiles: RemoteFile[],
+  options: SyncOptions,
+  isSame: (local: LocalFile, remote: S3Object) => Promise<boolean>
+): Promise<SyncPlan> {
+  const plan: SyncPlan = {
+    uploads: [],
+    downloads: [],
+    deleteRemote: [],
+    deleteLocal: [],
+    unchanged: 0,
+  };
+
+  const locals = new Map(localFiles.map((file) => [file.relativePath, file]));
+  const remotes = new Map(
+    remoteFiles.map((file) => [file.relativePath, file])
+  );
+
+  for (const local of localFiles) {
+    const remote = remotes.get(local.relativePath);
+
+    if (remote && (await isSame(local, remote.object))) {
+      plan.unchanged++;
+    } else if (options.direction === "push") {
+      plan.uploads.push({ local, remote: remote?.object });
+    } else if (remote) {
+      plan.downloads.push({ remote, local });
+    } else if (options.mirror) {
+      plan.deleteLocal.push(local);
+    }
+  }
+
+  for (const remote of remoteFiles) {
+    if (locals.has(remote.relativePath)) {
+      continue;
+    }
+
+    if (options.direction === "pull") {
+      plan.downloads.push({ remote });
+    } else if (options.mirror) {
+      plan.deleteRemote.push(remote);
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Whether a file present on both sides is already up to date, comparing in
+ * the direction the sync copies
+ */
+export function isSyncedFile(
+  local: LocalFile,
+  remote: S3Object,
+  options: SyncOptions
+): Promise<boolean> {
+  return isUnchanged(
+    local,
+    remote,
+    options.direction === "push" ? "upload" : "download",
+    () => computeFileMd5(local.path)
+  );
+}
+
+export function countSyncChanges(plan: SyncPlan): number {
+  return (
+    plan.uploads.length +
+    plan.downloads.length +
+    plan.deleteRemote.length +
+    plan.deleteLocal.length
+  );
+}
+
+/**
+ * Render a plan as a plain-text dry run, one line per change
+ */
+export function formatSyncPlan(
+  plan: SyncPlan,
+  localRoot: string,
+  remoteRoot: string
+): string {
+  const lines = [`Sync plan: ${localRoot} <-> ${remoteRoot}`, ""];
+
+  for (const { local, remote } of plan.uploads) {
+    lines.push(`upload${remote ? " (changed)" : ""}  ${local.relativePath}`);
+  }
+  for (const { remote, local } of plan.downloads) {
+    lines.push(
+      `download${local ? " (changed)" : ""}  ${remote.relativePath}`
+    );
+  }
+  for (const remote of plan.deleteRemote) {
+    lines.push(`delete remote  ${remote.relativePath}`);
+  }
+  for (const local of plan.deleteLocal) {
+    lines.push(`delete local  ${local.relativePath}`);
+  }
+
+  lines.push(
+    "",
+    `${plan.uploads.length} to upload, ${plan.downloads.length} to download, ` +
+      `${plan.deleteRemote.length + plan.deleteLocal.length} to delete, ` +
+      `${plan.unchanged} unchanged`
+  );
+
+  return lines.join("\n");
+}
+
+/**
+ * Render a push/mirror plan as a comparison of the two sides
+ */
+export function formatSyncComparison(
+  plan: SyncPlan,
+  localRoot: string,
+  remoteRoot: string
+): string {
+  const lines = [`Compare: ${localRoot} <-> ${remoteRoot}`, ""];
+  const localOnly = plan.uploads.filter((upload) => !upload.remote);
+  const changed = plan.uploads.filter((upload) => upload.remote);
+
+  for (const { local } of changed) {
+    lines.push(`differs  ${local.relativePath}`);
+  }
+  for (const { local } of localOnly) {
+    lines.push(`local only  ${local.relativePath}`);
+  }
+  for (const remote of plan.deleteRemote) {
+    lines.push(`remote only  ${remote.relativePath}`);
+  }
+
+  lines.push(
+    "",
+    `${changed.length} differ, ${localOnly.length} local only, ` +
+      `${plan.deleteRemote.length} remote only, ${plan.unchanged} identical`
+  );
+
+  return lines.join("\n");
+}
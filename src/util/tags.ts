@@ -0,0 +1,121 @@
+/**
+ * Utilities for object tags, which S3 limits to 10 per object
+ */
+
+export const MAX_OBJECT_TAGS = 10;
+const MAX_KEY_LENGTH = 128;
+const MAX_VALUE_LENGTH = 256;
+// Letters, digits, spaces and + - = . _ : / @ (no commas, which separate
+// tags in the input box)
+const TAG_CHARACTERS = /^[\p{L}\p{N}\s+\-=._:/@]*$/u;
+
+export type ObjectTags = Record<string, string>;
+
+/**
+ * A change applied to each object's existing tags: "merge" adds or updates
+ * the given tags, "remove" deletes the given keys and "replace" swaps the
+ * whole set.
+ */
+export type TagChange =
+  | { mode: "merge"; tags: ObjectTags }
+  | { mode: "remove"; keys: string[] }
+  | { mode: "replace"; tags: ObjectTags };
+
+export function applyTagChange(
+  current: ObjectTags,
+  change: TagChange
+): ObjectTags {
+  switch (change.mode) {
+    case "merge":
+      return { ...current, ...change.tags };
+    case "remove":
+      return Object.fromEntries(
+        Object.entries(current).filter(([key]) => !change.keys.includes(key))
+      );
+    case "replace":
+      return { ...change.tags };
+  }
+}
+
+export function tagsEqual(a: ObjectTags, b: ObjectTags): boolean {
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => b[key] === a[key])
+  );
+}
+
+// "env=prod, team=data" - the format used by the tag input box
+export function formatTags(tags: ObjectTags): string {
+  return Object.entries(tags)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(", ");
+}
+
+/**
+ * Parse "key=value, key2=value2". Keys end at the first "=", and a key
+ * without "=" gets an empty value.
+ */
+export function parseTags(text: string): {
+  tags: ObjectTags;
+  errors: string[];
+} {
+  const tags: ObjectTags = {};
+  const errors: string[] = [];
+
+  for (const entry of text.split(",")) {
+    if (!entry.trim()) {
+      continue;
+    }
+
+    const separator = entry.indexOf("=");
+    const key = (separator < 0 ? entry : entry.substring(0, separator)).trim();
+    const value = separator < 0 ? "" : entry.substring(separator + 1).trim();
+
+    if (key in tags) {
+      errors.push(`Tag "${key}" is listed twice`);
+    }
+    tags[key] = value;
+  }
+
+  return { tags, errors: [...errors, ...validateTags(tags)] };
+}
+
+// Comma-separated tag keys, for removing tags
+export function parseTagKeys(text: string): string[] {
+  return text
+    .split(",")
+    .map((key) => key.trim())
+    .filter(Boolean);
+}
+
+export function validateTags(tags: ObjectTags): string[] {
+  const errors: string[] = [];
+  const entries = Object.entries(tags);
+
+  if (entries.length > MAX_OBJECT_TAGS) {
+    errors.push(
+      `Objects can have at most ${MAX_OBJECT_TAGS} tags, not ${entries.length}`
+    );
+  }
+
+  for (const [key, value] of entries) {
+    if (key.length === 0 || key.length > MAX_KEY_LENGTH) {
+      errors.push(`Tag keys must be 1 to ${MAX_KEY_LENGTH} characters`);
+    } else if (key.toLowerCase().startsWith("aws:")) {
+      errors.push(`Tag key "${key}" uses the reserved "aws:" prefix`);
+    }
+    if (value.length > MAX_VALUE_LENGTH) {
+      errors.push(
+        `Value of "${key}" is longer than ${MAX_VALUE_LENGTH} characters`
+      );
+    }
+    if (!TAG_CHARACTERS.test(key) || !TAG_CHARACTERS.test(value)) {
+      errors.push(
+        `Tag "${key}" may only use letters, digits, spaces and + - = . _ : / @`
+      );
+    }
+  }
+
+  return errors;
+}